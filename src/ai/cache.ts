@@ -0,0 +1,232 @@
+/**
+ * Response Cache
+ * Opt-in cache for AIRouter.complete keyed on normalized request content, so repeated
+ * prompts (scheduled tasks, common chat questions) are not re-sent to paid providers.
+ * Entries are stored one file per key so separate processes share them.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { CacheConfig, CompletionRequest, CompletionResponse } from './types.js';
+import { contentText } from './content.js';
+import { isReadOnlyToolCall } from '../tools/read-only.js';
+
+const DEFAULT_DIR = '.data/ai-cache';
+const DEFAULT_TTL_SECONDS = 3600;
+// Entries kept in memory; older ones are still on disk
+const MAX_MEMORY_ENTRIES = 500;
+
+interface CacheEntry {
+  key: string;
+  storedAt: number;
+  expiresAt: number;
+  response: CompletionResponse;
+}
+
+export interface CacheLookup {
+  /** Null when the request must not be cached */
+  key: string | null;
+  /** Why the request is not cacheable */
+  reason?: string;
+}
+
+export interface CacheStats {
+  entries: number;
+  expired: number;
+  bytes: number;
+}
+
+/**
+ * Collapse whitespace so formatting-only differences map to the same key
+ */
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+export class ResponseCache {
+  private config: CacheConfig;
+  private dir: string;
+  private memory: Map<string, CacheEntry> = new Map();
+
+  constructor(config: CacheConfig) {
+    this.config = config;
+    this.dir = config.dir || DEFAULT_DIR;
+  }
+
+  /**
+   * Whether caching applies to a domain: its own flag, else the global one
+   */
+  isEnabled(domain?: string): boolean {
+    const flag = domain ? this.config.domains?.[domain] : undefined;
+    return flag ?? this.config.enabled;
+  }
+
+  /**
+   * Cache key for a request sent to a provider/model, or the reason it is not cacheable.
+   * Conversations containing results of tools with side effects are never cached:
+   * replaying a reply to them would skip whatever those calls changed.
+   */
+  keyFor(request: CompletionRequest, provider: string, model: string | undefined, domain?: string): CacheLookup {
+    if (!this.isEnabled(domain)) {
+      return { key: null, reason: domain ? `disabled for domain ${domain}` : 'disabled' };
+    }
+
+    const answered = new Set(request.messages.filter(m => m.role === 'tool').map(m => m.tool_call_id));
+    for (const m of request.messages) {
+      for (const tc of m.tool_calls || []) {
+        if (!answered.has(tc.id)) continue;
+        let args: Record<string, any> = {};
+        try { args = JSON.parse(tc.function.arguments); } catch { /* treat as no args */ }
+        if (!isReadOnlyToolCall(tc.function.name, args)) {
+          return { key: null, reason: `contains result of ${tc.function.name}` };
+        }
+      }
+    }
+
+    const normalized = {
+      provider,
+      model: model || null,
+      messages: request.messages.map(m => ({
+        role: m.role,
+        content: normalizeText(contentText(m.content)),
+        // Images are keyed by their data, not by the placeholder text
+        media: typeof m.content === 'string' ? undefined : m.content.filter(p => p.type !== 'text'),
+        tool_calls: m.tool_calls?.map(tc => ({ name: tc.function.name, arguments: tc.function.arguments })),
+      })),
+      tools: request.tools?.map(t => ({ name: t.name, parameters: t.parameters })),
+      format: request.response_format,
+      temperature: request.temperature,
+      max_tokens: request.max_tokens,
+    };
+    return { key: createHash('sha256').update(JSON.stringify(normalized)).digest('hex') };
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    let entry = this.memory.get(key);
+    if (!entry) {
+      try {
+        entry = JSON.parse(await fs.readFile(this.path(key), 'utf-8')) as CacheEntry;
+      } catch {
+        return null;
+      }
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.memory.delete(key);
+      await fs.rm(this.path(key), { force: true });
+      return null;
+    }
+
+    this.remember(key, entry);
+    return entry;
+  }
+
+  async set(key: string, response: CompletionResponse): Promise<void> {
+    // Truncated or failed replies are not worth repeating
+    if (response.finish_reason === 'length' || response.finish_reason === 'error') return;
+
+    const ttl = this.config.ttlSeconds;
+    const now = Date.now();
+    const entry: CacheEntry = {
+      key,
+      storedAt: now,
+      expiresAt: now + (ttl !== undefined && Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_SECONDS) * 1000,
+      response,
+    };
+    this.remember(key, entry);
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(this.path(key), JSON.stringify(entry));
+  }
+
+  async stats(): Promise<CacheStats> {
+    const stats: CacheStats = { entries: 0, expired: 0, bytes: 0 };
+    for (const file of await this.files()) {
+      try {
+        const text = await fs.readFile(join(this.dir, file), 'utf-8');
+        const entry = JSON.parse(text) as CacheEntry;
+        stats.entries++;
+        stats.bytes += text.length;
+        if (entry.expiresAt <= Date.now()) stats.expired++;
+      } catch {
+        // Ignore unreadable entries
+      }
+    }
+    return stats;
+  }
+
+  /**
+   * Remove entries; only expired ones unless all is set. Returns how many were removed.
+   */
+  async clear(options?: { all?: boolean }): Promise<number> {
+    let removed = 0;
+    for (const file of await this.files()) {
+      const path = join(this.dir, file);
+      try {
+        if (!options?.all) {
+          const entry = JSON.parse(await fs.readFile(path, 'utf-8')) as CacheEntry;
+          if (entry.expiresAt > Date.now()) continue;
+        }
+        await fs.rm(path, { force: true });
+        removed++;
+      } catch {
+        // Ignore unreadable entries
+      }
+    }
+    this.memory.clear();
+    return removed;
+  }
+
+  /**
+   * Keep an entry in memory as the most recently used, dropping the least recently used past the cap
+   */
+  private remember(key: string, entry: CacheEntry): void {
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+    while (this.memory.size > MAX_MEMORY_ENTRIES) {
+      this.memory.delete(this.memory.keys().next().value!);
+    }
+  }
+
+  private async files(): Promise<string[]> {
+    try {
+      return (await fs.readdir(this.dir)).filter(f => f.endsWith('.json'));
+    } catch {
+      return [];
+    }
+  }
+
+  private path(key: string): string {
+    return join(this.dir, `${key}.json`);
+  }
+}
+
+/**
+ * Cache settings from AI_CACHE, AI_CACHE_TTL and AI_CACHE_DOMAINS.
+ * AI_CACHE_DOMAINS is a comma-separated list; "!name" turns a domain off, a bare name turns it on.
+ */
+export function cacheConfigFromEnv(): CacheConfig {
+  const domains: Record<string, boolean> = {};
+  for (const entry of (process.env.AI_CACHE_DOMAINS || '').split(',').map(d => d.trim()).filter(Boolean)) {
+    if (entry.startsWith('!')) {
+      domains[entry.slice(1)] = false;
+    } else {
+      domains[entry] = true;
+    }
+  }
+
+  let ttlSeconds: number | undefined;
+  if (process.env.AI_CACHE_TTL) {
+    ttlSeconds = Number(process.env.AI_CACHE_TTL);
+    if (!Number.isInteger(ttlSeconds) || ttlSeconds <= 0) {
+      console.warn(`[Cache] Ignoring AI_CACHE_TTL=${process.env.AI_CACHE_TTL}: expected a positive number of seconds, using ${DEFAULT_TTL_SECONDS}`);
+      ttlSeconds = undefined;
+    }
+  }
+
+  return {
+    enabled: process.env.AI_CACHE === 'true',
+    ttlSeconds,
+    domains: Object.keys(domains).length ? domains : undefined,
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * Message Content
+ * Helpers for multimodal content parts shared by providers, the router and tools
+ */
+
+import { promises as fs } from 'fs';
+import { basename, extname } from 'path';
+import type { ContentPart, Message } from './types.js';
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+};
+
+// Rough token cost of an image for context budgeting (providers charge ~0.5-1.5k per image)
+const IMAGE_TOKEN_ESTIMATE = 1000;
+
+/**
+ * Text of a message. Images and files become short placeholders, for providers
+ * and code paths that only handle text.
+ */
+export function contentText(content: Message['content']): string {
+  if (typeof content === 'string') return content;
+  return content
+    .map(p => p.type === 'text' ? p.text : p.type === 'image' ? `[image: ${p.mimeType}]` : `[file: ${p.name || p.mimeType}]`)
+    .join('\n');
+}
+
+/**
+ * Approximate size of a message's content in characters (about 4 per token)
+ */
+export function contentLength(content: Message['content']): number {
+  if (typeof content === 'string') return content.length;
+  return content.reduce((sum, p) => sum + (p.type === 'text' ? p.text.length : IMAGE_TOKEN_ESTIMATE * 4), 0);
+}
+
+/**
+ * Number of image and file parts across messages
+ */
+export function countMedia(messages: Message[]): number {
+  return messages.reduce((n, m) => n + (typeof m.content === 'string' ? 0 : m.content.filter(p => p.type !== 'text').length), 0);
+}
+
+export function hasImages(message: Message | undefined): boolean {
+  return Array.isArray(message?.content) && message!.content.some(p => p.type === 'image');
+}
+
+/**
+ * data: URL of an inline part, or its remote URL
+ */
+export function partUrl(part: Extract<ContentPart, { type: 'image' | 'file' }>): string {
+  return part.data ? `data:${part.mimeType};base64,${part.data}` : part.url || '';
+}
+
+export function mimeTypeFor(path: string): string {
+  return MIME_TYPES[extname(path).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Load an image or document from a local path or URL as an inline content part
+ */
+export async function loadContentPart(source: string, signal?: AbortSignal): Promise<Extract<ContentPart, { type: 'image' | 'file' }>> {
+  let data: Buffer;
+  let mimeType: string;
+
+  if (source.startsWith('http://') || source.startsWith('https://')) {
+    const response = await fetch(source, { signal });
+    if (!response.ok) throw new Error(`Failed to fetch ${source}: ${response.status}`);
+    data = Buffer.from(await response.arrayBuffer());
+    mimeType = response.headers.get('content-type')?.split(';')[0] || mimeTypeFor(new URL(source).pathname);
+  } else {
+    data = await fs.readFile(source);
+    mimeType = mimeTypeFor(source);
+  }
+
+  return mimeType.startsWith('image/')
+    ? { type: 'image', mimeType, data: data.toString('base64') }
+    : { type: 'file', mimeType, data: data.toString('base64'), name: basename(source) };
+}
@@ -0,0 +1,63 @@
+/**
+ * Provider Errors
+ */
+
+/**
+ * HTTP error returned by a provider API
+ */
+export class ProviderError extends Error {
+  provider: string;
+  status?: number;
+
+  constructor(provider: string, message: string, status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.provider = provider;
+    this.status = status;
+  }
+}
+
+/**
+ * A structured completion that still did not match its schema after the repair attempts
+ */
+export class StructuredOutputError extends Error {
+  issues: string[];
+  /** Last raw reply */
+  content: string;
+
+  constructor(schemaName: string, issues: string[], content: string) {
+    super(`Response did not match schema ${schemaName}: ${issues.join('; ')}`);
+    this.name = 'StructuredOutputError';
+    this.issues = issues;
+    this.content = content;
+  }
+}
+
+/**
+ * Rate limits and server errors are worth retrying; other failures are not
+ */
+export function isRetryableError(error: any): boolean {
+  const status = error?.status;
+  return status === 429 || (typeof status === 'number' && status >= 500);
+}
+
+const NETWORK_ERROR_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_SOCKET']);
+
+/**
+ * The provider could not be reached: connection failures, DNS errors, timeouts
+ */
+export function isNetworkError(error: any): boolean {
+  const code = error?.code ?? error?.cause?.code;
+  if (typeof code === 'string' && NETWORK_ERROR_CODES.has(code)) return true;
+  if (error?.name === 'TimeoutError') return true;
+  // fetch wraps connection failures in a TypeError
+  return error?.name === 'TypeError' && /fetch failed/i.test(error?.message || '');
+}
+
+/**
+ * Failures that say something about the provider's health (as opposed to the request,
+ * e.g. a bad request, auth or content policy error)
+ */
+export function isProviderFault(error: any): boolean {
+  return isRetryableError(error) || isNetworkError(error);
+}
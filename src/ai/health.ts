@@ -0,0 +1,195 @@
+/**
+ * Provider Health
+ * Tracks error rate, latency and consecutive failures per provider, and trips a
+ * circuit breaker that takes a failing provider out of rotation for a while.
+ * Only provider faults (rate limits, server and network errors) count towards
+ * opening it; a rejected request says nothing about the provider's health.
+ * Shared by all routers in the process.
+ */
+
+import { isProviderFault } from './errors.js';
+
+// A trial that never reports back (e.g. a cancelled request) frees the slot after this long
+const TRIAL_TIMEOUT_MS = 120000;
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface HealthConfig {
+  /** Consecutive failures that open the circuit */
+  failureThreshold?: number;
+  /** How long an open circuit keeps the provider out (doubles on each re-trip) */
+  cooldownMs?: number;
+  /** Upper bound for the cooldown */
+  maxCooldownMs?: number;
+  /** Number of recent calls used for error rate and latency */
+  windowSize?: number;
+}
+
+export interface ProviderHealthSnapshot {
+  provider: string;
+  state: CircuitState;
+  calls: number;
+  errorRate: number;
+  avgLatencyMs: number | null;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastErrorAt?: string;
+  openUntil?: string;
+}
+
+interface ProviderStats {
+  /** Recent outcomes, newest last */
+  window: Array<{ ok: boolean; latencyMs: number }>;
+  consecutiveFailures: number;
+  trips: number;
+  openUntil: number;
+  /** While set and in the future, a half-open trial request is in flight */
+  trialUntil: number;
+  lastError?: string;
+  lastErrorAt?: number;
+}
+
+export class ProviderHealth {
+  private config: Required<HealthConfig>;
+  private stats: Map<string, ProviderStats> = new Map();
+
+  constructor(config?: HealthConfig) {
+    this.config = {
+      failureThreshold: 3,
+      cooldownMs: 30000,
+      maxCooldownMs: 300000,
+      windowSize: 20,
+      ...config,
+    };
+  }
+
+  /**
+   * Circuit state. An open circuit becomes half-open once its cooldown has passed,
+   * letting a single request through as a trial (see acquire).
+   */
+  getState(provider: string): CircuitState {
+    const s = this.stats.get(provider);
+    if (!s || s.consecutiveFailures < this.config.failureThreshold) return 'closed';
+    return Date.now() < s.openUntil ? 'open' : 'half_open';
+  }
+
+  /**
+   * Whether requests may be sent to the provider: closed, or half-open with no trial in flight
+   */
+  isAvailable(provider: string): boolean {
+    const state = this.getState(provider);
+    return state === 'closed' || (state === 'half_open' && !this.trialInFlight(provider));
+  }
+
+  /**
+   * Claim the right to send a request. Always granted while closed; while half-open only
+   * one caller gets it until that trial's outcome is recorded.
+   */
+  acquire(provider: string): boolean {
+    const state = this.getState(provider);
+    if (state === 'closed') return true;
+    if (state === 'open' || this.trialInFlight(provider)) return false;
+    this.get(provider).trialUntil = Date.now() + TRIAL_TIMEOUT_MS;
+    return true;
+  }
+
+  recordSuccess(provider: string, latencyMs: number): void {
+    const s = this.get(provider);
+    this.push(s, { ok: true, latencyMs });
+    this.close(s);
+  }
+
+  /**
+   * Record a failed call. Returns true when this failure opened the circuit.
+   */
+  recordFailure(provider: string, error: Error, latencyMs: number): boolean {
+    const s = this.get(provider);
+    const wasHalfOpen = this.getState(provider) === 'half_open';
+    this.push(s, { ok: false, latencyMs });
+    s.trialUntil = 0;
+    s.lastError = error.message;
+    s.lastErrorAt = Date.now();
+
+    if (!isProviderFault(error)) {
+      // The provider answered, so a half-open trial succeeded as far as health goes
+      if (wasHalfOpen) this.close(s);
+      return false;
+    }
+    s.consecutiveFailures++;
+
+    if (wasHalfOpen || s.consecutiveFailures === this.config.failureThreshold) {
+      const cooldown = Math.min(this.config.cooldownMs * Math.pow(2, s.trips), this.config.maxCooldownMs);
+      s.trips++;
+      s.openUntil = Date.now() + cooldown;
+      return true;
+    }
+    return false;
+  }
+
+  snapshot(): ProviderHealthSnapshot[] {
+    return Array.from(this.stats.entries()).map(([provider, s]) => {
+      const failures = s.window.filter(w => !w.ok).length;
+      const successes = s.window.filter(w => w.ok);
+      const state = this.getState(provider);
+      return {
+        provider,
+        state,
+        calls: s.window.length,
+        errorRate: s.window.length ? failures / s.window.length : 0,
+        avgLatencyMs: successes.length
+          ? Math.round(successes.reduce((sum, w) => sum + w.latencyMs, 0) / successes.length)
+          : null,
+        consecutiveFailures: s.consecutiveFailures,
+        lastError: s.lastError,
+        lastErrorAt: s.lastErrorAt ? new Date(s.lastErrorAt).toISOString() : undefined,
+        openUntil: state === 'open' ? new Date(s.openUntil).toISOString() : undefined,
+      };
+    });
+  }
+
+  /**
+   * Close a provider's circuit and forget its history
+   */
+  reset(provider?: string): void {
+    if (provider) {
+      this.stats.delete(provider);
+    } else {
+      this.stats.clear();
+    }
+  }
+
+  private get(provider: string): ProviderStats {
+    let s = this.stats.get(provider);
+    if (!s) {
+      s = { window: [], consecutiveFailures: 0, trips: 0, openUntil: 0, trialUntil: 0 };
+      this.stats.set(provider, s);
+    }
+    return s;
+  }
+
+  private trialInFlight(provider: string): boolean {
+    return (this.stats.get(provider)?.trialUntil ?? 0) > Date.now();
+  }
+
+  private close(s: ProviderStats) {
+    s.consecutiveFailures = 0;
+    s.trips = 0;
+    s.openUntil = 0;
+    s.trialUntil = 0;
+  }
+
+  private push(s: ProviderStats, outcome: { ok: boolean; latencyMs: number }) {
+    s.window.push(outcome);
+    if (s.window.length > this.config.windowSize) s.window.shift();
+  }
+}
+
+// Singleton
+let providerHealth: ProviderHealth | null = null;
+
+export function getProviderHealth(): ProviderHealth {
+  if (!providerHealth) {
+    providerHealth = new ProviderHealth();
+  }
+  return providerHealth;
+}
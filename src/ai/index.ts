@@ -4,6 +4,14 @@
 
 export * from './types.js';
 export * from './router.js';
+export * from './pricing.js';
+export * from './health.js';
+export * from './errors.js';
+export * from './content.js';
+export * from './cache.js';
 export { OpenAIProvider } from './providers/openai.js';
 export { AnthropicProvider } from './providers/anthropic.js';
 export { PerplexityProvider } from './providers/perplexity.js';
+export { OpenAICompatibleProvider } from './providers/openai-compatible.js';
+export { ReplayProvider, RecordingProvider, FixtureRecorder, requestHash, loadFixture, getFixtureRecorder, getReplayProvider } from './providers/replay.js';
+export { MockProvider, mockToolCall, type MockStep } from './providers/mock.js';
@@ -0,0 +1,158 @@
+/**
+ * Model Pricing
+ * USD per million tokens, used to turn provider usage into cost estimates
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import type { CompletionResponse, ProviderName } from './types.js';
+
+export interface ModelPricing {
+  /** USD per 1M prompt tokens */
+  input: number;
+  /** USD per 1M completion tokens */
+  output: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface RunUsage extends UsageTotals {
+  byProvider: Record<string, UsageTotals>;
+}
+
+/**
+ * Prices by provider, matched on the longest model prefix.
+ * The '*' entry applies when no prefix matches.
+ */
+export const MODEL_PRICING: Record<string, Record<string, ModelPricing>> = {
+  openai: {
+    'gpt-5': { input: 1.25, output: 10 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'o3': { input: 2, output: 8 },
+    'o4-mini': { input: 1.1, output: 4.4 },
+    '*': { input: 2.5, output: 10 },
+  },
+  anthropic: {
+    'claude-opus-4-5': { input: 5, output: 25 },
+    'claude-opus': { input: 15, output: 75 },
+    'claude-sonnet': { input: 3, output: 15 },
+    'claude-haiku': { input: 1, output: 5 },
+    'claude-3-5-haiku': { input: 0.8, output: 4 },
+    '*': { input: 3, output: 15 },
+  },
+  perplexity: {
+    'sonar-pro': { input: 3, output: 15 },
+    'sonar-reasoning': { input: 1, output: 5 },
+    'sonar': { input: 1, output: 1 },
+    '*': { input: 3, output: 15 },
+  },
+  gemini: {
+    'gemini-3-pro': { input: 2, output: 12 },
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+    '*': { input: 1.25, output: 10 },
+  },
+  // Self-hosted
+  'openai-compatible': { '*': { input: 0, output: 0 } },
+  // Offline testing
+  replay: { '*': { input: 0, output: 0 } },
+  mock: { '*': { input: 0, output: 0 } },
+  // CLI tools are billed through their own subscriptions
+  'cli-claude': { '*': { input: 0, output: 0 } },
+  'cli-gemini': { '*': { input: 0, output: 0 } },
+  'cli-codex': { '*': { input: 0, output: 0 } },
+};
+
+let overrides: Record<string, Record<string, ModelPricing>> | null = null;
+
+/**
+ * Optional overrides from the JSON file named by AI_PRICING_FILE,
+ * shaped like MODEL_PRICING
+ */
+function getOverrides(): Record<string, Record<string, ModelPricing>> {
+  if (overrides) return overrides;
+  overrides = {};
+  const path = process.env.AI_PRICING_FILE;
+  if (path && existsSync(path)) {
+    try {
+      overrides = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (e: any) {
+      console.warn(`[Pricing] Could not read ${path}: ${e.message}`);
+    }
+  }
+  return overrides!;
+}
+
+/**
+ * Look up the price for a provider/model pair
+ */
+export function getModelPricing(provider: ProviderName | string, model?: string): ModelPricing | undefined {
+  const table = { ...MODEL_PRICING[provider], ...getOverrides()[provider] };
+  const name = (model || '').toLowerCase();
+
+  let best: string | undefined;
+  for (const prefix of Object.keys(table)) {
+    if (prefix !== '*' && name.startsWith(prefix.toLowerCase()) && (!best || prefix.length > best.length)) {
+      best = prefix;
+    }
+  }
+  return table[best ?? '*'];
+}
+
+/**
+ * Estimated cost in USD of a completion
+ */
+export function calculateCost(
+  provider: ProviderName | string,
+  model: string | undefined,
+  usage: CompletionResponse['usage']
+): number {
+  if (!usage) return 0;
+  const pricing = getModelPricing(provider, model);
+  if (!pricing) return 0;
+  return (usage.prompt_tokens * pricing.input + usage.completion_tokens * pricing.output) / 1_000_000;
+}
+
+export function emptyUsage(): RunUsage {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, byProvider: {} };
+}
+
+/**
+ * Add one completion to running totals
+ */
+export function addUsage(totals: RunUsage, provider: string, usage: CompletionResponse['usage'], costUsd: number): void {
+  const bucket = totals.byProvider[provider] ??= { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+  for (const t of [totals, bucket]) {
+    t.calls++;
+    t.promptTokens += usage?.prompt_tokens || 0;
+    t.completionTokens += usage?.completion_tokens || 0;
+    t.totalTokens += usage?.total_tokens || 0;
+    t.costUsd += costUsd;
+  }
+}
+
+/**
+ * Add the totals of another run (e.g. a sub-agent) to running totals
+ */
+export function mergeUsage(totals: RunUsage, other: RunUsage): void {
+  const add = (t: UsageTotals, o: UsageTotals) => {
+    t.calls += o.calls;
+    t.promptTokens += o.promptTokens;
+    t.completionTokens += o.completionTokens;
+    t.totalTokens += o.totalTokens;
+    t.costUsd += o.costUsd;
+  };
+  add(totals, other);
+  for (const [provider, bucket] of Object.entries(other.byProvider)) {
+    add(totals.byProvider[provider] ??= { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 }, bucket);
+  }
+}
@@ -2,7 +2,13 @@
  * Anthropic Provider (Claude)
  */
 
-import type { ProviderClient, CompletionRequest, CompletionResponse, ProviderConfig, Message, ToolDefinition } from '../types.js';
+import type { ProviderClient, CompletionRequest, CompletionResponse, ProviderConfig, RequestOptions, StreamEvent, Message, ToolDefinition } from '../types.js';
+import { readSSE } from './sse.js';
+import { ProviderError } from '../errors.js';
+import { contentText } from '../content.js';
+
+// Claude has no JSON mode; structured replies are requested as a forced call to this tool
+const STRUCTURED_TOOL = 'structured_response';
 
 export class AnthropicProvider implements ProviderClient {
   name = 'anthropic' as const;
@@ -18,7 +24,127 @@ export class AnthropicProvider implements ProviderClient {
     return !!this.config.apiKey && this.config.enabled !== false;
   }
 
-  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+  async complete(request: CompletionRequest, options?: RequestOptions): Promise<CompletionResponse> {
+    const response = await this.post(this.buildBody(request), options);
+    const data = await response.json();
+    
+    // Parse response - Claude returns content as array of blocks
+    let content = '';
+    const toolCalls: any[] = [];
+    
+    for (const block of data.content) {
+      if (block.type === 'text') {
+        content += block.text;
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({
+          id: block.id,
+          type: 'function',
+          function: {
+            name: block.name,
+            arguments: JSON.stringify(block.input),
+          },
+        });
+      }
+    }
+
+    return this.unwrapStructured(request, {
+      id: data.id,
+      provider: 'anthropic',
+      model: data.model,
+      message: {
+        role: 'assistant',
+        content,
+        tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+      },
+      usage: data.usage ? {
+        prompt_tokens: data.usage.input_tokens,
+        completion_tokens: data.usage.output_tokens,
+        total_tokens: data.usage.input_tokens + data.usage.output_tokens,
+      } : undefined,
+      finish_reason: this.convertStopReason(data.stop_reason),
+    });
+  }
+
+  async *completeStream(request: CompletionRequest, options?: RequestOptions): AsyncGenerator<StreamEvent> {
+    const body = { ...this.buildBody(request), stream: true };
+    const response = await this.post(body, options);
+
+    let id = '';
+    let model = body.model;
+    let content = '';
+    let stopReason: string | undefined;
+    let inputTokens = 0;
+    let outputTokens = 0;
+    // Content block index -> tool call position
+    const toolIndex = new Map<number, number>();
+    const toolCalls: Array<{ id: string; name: string; arguments: string }> = [];
+
+    for await (const { event, data } of readSSE(response)) {
+      const payload = JSON.parse(data);
+      switch (event ?? payload.type) {
+        case 'message_start':
+          id = payload.message.id;
+          model = payload.message.model;
+          inputTokens = payload.message.usage?.input_tokens || 0;
+          outputTokens = payload.message.usage?.output_tokens || 0;
+          break;
+
+        case 'content_block_start':
+          if (payload.content_block.type === 'tool_use') {
+            const index = toolCalls.length;
+            toolIndex.set(payload.index, index);
+            toolCalls.push({ id: payload.content_block.id, name: payload.content_block.name, arguments: '' });
+            yield { type: 'tool_call', index, id: payload.content_block.id, name: payload.content_block.name, argumentsDelta: '' };
+          }
+          break;
+
+        case 'content_block_delta':
+          if (payload.delta.type === 'text_delta') {
+            content += payload.delta.text;
+            yield { type: 'text', delta: payload.delta.text };
+          } else if (payload.delta.type === 'input_json_delta') {
+            const index = toolIndex.get(payload.index);
+            if (index === undefined) break;
+            toolCalls[index].arguments += payload.delta.partial_json;
+            yield { type: 'tool_call', index, argumentsDelta: payload.delta.partial_json };
+          }
+          break;
+
+        case 'message_delta':
+          stopReason = payload.delta?.stop_reason || stopReason;
+          outputTokens = payload.usage?.output_tokens ?? outputTokens;
+          break;
+
+        case 'error':
+          throw new Error(`Anthropic stream error: ${payload.error?.message || data}`);
+      }
+    }
+
+    yield {
+      type: 'done',
+      response: this.unwrapStructured(request, {
+        id,
+        provider: 'anthropic',
+        model,
+        message: {
+          role: 'assistant',
+          content,
+          tool_calls: toolCalls.length > 0
+            // Tools without input stream no JSON deltas
+            ? toolCalls.map(tc => ({ id: tc.id, type: 'function' as const, function: { name: tc.name, arguments: tc.arguments || '{}' } }))
+            : undefined,
+        },
+        usage: {
+          prompt_tokens: inputTokens,
+          completion_tokens: outputTokens,
+          total_tokens: inputTokens + outputTokens,
+        },
+        finish_reason: this.convertStopReason(stopReason),
+      }),
+    };
+  }
+
+  private buildBody(request: CompletionRequest): any {
     const model = request.model || this.config.defaultModel || 'claude-sonnet-4-20250514';
     
     // Extract system message
@@ -32,7 +158,7 @@ export class AnthropicProvider implements ProviderClient {
     };
 
     if (systemMsg) {
-      body.system = systemMsg.content;
+      body.system = contentText(systemMsg.content);
     }
 
     if (request.tools && request.tools.length > 0) {
@@ -43,6 +169,32 @@ export class AnthropicProvider implements ProviderClient {
       }));
     }
 
+    if (request.response_format) {
+      body.tools = [...(body.tools || []), {
+        name: STRUCTURED_TOOL,
+        description: `Return the ${request.response_format.name} result`,
+        input_schema: request.response_format.schema,
+      }];
+      body.tool_choice = { type: 'tool', name: STRUCTURED_TOOL };
+    }
+
+    return body;
+  }
+
+  /**
+   * Turn the forced structured_response call back into a plain JSON reply
+   */
+  private unwrapStructured(request: CompletionRequest, response: CompletionResponse): CompletionResponse {
+    const call = request.response_format && response.message.tool_calls?.find(tc => tc.function.name === STRUCTURED_TOOL);
+    if (!call) return response;
+    return {
+      ...response,
+      message: { role: 'assistant', content: call.function.arguments },
+      finish_reason: 'stop',
+    };
+  }
+
+  private async post(body: any, options?: RequestOptions): Promise<Response> {
     const response = await fetch(`${this.baseUrl}/v1/messages`, {
       method: 'POST',
       headers: {
@@ -51,51 +203,20 @@ export class AnthropicProvider implements ProviderClient {
         'anthropic-version': '2023-06-01',
       },
       body: JSON.stringify(body),
+      signal: options?.signal,
     });
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`Anthropic API error: ${response.status} - ${error}`);
+      throw new ProviderError('anthropic', `Anthropic API error: ${response.status} - ${error}`, response.status);
     }
 
-    const data = await response.json();
-    
-    // Parse response - Claude returns content as array of blocks
-    let content = '';
-    const toolCalls: any[] = [];
-    
-    for (const block of data.content) {
-      if (block.type === 'text') {
-        content += block.text;
-      } else if (block.type === 'tool_use') {
-        toolCalls.push({
-          id: block.id,
-          type: 'function',
-          function: {
-            name: block.name,
-            arguments: JSON.stringify(block.input),
-          },
-        });
-      }
-    }
+    return response;
+  }
 
-    return {
-      id: data.id,
-      provider: 'anthropic',
-      model: data.model,
-      message: {
-        role: 'assistant',
-        content,
-        tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
-      },
-      usage: data.usage ? {
-        prompt_tokens: data.usage.input_tokens,
-        completion_tokens: data.usage.output_tokens,
-        total_tokens: data.usage.input_tokens + data.usage.output_tokens,
-      } : undefined,
-      finish_reason: data.stop_reason === 'tool_use' ? 'tool_calls' : 
-                     data.stop_reason === 'max_tokens' ? 'length' : 'stop',
-    };
+  private convertStopReason(reason?: string): CompletionResponse['finish_reason'] {
+    return reason === 'tool_use' ? 'tool_calls' : 
+           reason === 'max_tokens' ? 'length' : 'stop';
   }
 
   private convertMessages(messages: Message[]): any[] {
@@ -107,7 +228,7 @@ export class AnthropicProvider implements ProviderClient {
           content: [{
             type: 'tool_result',
             tool_use_id: m.tool_call_id,
-            content: m.content,
+            content: contentText(m.content),
           }],
         };
       }
@@ -116,7 +237,7 @@ export class AnthropicProvider implements ProviderClient {
         // Convert assistant message with tool calls
         const content: any[] = [];
         if (m.content) {
-          content.push({ type: 'text', text: m.content });
+          content.push({ type: 'text', text: contentText(m.content) });
         }
         for (const tc of m.tool_calls) {
           content.push({
@@ -129,7 +250,18 @@ export class AnthropicProvider implements ProviderClient {
         return { role: 'assistant', content };
       }
 
-      return { role: m.role, content: m.content };
+      return { role: m.role, content: this.convertContent(m.content) };
+    });
+  }
+
+  private convertContent(content: Message['content']): any {
+    if (typeof content === 'string') return content;
+    return content.map(p => {
+      if (p.type === 'text') return { type: 'text', text: p.text };
+      const source = p.data
+        ? { type: 'base64', media_type: p.mimeType, data: p.data }
+        : { type: 'url', url: p.url };
+      return { type: p.type === 'image' ? 'image' : 'document', source };
     });
   }
 }
@@ -4,7 +4,9 @@
  */
 
 import { spawn, execSync } from 'child_process';
-import type { ProviderClient, CompletionRequest, CompletionResponse, ProviderConfig, Message } from '../types.js';
+import type { ProviderClient, CompletionRequest, CompletionResponse, ProviderConfig, Message, RequestOptions } from '../types.js';
+import { toPromptMessages, parseToolCallsFromText } from './tool-prompt.js';
+import { contentText } from '../content.js';
 
 export type CLITool = 'claude' | 'gemini' | 'codex';
 
@@ -13,6 +15,12 @@ interface CLIConfig extends ProviderConfig {
   path?: string;
 }
 
+interface CLIOutput {
+  content: string;
+  usage?: CompletionResponse['usage'];
+  model?: string;
+}
+
 export class CLIProvider {
   name: string;
   private config: CLIConfig;
@@ -36,23 +44,27 @@ export class CLIProvider {
     }
   }
 
-  async complete(request: CompletionRequest): Promise<CompletionResponse> {
-    // Combine messages into a single prompt
-    const prompt = this.buildPrompt(request.messages);
+  async complete(request: CompletionRequest, options?: RequestOptions): Promise<CompletionResponse> {
+    // CLIs take a single prompt, so tools are described in it and calls parsed from the reply
+    const hasTools = !!request.tools?.length;
+    const messages = hasTools ? toPromptMessages(request.messages, request.tools!) : request.messages;
+    const prompt = this.buildPrompt(messages);
     
     // Execute CLI tool
-    const response = await this.executeCLI(prompt);
+    const output = this.parseOutput(await this.executeCLI(prompt, options?.signal));
+    const parsed = hasTools ? parseToolCallsFromText(output.content, request.tools!, this.name) : null;
     
     return {
       id: `cli-${Date.now()}`,
       provider: this.name as any,
-      model: this.toolName,
+      model: output.model || this.toolName,
       message: {
         role: 'assistant',
-        content: response,
+        content: parsed ? parsed.content : output.content,
+        tool_calls: parsed?.toolCalls,
       },
-      finish_reason: 'stop',
-      usage: {
+      finish_reason: parsed ? 'tool_calls' : 'stop',
+      usage: output.usage || {
         prompt_tokens: 0,
         completion_tokens: 0,
         total_tokens: 0,
@@ -63,36 +75,102 @@ export class CLIProvider {
   private buildPrompt(messages: Message[]): string {
     return messages
       .map(m => {
-        if (m.role === 'system') return `System: ${m.content}`;
-        if (m.role === 'user') return `User: ${m.content}`;
-        if (m.role === 'assistant') return `Assistant: ${m.content}`;
-        return m.content;
+        const text = contentText(m.content);
+        if (m.role === 'system') return `System: ${text}`;
+        if (m.role === 'user') return `User: ${text}`;
+        if (m.role === 'assistant') return `Assistant: ${text}`;
+        return text;
       })
       .join('\n\n');
   }
 
-  private async executeCLI(prompt: string): Promise<string> {
+  /**
+   * Extract the reply and token usage from the CLI's JSON output.
+   * Falls back to the raw text when the output is not the expected JSON (e.g. an older CLI version).
+   */
+  private parseOutput(raw: string): CLIOutput {
+    try {
+      switch (this.toolName) {
+        case 'claude': {
+          // { type: 'result', result, usage: { input_tokens, output_tokens, cache_* } }
+          const data = JSON.parse(raw);
+          if (data.is_error) {
+            throw new Error(`CLI claude failed: ${data.result || data.subtype}`);
+          }
+          const input = (data.usage?.input_tokens || 0)
+            + (data.usage?.cache_read_input_tokens || 0)
+            + (data.usage?.cache_creation_input_tokens || 0);
+          const output = data.usage?.output_tokens || 0;
+          return {
+            content: String(data.result ?? ''),
+            usage: data.usage ? { prompt_tokens: input, completion_tokens: output, total_tokens: input + output } : undefined,
+            model: Object.keys(data.modelUsage || {})[0],
+          };
+        }
+        case 'gemini': {
+          // { response, stats: { models: { <model>: { tokens: { prompt, candidates, total } } } } }
+          const data = JSON.parse(raw);
+          const models = Object.entries<any>(data.stats?.models || {});
+          const usage = models.reduce((sum, [, m]) => ({
+            prompt_tokens: sum.prompt_tokens + (m.tokens?.prompt || 0),
+            completion_tokens: sum.completion_tokens + (m.tokens?.candidates || 0),
+            total_tokens: sum.total_tokens + (m.tokens?.total || 0),
+          }), { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 });
+          return {
+            content: String(data.response ?? ''),
+            usage: models.length ? usage : undefined,
+            model: models[0]?.[0],
+          };
+        }
+        case 'codex': {
+          // JSON lines; the reply is the last agent_message item, usage comes with turn.completed
+          let content = '';
+          let usage: CompletionResponse['usage'];
+          for (const line of raw.split('\n')) {
+            if (!line.trim().startsWith('{')) continue;
+            const event = JSON.parse(line);
+            if (event.type === 'item.completed' && event.item?.type === 'agent_message') {
+              content = event.item.text ?? '';
+            } else if (event.type === 'turn.completed' && event.usage) {
+              const input = event.usage.input_tokens || 0;
+              const output = event.usage.output_tokens || 0;
+              usage = { prompt_tokens: input, completion_tokens: output, total_tokens: input + output };
+            }
+          }
+          if (!content && !usage) return { content: raw };
+          return { content, usage };
+        }
+      }
+    } catch (e: any) {
+      if (e.message?.startsWith('CLI ')) throw e;
+    }
+    return { content: raw };
+  }
+
+  private async executeCLI(prompt: string, signal?: AbortSignal): Promise<string> {
     return new Promise((resolve, reject) => {
       let args: string[] = [];
       
       switch (this.toolName) {
         case 'claude':
-          // Claude Code: claude -p "prompt"
-          args = ['-p', prompt];
+          // Claude Code: claude -p "prompt" --output-format json
+          args = ['-p', prompt, '--output-format', 'json'];
           break;
         case 'gemini':
-          // Gemini CLI: gemini "prompt"
-          args = [prompt];
+          // Gemini CLI: gemini -p "prompt" --output-format json
+          args = ['-p', prompt, '--output-format', 'json'];
           break;
         case 'codex':
-          // Codex CLI: codex "prompt"
-          args = [prompt];
+          // Codex CLI: codex exec --json "prompt" (plain "codex" starts the interactive UI)
+          args = ['exec', '--json', prompt];
           break;
       }
 
       const proc = spawn(this.toolPath, args, {
-        stdio: ['pipe', 'pipe', 'pipe'],
+        // No stdin: the CLIs otherwise wait for (and warn about) piped input
+        stdio: ['ignore', 'pipe', 'pipe'],
         timeout: 120000, // 2 minutes timeout
+        signal,
       });
 
       let stdout = '';
@@ -2,7 +2,10 @@
  * Google Gemini Provider
  */
 
-import type { ProviderClient, CompletionRequest, CompletionResponse, ProviderConfig, Message } from '../types.js';
+import type { ProviderClient, CompletionRequest, CompletionResponse, ProviderConfig, RequestOptions, StreamEvent, Message } from '../types.js';
+import { readSSE } from './sse.js';
+import { ProviderError } from '../errors.js';
+import { contentText } from '../content.js';
 
 export class GeminiProvider implements ProviderClient {
   name = 'gemini' as const;
@@ -18,7 +21,98 @@ export class GeminiProvider implements ProviderClient {
     return !!this.config.apiKey && this.config.enabled !== false;
   }
 
-  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+  async complete(request: CompletionRequest, options?: RequestOptions): Promise<CompletionResponse> {
+    const { model, body } = this.buildBody(request);
+    const response = await this.post(`${model}:generateContent?key=${this.config.apiKey}`, body, options);
+    const data = await response.json();
+    
+    // Handle blocked responses
+    if (data.promptFeedback?.blockReason) {
+      throw new Error(`Gemini blocked: ${data.promptFeedback.blockReason}`);
+    }
+
+    const candidate = data.candidates?.[0];
+    if (!candidate) {
+      throw new Error('No response from Gemini');
+    }
+
+    // Parse response content
+    let content = '';
+    const toolCalls: any[] = [];
+
+    for (const part of candidate.content?.parts || []) {
+      if (part.text) {
+        content += part.text;
+      } else if (part.functionCall) {
+        toolCalls.push(this.convertFunctionCall(part.functionCall, toolCalls.length));
+      }
+    }
+
+    return {
+      id: `gemini-${Date.now()}`,
+      provider: 'gemini',
+      model,
+      message: {
+        role: 'assistant',
+        content,
+        tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+      },
+      usage: this.convertUsage(data.usageMetadata),
+      finish_reason: this.convertFinishReason(candidate.finishReason, toolCalls.length > 0),
+    };
+  }
+
+  async *completeStream(request: CompletionRequest, options?: RequestOptions): AsyncGenerator<StreamEvent> {
+    const { model, body } = this.buildBody(request);
+    const response = await this.post(`${model}:streamGenerateContent?alt=sse&key=${this.config.apiKey}`, body, options);
+
+    let content = '';
+    let finishReason: string | undefined;
+    let usage: CompletionResponse['usage'];
+    const toolCalls: any[] = [];
+
+    for await (const { data } of readSSE(response)) {
+      const chunk = JSON.parse(data);
+      if (chunk.promptFeedback?.blockReason) {
+        throw new Error(`Gemini blocked: ${chunk.promptFeedback.blockReason}`);
+      }
+      if (chunk.usageMetadata) usage = this.convertUsage(chunk.usageMetadata);
+
+      const candidate = chunk.candidates?.[0];
+      if (!candidate) continue;
+      if (candidate.finishReason) finishReason = candidate.finishReason;
+
+      for (const part of candidate.content?.parts || []) {
+        if (part.text) {
+          content += part.text;
+          yield { type: 'text', delta: part.text };
+        } else if (part.functionCall) {
+          // Gemini sends each function call whole rather than as argument deltas
+          const call = this.convertFunctionCall(part.functionCall, toolCalls.length);
+          yield { type: 'tool_call', index: toolCalls.length, id: call.id, name: call.function.name, argumentsDelta: call.function.arguments };
+          toolCalls.push(call);
+        }
+      }
+    }
+
+    yield {
+      type: 'done',
+      response: {
+        id: `gemini-${Date.now()}`,
+        provider: 'gemini',
+        model,
+        message: {
+          role: 'assistant',
+          content,
+          tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+        },
+        usage,
+        finish_reason: this.convertFinishReason(finishReason, toolCalls.length > 0),
+      },
+    };
+  }
+
+  private buildBody(request: CompletionRequest): { model: string; body: any } {
     // Latest Gemini model
     const model = request.model || this.config.defaultModel || 'gemini-2.0-flash-exp';
     
@@ -41,86 +135,64 @@ export class GeminiProvider implements ProviderClient {
       }];
     }
 
+    if (request.response_format) {
+      body.generationConfig.responseMimeType = 'application/json';
+      body.generationConfig.responseSchema = this.cleanSchemaForGemini(request.response_format.schema);
+    }
+
     // Extract system instruction
     const systemMsg = request.messages.find(m => m.role === 'system');
     if (systemMsg) {
-      body.systemInstruction = { parts: [{ text: systemMsg.content }] };
+      body.systemInstruction = { parts: [{ text: contentText(systemMsg.content) }] };
     }
 
-    const url = `${this.baseUrl}/models/${model}:generateContent?key=${this.config.apiKey}`;
-    
-    const response = await fetch(url, {
+    return { model, body };
+  }
+
+  private async post(path: string, body: any, options?: RequestOptions): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/models/${path}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify(body),
+      signal: options?.signal,
     });
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`Gemini API error: ${response.status} - ${error}`);
-    }
-
-    const data = await response.json();
-    
-    // Handle blocked responses
-    if (data.promptFeedback?.blockReason) {
-      throw new Error(`Gemini blocked: ${data.promptFeedback.blockReason}`);
-    }
-
-    const candidate = data.candidates?.[0];
-    if (!candidate) {
-      throw new Error('No response from Gemini');
+      throw new ProviderError('gemini', `Gemini API error: ${response.status} - ${error}`, response.status);
     }
 
-    // Parse response content
-    let content = '';
-    const toolCalls: any[] = [];
-
-    for (const part of candidate.content?.parts || []) {
-      if (part.text) {
-        content += part.text;
-      } else if (part.functionCall) {
-        toolCalls.push({
-          id: `gemini_${Date.now()}_${toolCalls.length}`,
-          type: 'function',
-          function: {
-            name: part.functionCall.name,
-            arguments: JSON.stringify(part.functionCall.args || {}),
-          },
-        });
-      }
-    }
-
-    // Determine finish reason
-    let finishReason: 'stop' | 'tool_calls' | 'length' | 'error' = 'stop';
-    if (toolCalls.length > 0) {
-      finishReason = 'tool_calls';
-    } else if (candidate.finishReason === 'MAX_TOKENS') {
-      finishReason = 'length';
-    } else if (candidate.finishReason === 'SAFETY' || candidate.finishReason === 'RECITATION') {
-      finishReason = 'error';
-    }
+    return response;
+  }
 
+  private convertFunctionCall(functionCall: any, index: number) {
     return {
-      id: `gemini-${Date.now()}`,
-      provider: 'gemini',
-      model,
-      message: {
-        role: 'assistant',
-        content,
-        tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+      id: `gemini_${Date.now()}_${index}`,
+      type: 'function' as const,
+      function: {
+        name: functionCall.name,
+        arguments: JSON.stringify(functionCall.args || {}),
       },
-      usage: data.usageMetadata ? {
-        prompt_tokens: data.usageMetadata.promptTokenCount || 0,
-        completion_tokens: data.usageMetadata.candidatesTokenCount || 0,
-        total_tokens: data.usageMetadata.totalTokenCount || 0,
-      } : undefined,
-      finish_reason: finishReason,
     };
   }
 
+  private convertUsage(usageMetadata: any): CompletionResponse['usage'] {
+    return usageMetadata ? {
+      prompt_tokens: usageMetadata.promptTokenCount || 0,
+      completion_tokens: usageMetadata.candidatesTokenCount || 0,
+      total_tokens: usageMetadata.totalTokenCount || 0,
+    } : undefined;
+  }
+
+  private convertFinishReason(reason: string | undefined, hasToolCalls: boolean): CompletionResponse['finish_reason'] {
+    if (hasToolCalls) return 'tool_calls';
+    if (reason === 'MAX_TOKENS') return 'length';
+    if (reason === 'SAFETY' || reason === 'RECITATION') return 'error';
+    return 'stop';
+  }
+
   private convertMessages(messages: Message[]): any[] {
     const contents: any[] = [];
     
@@ -135,7 +207,7 @@ export class GeminiProvider implements ProviderClient {
           parts: [{
             functionResponse: {
               name: m.name || 'tool',
-              response: { result: m.content },
+              response: { result: contentText(m.content) },
             },
           }],
         });
@@ -143,7 +215,7 @@ export class GeminiProvider implements ProviderClient {
         // Assistant message with function calls
         const parts: any[] = [];
         if (m.content) {
-          parts.push({ text: m.content });
+          parts.push({ text: contentText(m.content) });
         }
         for (const tc of m.tool_calls) {
           parts.push({
@@ -158,7 +230,7 @@ export class GeminiProvider implements ProviderClient {
         // Regular message
         contents.push({
           role: m.role === 'assistant' ? 'model' : 'user',
-          parts: [{ text: m.content }],
+          parts: this.convertContent(m.content),
         });
       }
     }
@@ -166,6 +238,16 @@ export class GeminiProvider implements ProviderClient {
     return contents;
   }
 
+  private convertContent(content: Message['content']): any[] {
+    if (typeof content === 'string') return [{ text: content }];
+    return content.map(p => {
+      if (p.type === 'text') return { text: p.text };
+      return p.data
+        ? { inlineData: { mimeType: p.mimeType, data: p.data } }
+        : { fileData: { mimeType: p.mimeType, fileUri: p.url } };
+    });
+  }
+
   /**
    * Clean schema for Gemini compatibility
    * Gemini doesn't support some JSON Schema features
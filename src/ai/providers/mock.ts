@@ -0,0 +1,95 @@
+/**
+ * Scripted Mock Provider
+ * Returns a fixed sequence of responses, for unit tests of agent loops, planners and tools
+ * without network access. Each call consumes the next step of the script.
+ */
+
+import type { CompletionRequest, CompletionResponse, ProviderClient, ProviderName, RequestOptions, ToolCall } from '../types.js';
+import { ProviderError } from '../errors.js';
+
+/**
+ * One scripted reply: plain text, a partial response, an error to throw,
+ * or a function that builds one of those from the request
+ */
+export type MockStep =
+  | string
+  | Partial<CompletionResponse>
+  | Error
+  | ((request: CompletionRequest, call: number) => string | Partial<CompletionResponse> | Error);
+
+let mockCallCounter = 0;
+
+export class MockProvider implements ProviderClient {
+  name: ProviderName = 'mock';
+  /** Requests received, in order */
+  readonly requests: CompletionRequest[] = [];
+  private script: MockStep[];
+
+  constructor(script: MockStep[] = []) {
+    this.script = [...script];
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  /**
+   * Append steps to the script
+   */
+  enqueue(...steps: MockStep[]): this {
+    this.script.push(...steps);
+    return this;
+  }
+
+  async complete(request: CompletionRequest, options?: RequestOptions): Promise<CompletionResponse> {
+    options?.signal?.throwIfAborted();
+    const call = this.requests.length;
+    this.requests.push(request);
+
+    let step = this.script.shift();
+    if (step === undefined) {
+      throw new ProviderError(this.name, `Mock script exhausted after ${call} calls`);
+    }
+    if (typeof step === 'function') {
+      step = step(request, call);
+    }
+    if (step instanceof Error) {
+      throw step;
+    }
+
+    const partial = typeof step === 'string' ? { message: { role: 'assistant' as const, content: step } } : step;
+    const message = partial.message || { role: 'assistant' as const, content: '' };
+    return {
+      id: `mock_${call + 1}`,
+      provider: this.name,
+      model: request.model || 'mock',
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+      finish_reason: message.tool_calls?.length ? 'tool_calls' : 'stop',
+      ...partial,
+      message,
+    };
+  }
+
+  /**
+   * Steps not yet consumed
+   */
+  remaining(): number {
+    return this.script.length;
+  }
+}
+
+/**
+ * Scripted reply that calls one or more tools
+ */
+export function mockToolCall(
+  calls: Array<{ name: string; arguments?: Record<string, unknown> }> | { name: string; arguments?: Record<string, unknown> },
+  content: string = ''
+): Partial<CompletionResponse> {
+  const list = Array.isArray(calls) ? calls : [calls];
+  const toolCalls: ToolCall[] = list.map(c => ({
+    id: `mock_call_${++mockCallCounter}`,
+    type: 'function',
+    function: { name: c.name, arguments: JSON.stringify(c.arguments ?? {}) },
+  }));
+  return { message: { role: 'assistant', content, tool_calls: toolCalls }, finish_reason: 'tool_calls' };
+}
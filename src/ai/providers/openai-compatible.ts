@@ -0,0 +1,99 @@
+/**
+ * OpenAI-compatible Provider
+ * Self-hosted endpoints speaking the chat completions API (Ollama, llama.cpp server, vLLM, LM Studio)
+ */
+
+import type { CompletionRequest, CompletionResponse, OpenAICompatibleConfig, ProviderName, RequestOptions, StreamEvent, ToolCallingMode } from '../types.js';
+import { OpenAIProvider } from './openai.js';
+import { toPromptMessages, parseToolCallsFromText } from './tool-prompt.js';
+
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  name: ProviderName = 'openai-compatible';
+  protected label = 'OpenAI-compatible';
+  private models: string[];
+  private toolCalling: ToolCallingMode;
+
+  constructor(config: OpenAICompatibleConfig) {
+    super({ ...config, apiKey: config.apiKey || 'none', defaultModel: config.defaultModel || config.models?.[0] });
+    // Local servers usually accept any key; the base URL is what matters
+    this.baseUrl = (config.baseUrl || '').replace(/\/$/, '');
+    this.models = config.models || [];
+    this.toolCalling = config.toolCalling || 'native';
+  }
+
+  isAvailable(): boolean {
+    return !!this.config.baseUrl && this.config.enabled !== false;
+  }
+
+  getModels(): string[] {
+    return this.models;
+  }
+
+  getToolCallingMode(): ToolCallingMode {
+    return this.toolCalling;
+  }
+
+  async complete(request: CompletionRequest, options?: RequestOptions): Promise<CompletionResponse> {
+    const response = await super.complete(this.adaptRequest(request), options);
+    return this.adaptResponse(request, response);
+  }
+
+  async *completeStream(request: CompletionRequest, options?: RequestOptions): AsyncGenerator<StreamEvent> {
+    const promptTools = this.toolCalling === 'prompt' && !!request.tools?.length;
+
+    for await (const event of super.completeStream(this.adaptRequest(request), options)) {
+      if (event.type !== 'done') {
+        yield event;
+        continue;
+      }
+
+      const response = this.adaptResponse(request, event.response);
+      // Calls written as text can only be extracted once the reply is complete
+      if (promptTools) {
+        for (const [index, tc] of (response.message.tool_calls || []).entries()) {
+          yield { type: 'tool_call', index, id: tc.id, name: tc.function.name, argumentsDelta: tc.function.arguments };
+        }
+      }
+      yield { type: 'done', response };
+    }
+  }
+
+  protected buildBody(request: CompletionRequest): any {
+    const body = super.buildBody(request);
+    // Some servers reject OpenAI-only fields
+    if (!body.tools) delete body.tool_choice;
+    return body;
+  }
+
+  /**
+   * Pin the model to one the server serves and apply the tool-calling mode
+   */
+  private adaptRequest(request: CompletionRequest): CompletionRequest {
+    const model = request.model && (this.models.length === 0 || this.models.includes(request.model))
+      ? request.model
+      : this.config.defaultModel;
+    const adapted: CompletionRequest = { ...request, model };
+
+    if (request.tools?.length && this.toolCalling !== 'native') {
+      delete adapted.tools;
+      if (this.toolCalling === 'prompt') {
+        adapted.messages = toPromptMessages(request.messages, request.tools);
+      }
+    }
+
+    return adapted;
+  }
+
+  private adaptResponse(request: CompletionRequest, response: CompletionResponse): CompletionResponse {
+    if (this.toolCalling !== 'prompt' || !request.tools?.length) return response;
+
+    const parsed = parseToolCallsFromText(response.message.content, request.tools, 'local');
+    if (!parsed) return response;
+
+    return {
+      ...response,
+      message: { ...response.message, content: parsed.content, tool_calls: parsed.toolCalls },
+      finish_reason: 'tool_calls',
+    };
+  }
+}
@@ -2,12 +2,17 @@
  * OpenAI Provider
  */
 
-import type { ProviderClient, CompletionRequest, CompletionResponse, ProviderConfig, Message, ToolDefinition } from '../types.js';
+import type { ProviderName, ProviderClient, CompletionRequest, CompletionResponse, ProviderConfig, RequestOptions, StreamEvent, Message, ToolDefinition } from '../types.js';
+import { readSSE } from './sse.js';
+import { ProviderError } from '../errors.js';
+import { contentText, partUrl } from '../content.js';
 
 export class OpenAIProvider implements ProviderClient {
-  name = 'openai' as const;
-  private config: ProviderConfig;
-  private baseUrl: string;
+  name: ProviderName = 'openai';
+  protected config: ProviderConfig;
+  protected baseUrl: string;
+  /** Label used in error messages */
+  protected label = 'OpenAI';
 
   constructor(config: ProviderConfig) {
     this.config = config;
@@ -18,7 +23,90 @@ export class OpenAIProvider implements ProviderClient {
     return !!this.config.apiKey && this.config.enabled !== false;
   }
 
-  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+  async complete(request: CompletionRequest, options?: RequestOptions): Promise<CompletionResponse> {
+    const response = await this.post(this.buildBody(request), options);
+    const data = await response.json();
+    const choice = data.choices[0];
+    const msg = choice.message;
+
+    return {
+      id: data.id,
+      provider: this.name,
+      model: data.model,
+      message: {
+        role: 'assistant',
+        content: msg.content || '',
+        tool_calls: msg.tool_calls?.map((tc: any) => ({
+          id: tc.id,
+          type: 'function',
+          function: {
+            name: tc.function.name,
+            arguments: tc.function.arguments,
+          },
+        })),
+      },
+      usage: this.convertUsage(data.usage),
+      finish_reason: this.convertFinishReason(choice.finish_reason),
+    };
+  }
+
+  async *completeStream(request: CompletionRequest, options?: RequestOptions): AsyncGenerator<StreamEvent> {
+    const body = { ...this.buildBody(request), stream: true, stream_options: { include_usage: true } };
+    const response = await this.post(body, options);
+
+    let id = '';
+    let model = body.model;
+    let content = '';
+    let finishReason: string | undefined;
+    let usage: CompletionResponse['usage'];
+    const toolCalls: Array<{ id: string; name: string; arguments: string }> = [];
+
+    for await (const { data } of readSSE(response)) {
+      if (data === '[DONE]') break;
+      const chunk = JSON.parse(data);
+      id = chunk.id || id;
+      model = chunk.model || model;
+      if (chunk.usage) usage = this.convertUsage(chunk.usage);
+
+      const choice = chunk.choices?.[0];
+      if (!choice) continue;
+      if (choice.finish_reason) finishReason = choice.finish_reason;
+
+      const delta = choice.delta || {};
+      if (delta.content) {
+        content += delta.content;
+        yield { type: 'text', delta: delta.content };
+      }
+      for (const tc of delta.tool_calls || []) {
+        const call = toolCalls[tc.index] ??= { id: '', name: '', arguments: '' };
+        if (tc.id) call.id = tc.id;
+        if (tc.function?.name) call.name += tc.function.name;
+        const argumentsDelta = tc.function?.arguments || '';
+        call.arguments += argumentsDelta;
+        yield { type: 'tool_call', index: tc.index, id: tc.id, name: tc.function?.name, argumentsDelta };
+      }
+    }
+
+    yield {
+      type: 'done',
+      response: {
+        id,
+        provider: this.name,
+        model,
+        message: {
+          role: 'assistant',
+          content,
+          tool_calls: toolCalls.length > 0
+            ? toolCalls.map(tc => ({ id: tc.id, type: 'function' as const, function: { name: tc.name, arguments: tc.arguments } }))
+            : undefined,
+        },
+        usage,
+        finish_reason: this.convertFinishReason(finishReason),
+      },
+    };
+  }
+
+  protected buildBody(request: CompletionRequest): any {
     const model = request.model || this.config.defaultModel || 'gpt-4-turbo-preview';
     
     const body: any = {
@@ -40,6 +128,17 @@ export class OpenAIProvider implements ProviderClient {
       body.tool_choice = 'auto';
     }
 
+    if (request.response_format) {
+      body.response_format = {
+        type: 'json_schema',
+        json_schema: { name: request.response_format.name, schema: request.response_format.schema },
+      };
+    }
+
+    return body;
+  }
+
+  protected async post(body: any, options?: RequestOptions): Promise<Response> {
     const response = await fetch(`${this.baseUrl}/chat/completions`, {
       method: 'POST',
       headers: {
@@ -47,50 +146,47 @@ export class OpenAIProvider implements ProviderClient {
         'Authorization': `Bearer ${this.config.apiKey}`,
       },
       body: JSON.stringify(body),
+      signal: options?.signal,
     });
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`OpenAI API error: ${response.status} - ${error}`);
+      throw new ProviderError(this.name, `${this.label} API error: ${response.status} - ${error}`, response.status);
     }
 
-    const data = await response.json();
-    const choice = data.choices[0];
-    const msg = choice.message;
+    return response;
+  }
 
-    return {
-      id: data.id,
-      provider: 'openai',
-      model: data.model,
-      message: {
-        role: 'assistant',
-        content: msg.content || '',
-        tool_calls: msg.tool_calls?.map((tc: any) => ({
-          id: tc.id,
-          type: 'function',
-          function: {
-            name: tc.function.name,
-            arguments: tc.function.arguments,
-          },
-        })),
-      },
-      usage: data.usage ? {
-        prompt_tokens: data.usage.prompt_tokens,
-        completion_tokens: data.usage.completion_tokens,
-        total_tokens: data.usage.total_tokens,
-      } : undefined,
-      finish_reason: choice.finish_reason === 'tool_calls' ? 'tool_calls' : 
-                     choice.finish_reason === 'length' ? 'length' : 'stop',
-    };
+  protected convertUsage(usage: any): CompletionResponse['usage'] {
+    return usage ? {
+      prompt_tokens: usage.prompt_tokens,
+      completion_tokens: usage.completion_tokens,
+      total_tokens: usage.total_tokens,
+    } : undefined;
+  }
+
+  protected convertFinishReason(reason?: string): CompletionResponse['finish_reason'] {
+    return reason === 'tool_calls' ? 'tool_calls' : 
+           reason === 'length' ? 'length' : 'stop';
   }
 
-  private convertMessages(messages: Message[]): any[] {
+  protected convertMessages(messages: Message[]): any[] {
     return messages.map(m => {
-      const msg: any = { role: m.role, content: m.content };
+      // Only user messages may carry images or files; tool and system content must be text
+      const msg: any = { role: m.role, content: m.role === 'user' ? this.convertContent(m.content) : contentText(m.content) };
       if (m.name) msg.name = m.name;
       if (m.tool_call_id) msg.tool_call_id = m.tool_call_id;
       if (m.tool_calls) msg.tool_calls = m.tool_calls;
       return msg;
     });
   }
+
+  protected convertContent(content: Message['content']): any {
+    if (typeof content === 'string') return content;
+    return content.map(p => {
+      if (p.type === 'text') return { type: 'text', text: p.text };
+      if (p.type === 'image') return { type: 'image_url', image_url: { url: partUrl(p) } };
+      return { type: 'file', file: { filename: p.name || 'file', file_data: partUrl(p) } };
+    });
+  }
 }
@@ -3,7 +3,10 @@
  * Optimized for search and real-time information
  */
 
-import type { ProviderClient, CompletionRequest, CompletionResponse, ProviderConfig, Message } from '../types.js';
+import type { ProviderClient, CompletionRequest, CompletionResponse, ProviderConfig, RequestOptions, StreamEvent, Message } from '../types.js';
+import { readSSE } from './sse.js';
+import { ProviderError } from '../errors.js';
+import { contentText } from '../content.js';
 
 export class PerplexityProvider implements ProviderClient {
   name = 'perplexity' as const;
@@ -19,7 +22,46 @@ export class PerplexityProvider implements ProviderClient {
     return !!this.config.apiKey && this.config.enabled !== false;
   }
 
-  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+  async complete(request: CompletionRequest, options?: RequestOptions): Promise<CompletionResponse> {
+    const response = await this.post(this.buildBody(request), options);
+    const data = await response.json();
+    const choice = data.choices[0];
+
+    return this.buildResponse(request, data.id, data.model, choice.message.content || '', data.usage);
+  }
+
+  async *completeStream(request: CompletionRequest, options?: RequestOptions): AsyncGenerator<StreamEvent> {
+    const body = { ...this.buildBody(request), stream: true };
+    const response = await this.post(body, options);
+
+    let id = '';
+    let model = body.model;
+    let content = '';
+    let usage: any;
+
+    for await (const { data } of readSSE(response)) {
+      if (data === '[DONE]') break;
+      const chunk = JSON.parse(data);
+      id = chunk.id || id;
+      model = chunk.model || model;
+      if (chunk.usage) usage = chunk.usage;
+
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        yield { type: 'text', delta };
+      }
+    }
+
+    // Tool calls are embedded in the text, so they can only be extracted once it is complete
+    const final = this.buildResponse(request, id, model, content, usage);
+    for (const [index, tc] of (final.message.tool_calls || []).entries()) {
+      yield { type: 'tool_call', index, id: tc.id, name: tc.function.name, argumentsDelta: tc.function.arguments };
+    }
+    yield { type: 'done', response: final };
+  }
+
+  private buildBody(request: CompletionRequest): any {
     // Perplexity models: sonar, sonar-pro, sonar-reasoning
     const model = request.model || this.config.defaultModel || 'sonar-pro';
     
@@ -32,6 +74,10 @@ export class PerplexityProvider implements ProviderClient {
       max_tokens: request.max_tokens ?? 4096,
     };
 
+    if (request.response_format) {
+      body.response_format = { type: 'json_schema', json_schema: { schema: request.response_format.schema } };
+    }
+
     // If tools are requested, we need to instruct the model to output structured JSON
     if (request.tools && request.tools.length > 0) {
       // Add instruction for structured output
@@ -49,6 +95,10 @@ export class PerplexityProvider implements ProviderClient {
       }
     }
 
+    return body;
+  }
+
+  private async post(body: any, options?: RequestOptions): Promise<Response> {
     const response = await fetch(`${this.baseUrl}/chat/completions`, {
       method: 'POST',
       headers: {
@@ -56,17 +106,18 @@ export class PerplexityProvider implements ProviderClient {
         'Authorization': `Bearer ${this.config.apiKey}`,
       },
       body: JSON.stringify(body),
+      signal: options?.signal,
     });
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`Perplexity API error: ${response.status} - ${error}`);
+      throw new ProviderError('perplexity', `Perplexity API error: ${response.status} - ${error}`, response.status);
     }
 
-    const data = await response.json();
-    const choice = data.choices[0];
-    let content = choice.message.content || '';
-    
+    return response;
+  }
+
+  private buildResponse(request: CompletionRequest, id: string, model: string, content: string, usage: any): CompletionResponse {
     // Try to parse tool calls from response if tools were requested
     let toolCalls: any[] | undefined;
     if (request.tools && request.tools.length > 0) {
@@ -78,18 +129,18 @@ export class PerplexityProvider implements ProviderClient {
     }
 
     return {
-      id: data.id,
+      id,
       provider: 'perplexity',
-      model: data.model,
+      model,
       message: {
         role: 'assistant',
         content,
         tool_calls: toolCalls,
       },
-      usage: data.usage ? {
-        prompt_tokens: data.usage.prompt_tokens,
-        completion_tokens: data.usage.completion_tokens,
-        total_tokens: data.usage.total_tokens,
+      usage: usage ? {
+        prompt_tokens: usage.prompt_tokens,
+        completion_tokens: usage.completion_tokens,
+        total_tokens: usage.total_tokens,
       } : undefined,
       finish_reason: toolCalls ? 'tool_calls' : 'stop',
     };
@@ -98,7 +149,7 @@ export class PerplexityProvider implements ProviderClient {
   private convertMessages(messages: Message[]): any[] {
     return messages.filter(m => m.role !== 'tool').map(m => ({
       role: m.role === 'tool' ? 'user' : m.role,
-      content: m.content,
+      content: contentText(m.content),
     }));
   }
 
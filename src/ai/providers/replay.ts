@@ -0,0 +1,207 @@
+/**
+ * Record/Replay Provider
+ * Records every request/response pair of a real run to a fixture file, and replays
+ * them later without network access. Requests are matched by a hash of their content.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { CompletionRequest, CompletionResponse, ProviderClient, ProviderName, RequestOptions, StreamEvent } from '../types.js';
+import { ProviderError } from '../errors.js';
+
+export interface FixtureEntry {
+  hash: string;
+  /** Provider that produced the response while recording */
+  provider: ProviderName;
+  request: CompletionRequest;
+  response: CompletionResponse;
+}
+
+export interface FixtureFile {
+  version: 1;
+  recordedAt: string;
+  entries: FixtureEntry[];
+}
+
+// Timings reported in tool results differ on every run
+const VOLATILE_FIELDS = /"(timingMs|durationMs)":\d+/g;
+
+/**
+ * Stable hash of what a request asks for. Model, sampling settings, tool call ids and
+ * timings in tool results are left out: the model depends on routing, ids are generated
+ * per call and timings vary between runs.
+ */
+export function requestHash(request: CompletionRequest): string {
+  const normalized = {
+    messages: request.messages.map(m => ({
+      role: m.role,
+      content: m.role === 'tool' && typeof m.content === 'string' ? m.content.replace(VOLATILE_FIELDS, '"$1":0') : m.content,
+      name: m.name,
+      tool_calls: m.tool_calls?.map(tc => ({ name: tc.function.name, arguments: tc.function.arguments })),
+    })),
+    tools: request.tools?.map(t => t.name).sort(),
+    format: request.response_format?.name,
+  };
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex').slice(0, 16);
+}
+
+export function loadFixture(path: string): FixtureFile {
+  if (!existsSync(path)) {
+    throw new Error(`Replay fixture not found: ${path}`);
+  }
+  const fixture = JSON.parse(readFileSync(path, 'utf8')) as FixtureFile;
+  if (fixture.version !== 1 || !Array.isArray(fixture.entries)) {
+    throw new Error(`Unsupported replay fixture: ${path}`);
+  }
+  return fixture;
+}
+
+/**
+ * Collects recorded pairs and rewrites the fixture file after each one,
+ * so a crashed run still leaves a usable fixture
+ */
+export class FixtureRecorder {
+  private fixture: FixtureFile;
+
+  constructor(private path: string) {
+    this.fixture = { version: 1, recordedAt: new Date().toISOString(), entries: [] };
+  }
+
+  record(provider: ProviderName, request: CompletionRequest, response: CompletionResponse): void {
+    const { stream: _stream, ...stored } = request;
+    this.fixture.entries.push({ hash: requestHash(request), provider, request: stored, response });
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, JSON.stringify(this.fixture, null, 2));
+  }
+
+  get size(): number {
+    return this.fixture.entries.length;
+  }
+}
+
+/**
+ * Wraps a real provider and records each completed call. Keeps the wrapped
+ * provider's name so routing, pricing and health are unaffected.
+ */
+export class RecordingProvider implements ProviderClient {
+  name: ProviderName;
+
+  constructor(private inner: ProviderClient, private recorder: FixtureRecorder) {
+    this.name = inner.name;
+    if (inner.completeStream) {
+      this.completeStream = this.recordStream;
+    }
+  }
+
+  isAvailable(): boolean {
+    return this.inner.isAvailable();
+  }
+
+  async complete(request: CompletionRequest, options?: RequestOptions): Promise<CompletionResponse> {
+    const response = await this.inner.complete(request, options);
+    this.recorder.record(this.name, request, response);
+    return response;
+  }
+
+  completeStream?: (request: CompletionRequest, options?: RequestOptions) => AsyncIterable<StreamEvent>;
+
+  private async *recordStream(request: CompletionRequest, options?: RequestOptions): AsyncGenerator<StreamEvent> {
+    for await (const event of this.inner.completeStream!(request, options)) {
+      if (event.type === 'done') {
+        this.recorder.record(this.name, request, event.response);
+      }
+      yield event;
+    }
+  }
+}
+
+export interface ReplayMiss {
+  /** Hash of the request that had no recording */
+  hash: string;
+  /** Hash of the recording served in its place */
+  served: string;
+}
+
+/**
+ * Serves recorded responses. A request gets the first unused recording with the same
+ * hash; without one it fails (strict, the default), so a changed prompt cannot pass
+ * against a stale fixture. Non-strict replay serves the next unused recording instead,
+ * which tolerates prompts that embed volatile data such as tool output timestamps, and
+ * reports every such miss.
+ */
+export class ReplayProvider implements ProviderClient {
+  name: ProviderName = 'replay';
+  private entries: FixtureEntry[];
+  private used: Set<number> = new Set();
+  private strict: boolean;
+  private misses: ReplayMiss[] = [];
+
+  constructor(fixture: FixtureFile | string, options?: { strict?: boolean }) {
+    this.entries = (typeof fixture === 'string' ? loadFixture(fixture) : fixture).entries;
+    this.strict = options?.strict ?? true;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async complete(request: CompletionRequest, options?: RequestOptions): Promise<CompletionResponse> {
+    options?.signal?.throwIfAborted();
+    const hash = requestHash(request);
+
+    let index = this.entries.findIndex((e, i) => !this.used.has(i) && e.hash === hash);
+    if (index < 0 && !this.strict) {
+      index = this.entries.findIndex((_, i) => !this.used.has(i));
+      if (index >= 0) {
+        const miss = { hash, served: this.entries[index].hash };
+        this.misses.push(miss);
+        console.warn(`[Replay] No recording matches request ${miss.hash}; serving recording ${miss.served}`);
+      }
+    }
+    if (index < 0) {
+      const reason = this.used.size >= this.entries.length ? 'fixture exhausted' : 'no recording matches';
+      throw new ProviderError(this.name, `Replay miss (${reason}) for request ${hash}`);
+    }
+
+    this.used.add(index);
+    return structuredClone(this.entries[index].response);
+  }
+
+  /**
+   * Misses since the last call, for the caller to audit
+   */
+  takeMisses(): ReplayMiss[] {
+    return this.misses.splice(0);
+  }
+
+  /**
+   * Recordings not yet served; non-empty after a run means the run took a different path
+   */
+  remaining(): number {
+    return this.entries.length - this.used.size;
+  }
+}
+
+// Shared per fixture path: the enhancer, planner and agent loop each build their own
+// router, and all of them must write to (or consume from) the same fixture
+const recorders: Map<string, FixtureRecorder> = new Map();
+const replayers: Map<string, ReplayProvider> = new Map();
+
+export function getFixtureRecorder(path: string): FixtureRecorder {
+  let recorder = recorders.get(path);
+  if (!recorder) {
+    recorder = new FixtureRecorder(path);
+    recorders.set(path, recorder);
+  }
+  return recorder;
+}
+
+export function getReplayProvider(path: string, options?: { strict?: boolean }): ReplayProvider {
+  let replayer = replayers.get(path);
+  if (!replayer) {
+    replayer = new ReplayProvider(path, options);
+    replayers.set(path, replayer);
+  }
+  return replayer;
+}
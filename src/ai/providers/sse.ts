@@ -0,0 +1,58 @@
+/**
+ * Server-Sent Events reader shared by the streaming providers
+ */
+
+export interface SSEMessage {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Parse an SSE response body into messages. Multi-line data fields are joined with newlines.
+ */
+export async function* readSSE(response: Response): AsyncGenerator<SSEMessage> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: string | undefined;
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+
+        if (line === '') {
+          // Blank line dispatches the message
+          if (data.length > 0) {
+            yield { event, data: data.join('\n') };
+          }
+          event = undefined;
+          data = [];
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+        // Comments (':') and other fields are ignored
+      }
+    }
+
+    if (data.length > 0) {
+      yield { event, data: data.join('\n') };
+    }
+  } finally {
+    // Also closes the connection when the consumer stops reading early
+    await reader.cancel().catch(() => {});
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Prompt-based Tool Calling
+ * Text protocol for models or servers without native function calling:
+ * tools are described in the system prompt and calls are parsed back out of the reply.
+ */
+
+import type { Message, ToolCall, ToolDefinition } from '../types.js';
+import { contentText } from '../content.js';
+
+/**
+ * System prompt section describing the tools and the reply format
+ */
+export function buildToolPrompt(tools: ToolDefinition[]): string {
+  const toolList = tools.map(t =>
+    `- ${t.name}: ${t.description}\n  Parameters (JSON Schema): ${JSON.stringify(t.parameters)}`
+  ).join('\n');
+
+  return `## Tools
+
+You can call these tools:
+${toolList}
+
+To call tools, reply with a single fenced block and nothing after it:
+\`\`\`tool_calls
+[{"name": "tool_name", "arguments": {"param": "value"}}]
+\`\`\`
+You may write a short explanation before the block. Tool results will be sent back to you in the next message.
+If no tool is needed, reply normally without the block.`;
+}
+
+/**
+ * Rewrite a conversation so it carries no native tool fields: the tool prompt is appended
+ * to the system message, earlier tool calls become tool_calls blocks and tool results
+ * become user messages.
+ */
+export function toPromptMessages(messages: Message[], tools: ToolDefinition[]): Message[] {
+  const toolPrompt = buildToolPrompt(tools);
+  const converted: Message[] = [];
+  const names = new Map<string, string>();
+
+  for (const m of messages) {
+    if (m.role === 'assistant' && m.tool_calls?.length) {
+      m.tool_calls.forEach(tc => names.set(tc.id, tc.function.name));
+      const calls = m.tool_calls.map(tc => ({ name: tc.function.name, arguments: safeParse(tc.function.arguments) }));
+      const block = '```tool_calls\n' + JSON.stringify(calls) + '\n```';
+      converted.push({ role: 'assistant', content: m.content ? `${contentText(m.content)}\n\n${block}` : block });
+    } else if (m.role === 'tool') {
+      const name = (m.tool_call_id && names.get(m.tool_call_id)) || m.name || 'tool';
+      converted.push({ role: 'user', content: `Result of ${name}:\n${contentText(m.content)}` });
+    } else {
+      converted.push({ role: m.role, content: m.content });
+    }
+  }
+
+  const systemIdx = converted.findIndex(m => m.role === 'system');
+  if (systemIdx >= 0) {
+    converted[systemIdx] = { ...converted[systemIdx], content: `${contentText(converted[systemIdx].content)}\n\n${toolPrompt}` };
+  } else {
+    converted.unshift({ role: 'system', content: toolPrompt });
+  }
+
+  return converted;
+}
+
+/**
+ * Extract tool calls from a reply. Accepts the fenced tool_calls block, or a bare JSON
+ * object/array with name/arguments (or tool/args) as some models drop the fence.
+ * Calls to unknown tools are ignored.
+ */
+export function parseToolCallsFromText(
+  content: string,
+  tools: ToolDefinition[],
+  idPrefix: string = 'call'
+): { toolCalls: ToolCall[]; content: string } | null {
+  const fenced = content.match(/```tool_calls\s*([\s\S]*?)```/);
+  const bare = fenced ? null : content.match(/(\[\s*\{[\s\S]*\}\s*\]|\{[\s\S]*"(?:name|tool)"[\s\S]*\})\s*$/);
+  const match = fenced || bare;
+  if (!match) return null;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(match[1]);
+  } catch {
+    return null;
+  }
+
+  const known = new Set(tools.map(t => t.name));
+  const calls = (Array.isArray(parsed) ? parsed : [parsed])
+    .map((c: any) => ({ name: c?.name ?? c?.tool, args: c?.arguments ?? c?.args ?? {} }))
+    .filter(c => typeof c.name === 'string' && known.has(c.name));
+  if (calls.length === 0) return null;
+
+  const stamp = Date.now();
+  return {
+    toolCalls: calls.map((c, i) => ({
+      id: `${idPrefix}_${stamp}_${i}`,
+      type: 'function' as const,
+      function: {
+        name: c.name,
+        arguments: typeof c.args === 'string' ? c.args : JSON.stringify(c.args),
+      },
+    })),
+    content: content.replace(match[0], '').trim(),
+  };
+}
+
+function safeParse(s: string): any {
+  try { return JSON.parse(s); } catch { return s; }
+}
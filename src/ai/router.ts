@@ -8,51 +8,73 @@ import type {
   ProviderClient, 
   CompletionRequest, 
   CompletionResponse, 
+  Message,
+  RequestOptions,
+  StreamEvent,
   AIConfig, 
   TaskType,
-  RoutingRule 
+  RoutingRule,
+  ToolCallingMode
 } from './types.js';
 import { OpenAIProvider } from './providers/openai.js';
 import { AnthropicProvider } from './providers/anthropic.js';
 import { PerplexityProvider } from './providers/perplexity.js';
 import { GeminiProvider } from './providers/gemini.js';
+import { OpenAICompatibleProvider } from './providers/openai-compatible.js';
+import { RecordingProvider, getFixtureRecorder, getReplayProvider, ReplayProvider } from './providers/replay.js';
 import { CLIProvider, detectCLITools, createCLIProvider, type CLITool } from './providers/cli.js';
+import { calculateCost, emptyUsage, addUsage, mergeUsage, type RunUsage } from './pricing.js';
+import { getProviderHealth } from './health.js';
+import { loadRoutingConfig } from './routing-config.js';
+import { isRetryableError, StructuredOutputError } from './errors.js';
+import { contentText, countMedia, hasImages } from './content.js';
+import { ResponseCache, cacheConfigFromEnv } from './cache.js';
 import { auditEvent } from '../audit/logger.js';
+import { withRetry } from '../core/retry.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+// Structured-output schemas come from 'zod/v3', the entry point zod-to-json-schema is typed against
+import type { ZodTypeAny, output } from 'zod/v3';
 import type { RunContext } from '../core/types.js';
 
 // Default routing rules - Uses configured default provider
 const DEFAULT_ROUTING_RULES: RoutingRule[] = [
   {
+    name: 'search',
     match: { taskType: 'search', keywords: ['search', 'find', 'lookup', 'current', 'latest', 'news', 'today'] },
     provider: 'perplexity',
     model: process.env.PERPLEXITY_MODEL || 'sonar-pro',
     reason: 'Real-time search and current information',
   },
   {
+    name: 'coding',
     match: { taskType: 'coding', keywords: ['code', 'function', 'bug', 'debug', 'implement', 'refactor', 'typescript', 'python'] },
     provider: (process.env.DEFAULT_AI_PROVIDER as any) || 'anthropic',
     model: process.env.ANTHROPIC_MODEL || process.env.OPENAI_MODEL || 'claude-sonnet-4-20250514',
     reason: 'Superior coding capabilities',
   },
   {
+    name: 'analysis',
     match: { taskType: 'analysis', keywords: ['analyze', 'explain', 'compare', 'review', 'understand'] },
     provider: (process.env.DEFAULT_AI_PROVIDER as any) || 'anthropic',
     model: process.env.ANTHROPIC_MODEL || process.env.OPENAI_MODEL || 'claude-sonnet-4-20250514',
     reason: 'Deep reasoning and analysis',
   },
   {
+    name: 'planning',
     match: { taskType: 'planning', keywords: ['plan', 'steps', 'how to', 'strategy', 'approach'] },
     provider: (process.env.DEFAULT_AI_PROVIDER as any) || 'anthropic',
     model: process.env.ANTHROPIC_MODEL || process.env.OPENAI_MODEL || 'claude-sonnet-4-20250514',
     reason: 'Strong planning and decomposition',
   },
   {
+    name: 'vision',
     match: { taskType: 'vision' },
     provider: 'openai',
     model: process.env.OPENAI_MODEL || 'gpt-4o',
     reason: 'Vision capabilities',
   },
   {
+    name: 'execution',
     match: { taskType: 'execution', toolRequired: ['filesystem', 'terminal', 'editor', 'computer'] },
     provider: (process.env.DEFAULT_AI_PROVIDER as any) || 'anthropic',
     model: process.env.ANTHROPIC_MODEL || process.env.OPENAI_MODEL || 'claude-sonnet-4-20250514',
@@ -60,21 +82,142 @@ const DEFAULT_ROUTING_RULES: RoutingRule[] = [
   },
 ];
 
+// Task type heuristics, checked in order
+const TASK_HEURISTICS: Array<{ taskType: TaskType; pattern: RegExp }> = [
+  { taskType: 'search', pattern: /search|find|lookup|current|latest|news|today|what is|who is/ },
+  { taskType: 'coding', pattern: /code|function|class|bug|debug|implement|refactor|fix|error|compile|syntax/ },
+  { taskType: 'analysis', pattern: /analyze|explain|compare|review|understand|why|how does/ },
+  { taskType: 'planning', pattern: /plan|steps|how to|strategy|approach|breakdown|decompose/ },
+  // Vision indicators (check for image URLs or base64)
+  { taskType: 'vision', pattern: /image|picture|photo|screenshot|look at this/ },
+];
+
+type RuleSource = 'domain' | 'config' | 'builtin';
+
+export interface RouteOptions {
+  /** Domain whose routing overrides apply */
+  domain?: string;
+  /** Stable key (e.g. run ID) so weighted splits pick the same target every time */
+  stickyKey?: string;
+}
+
+export interface RouteSelection {
+  provider: ProviderName;
+  model?: string;
+  reason: string;
+  /** Name of the matched rule, if any */
+  rule?: string;
+}
+
+export interface StructuredOptions {
+  /** Schema name sent to providers (default 'response') */
+  name?: string;
+  /** Extra attempts with the validation errors fed back to the model (default 2) */
+  repairAttempts?: number;
+}
+
+export interface StructuredResult<T> {
+  data: T;
+  response: CompletionResponse;
+}
+
+export interface RouteExplanation {
+  taskType: TaskType;
+  taskTypeSource: string;
+  domain?: string;
+  rules: Array<{ rule: string; source: RuleSource; priority: number; matched: boolean; detail: string }>;
+  selection: RouteSelection;
+}
+
+function lastUserMessage(request: CompletionRequest): Message | undefined {
+  return [...request.messages].reverse().find(m => m.role === 'user');
+}
+
+function lastUserContent(request: CompletionRequest): string {
+  const lastUserMsg = lastUserMessage(request);
+  return lastUserMsg ? contentText(lastUserMsg.content).toLowerCase() : '';
+}
+
+/**
+ * Parse a JSON reply, tolerating code fences and text around the object
+ */
+function parseJsonReply(content: string): { ok: boolean; value?: unknown; error?: string } {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidates = [content.trim(), fenced?.[1].trim(), content.slice(content.indexOf('{'), content.lastIndexOf('}') + 1)];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return { ok: true, value: JSON.parse(candidate) };
+    } catch {
+      // try the next candidate
+    }
+  }
+  return { ok: false, error: 'Reply is not valid JSON' };
+}
+
+/**
+ * Deterministic value in [0, 1) for a string (FNV-1a)
+ */
+function hashFraction(key: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0) / 0x100000000;
+}
+
+// Retries for rate limits and server errors, per provider in the fallback chain
+const PROVIDER_RETRY = { attempts: 3, baseMs: 1000, factor: 2, jitterPct: 0.2 };
+
+// Providers that only send the text of a message; images and files become placeholders
+const TEXT_ONLY_PROVIDERS = new Set<string>(['perplexity', 'cli-claude', 'cli-gemini', 'cli-codex']);
+
 export class AIRouter {
   private providers: Map<ProviderName, ProviderClient> = new Map();
   private config: AIConfig;
   private defaultProvider: ProviderName = 'anthropic';
+  private usage: Map<string, RunUsage> = new Map();
+  private cache?: ResponseCache;
 
   constructor(config: AIConfig) {
     this.config = config;
     this.initProviders();
+    // Replayed runs must see exactly the recorded responses
+    if (config.cache && config.replay?.mode !== 'replay') {
+      this.cache = new ResponseCache(config.cache);
+    }
     
-    if (config.routing?.default) {
+    if (config.replay?.mode === 'replay') {
+      this.defaultProvider = 'replay';
+    } else if (config.routing?.default) {
       this.defaultProvider = config.routing.default;
+    } else if (config.clients?.length) {
+      this.defaultProvider = config.clients[0].name;
     }
   }
 
   private initProviders() {
+    // Explicit clients (tests) and replay both stand in for every real provider
+    if (this.config.clients) {
+      for (const client of this.config.clients) {
+        this.providers.set(client.name, client);
+      }
+    } else if (this.config.replay?.mode === 'replay') {
+      this.providers.set('replay', getReplayProvider(this.config.replay.fixture, { strict: this.config.replay.strict }));
+    } else {
+      this.initConfiguredProviders();
+    }
+
+    if (this.config.replay?.mode === 'record') {
+      const recorder = getFixtureRecorder(this.config.replay.fixture);
+      for (const [name, provider] of this.providers) {
+        this.providers.set(name, new RecordingProvider(provider, recorder));
+      }
+    }
+  }
+
+  private initConfiguredProviders() {
     if (this.config.openai?.apiKey) {
       this.providers.set('openai', new OpenAIProvider(this.config.openai));
     }
@@ -87,6 +230,9 @@ export class AIRouter {
     if (this.config.gemini?.apiKey) {
       this.providers.set('gemini', new GeminiProvider(this.config.gemini));
     }
+    if (this.config.openaiCompatible?.baseUrl) {
+      this.providers.set('openai-compatible', new OpenAICompatibleProvider(this.config.openaiCompatible));
+    }
     
     // Add CLI tools as fallback providers
     const cliTools = detectCLITools();
@@ -99,111 +245,215 @@ export class AIRouter {
   }
 
   /**
-   * Get available providers
+   * Get available providers (configured, and not taken out by an open circuit)
    */
   getAvailableProviders(): ProviderName[] {
-    return Array.from(this.providers.entries())
-      .filter(([_, client]) => client.isAvailable())
-      .map(([name]) => name);
+    return Array.from(this.providers.keys()).filter(name => this.isUsable(name));
+  }
+
+  private isUsable(name: ProviderName): boolean {
+    return !!this.providers.get(name)?.isAvailable() && getProviderHealth().isAvailable(name);
   }
 
   /**
    * Detect task type from request
    */
   detectTaskType(request: CompletionRequest): TaskType {
-    const lastUserMsg = [...request.messages].reverse().find(m => m.role === 'user');
-    const content = lastUserMsg?.content.toLowerCase() || '';
-    
-    // Search indicators
-    if (content.match(/search|find|lookup|current|latest|news|today|what is|who is/)) {
-      return 'search';
-    }
-    
-    // Coding indicators
-    if (content.match(/code|function|class|bug|debug|implement|refactor|fix|error|compile|syntax/)) {
-      return 'coding';
-    }
-    
-    // Analysis indicators
-    if (content.match(/analyze|explain|compare|review|understand|why|how does/)) {
-      return 'analysis';
+    return this.classifyTask(request).taskType;
+  }
+
+  /**
+   * Detect task type and what triggered it. Configured keywords win over the built-in heuristics.
+   */
+  private classifyTask(request: CompletionRequest): { taskType: TaskType; source: string } {
+    const content = lastUserContent(request);
+
+    // Images need a vision-capable model whatever the text says
+    if (hasImages(lastUserMessage(request))) {
+      return { taskType: 'vision', source: 'last user message has images' };
     }
-    
-    // Planning indicators
-    if (content.match(/plan|steps|how to|strategy|approach|breakdown|decompose/)) {
-      return 'planning';
+
+    for (const [type, keywords] of Object.entries(this.config.routing?.taskTypes || {})) {
+      const keyword = keywords?.find(k => content.includes(k.toLowerCase()));
+      if (keyword) {
+        return { taskType: type as TaskType, source: `configured keyword "${keyword}"` };
+      }
     }
-    
-    // Vision indicators (check for image URLs or base64)
-    if (content.match(/image|picture|photo|screenshot|look at this/)) {
-      return 'vision';
+
+    for (const { taskType, pattern } of TASK_HEURISTICS) {
+      const hit = content.match(pattern);
+      if (hit) {
+        return { taskType, source: `built-in heuristic "${hit[0]}"` };
+      }
     }
     
     // Tool execution
     if (request.tools && request.tools.length > 0) {
-      return 'execution';
+      return { taskType: 'execution', source: 'request has tools' };
     }
     
-    return 'conversation';
+    return { taskType: 'conversation', source: 'no other task type matched' };
   }
 
   /**
    * Select the best provider for a request
    */
-  selectProvider(request: CompletionRequest, forceProvider?: ProviderName): { provider: ProviderName; model?: string; reason: string } {
+  selectProvider(request: CompletionRequest, forceProvider?: ProviderName, options?: RouteOptions): RouteSelection {
+    return this.explain(request, { ...options, forceProvider }).selection;
+  }
+
+  /**
+   * Evaluate every routing rule for a request and report which one was selected and why
+   */
+  explain(request: CompletionRequest, options?: RouteOptions & { forceProvider?: ProviderName }): RouteExplanation {
+    const { taskType, source } = this.classifyTask(request);
+    const domain = options?.domain;
+    const rules: RouteExplanation['rules'] = [];
+    let selection: RouteSelection | undefined;
+
     // If forced, use that provider
-    if (forceProvider && this.providers.get(forceProvider)?.isAvailable()) {
-      return { provider: forceProvider, reason: 'Explicitly requested' };
+    if (options?.forceProvider && this.isUsable(options.forceProvider)) {
+      selection = { provider: options.forceProvider, reason: 'Explicitly requested' };
     }
 
-    const taskType = this.detectTaskType(request);
-    const lastUserMsg = [...request.messages].reverse().find(m => m.role === 'user');
-    const content = lastUserMsg?.content.toLowerCase() || '';
+    for (const { rule, name, source: ruleSource } of this.orderedRules(domain)) {
+      const match = this.matchRule(rule, taskType, request, domain);
+      const entry = { rule: name, source: ruleSource, priority: rule.priority ?? 0, matched: match.matched, detail: match.detail };
+      rules.push(entry);
+      if (!match.matched || selection) continue;
 
-    // Check routing rules
-    const rules = [...(this.config.routing?.rules || []), ...DEFAULT_ROUTING_RULES];
-    
-    for (const rule of rules) {
-      // Check task type match
-      if (rule.match.taskType) {
-        const types = Array.isArray(rule.match.taskType) ? rule.match.taskType : [rule.match.taskType];
-        if (!types.includes(taskType)) continue;
+      const target = this.pickTarget(rule, name, options?.stickyKey);
+      if (!target) {
+        entry.detail += '; provider unavailable';
+        continue;
+      }
+      selection = {
+        ...target,
+        reason: rule.reason || `Matched rule for ${taskType}`,
+        rule: name,
+      };
+    }
+
+    // Fallback to domain default, default or first available
+    if (!selection) {
+      const domainDefault = domain ? this.config.routing?.domains?.[domain]?.default : undefined;
+      const target = domainDefault ? this.resolveAlias({ provider: domainDefault }) : undefined;
+      if (target && this.isUsable(target.provider)) {
+        selection = { ...target, reason: `Default provider for domain ${domain}` };
+      } else if (this.isUsable(this.defaultProvider)) {
+        selection = { provider: this.defaultProvider, reason: 'Default provider' };
+      } else {
+        const available = this.getAvailableProviders();
+        if (available.length === 0) {
+          throw new Error('No AI providers available');
+        }
+        selection = { provider: available[0], reason: 'First available provider' };
+      }
+    }
+
+    return { taskType, taskTypeSource: source, domain, rules, selection };
+  }
+
+  /**
+   * Domain rules first, then configured and built-in rules; each group by descending priority
+   */
+  private orderedRules(domain?: string): Array<{ rule: RoutingRule; name: string; source: RuleSource }> {
+    const routing = this.config.routing;
+    const named = (rules: RoutingRule[], source: RuleSource) =>
+      rules.map((rule, i) => ({ rule, name: rule.name || `${source}#${i + 1}`, source }));
+    const byPriority = (a: { rule: RoutingRule }, b: { rule: RoutingRule }) => (b.rule.priority ?? 0) - (a.rule.priority ?? 0);
+
+    const domainRules = domain ? named(routing?.domains?.[domain]?.rules || [], 'domain') : [];
+    const globalRules = [
+      ...named(routing?.rules || [], 'config'),
+      ...(routing?.builtinRules === false ? [] : named(DEFAULT_ROUTING_RULES, 'builtin')),
+    ];
+    return [...domainRules.sort(byPriority), ...globalRules.sort(byPriority)];
+  }
+
+  private matchRule(rule: RoutingRule, taskType: TaskType, request: CompletionRequest, domain?: string): { matched: boolean; detail: string } {
+    const content = lastUserContent(request);
+    const reasons: string[] = [];
+
+    if (rule.match.domain) {
+      const domains = Array.isArray(rule.match.domain) ? rule.match.domain : [rule.match.domain];
+      if (!domain || !domains.includes(domain)) {
+        return { matched: false, detail: `domain ${domain || '(none)'} not in [${domains.join(', ')}]` };
       }
+      reasons.push(`domain ${domain}`);
+    }
 
-      // Check keyword match
-      if (rule.match.keywords) {
-        const hasKeyword = rule.match.keywords.some(kw => content.includes(kw.toLowerCase()));
-        if (!hasKeyword && rule.match.taskType === undefined) continue;
+    // Check task type match
+    if (rule.match.taskType) {
+      const types = Array.isArray(rule.match.taskType) ? rule.match.taskType : [rule.match.taskType];
+      if (!types.includes(taskType)) {
+        return { matched: false, detail: `task type ${taskType} not in [${types.join(', ')}]` };
       }
+      reasons.push(`task type ${taskType}`);
+    }
 
-      // Check tool requirements
-      if (rule.match.toolRequired && request.tools) {
-        const toolNames = request.tools.map(t => t.name);
-        const hasRequiredTool = rule.match.toolRequired.some(t => toolNames.includes(t));
-        if (!hasRequiredTool) continue;
+    // Check keyword match - keywords are only required when the rule has no task type
+    if (rule.match.keywords) {
+      const keyword = rule.match.keywords.find(kw => content.includes(kw.toLowerCase()));
+      if (keyword) {
+        reasons.push(`keyword "${keyword}"`);
+      } else if (rule.match.taskType === undefined) {
+        return { matched: false, detail: 'no keyword matched' };
       }
+    }
 
-      // Check if provider is available
-      if (this.providers.get(rule.provider)?.isAvailable()) {
-        return {
-          provider: rule.provider,
-          model: rule.model,
-          reason: rule.reason || `Matched rule for ${taskType}`,
-        };
+    if (rule.match.pattern) {
+      const hit = content.match(new RegExp(rule.match.pattern, 'i'));
+      if (!hit) {
+        return { matched: false, detail: `pattern /${rule.match.pattern}/ did not match` };
       }
+      reasons.push(`pattern matched "${hit[0]}"`);
     }
 
-    // Fallback to default or first available
-    if (this.providers.get(this.defaultProvider)?.isAvailable()) {
-      return { provider: this.defaultProvider, reason: 'Default provider' };
+    // Check tool requirements
+    if (rule.match.toolRequired && request.tools) {
+      const toolNames = request.tools.map(t => t.name);
+      const tool = rule.match.toolRequired.find(t => toolNames.includes(t));
+      if (!tool) {
+        return { matched: false, detail: `none of the tools [${rule.match.toolRequired.join(', ')}] in request` };
+      }
+      reasons.push(`tool ${tool}`);
     }
 
-    const available = this.getAvailableProviders();
-    if (available.length > 0) {
-      return { provider: available[0], reason: 'First available provider' };
+    return { matched: true, detail: reasons.length ? reasons.join(', ') : 'matches everything' };
+  }
+
+  /**
+   * Resolve a rule to a usable provider/model. Weighted targets are split by a
+   * roll that is stable per sticky key, so one run keeps the same arm.
+   */
+  private pickTarget(rule: RoutingRule, ruleName: string, stickyKey?: string): { provider: ProviderName; model?: string } | null {
+    const targets = (rule.targets || [{ provider: rule.provider!, model: rule.model }])
+      .map(t => ({ ...this.resolveAlias(t), weight: t.weight ?? 1 }))
+      .filter(t => this.isUsable(t.provider));
+    if (targets.length === 0) return null;
+
+    const total = targets.reduce((sum, t) => sum + t.weight, 0);
+    let roll = (stickyKey ? hashFraction(`${stickyKey}:${ruleName}`) : Math.random()) * total;
+    for (const t of targets) {
+      roll -= t.weight;
+      if (roll < 0) return { provider: t.provider, model: t.model };
     }
+    const last = targets[targets.length - 1];
+    return { provider: last.provider, model: last.model };
+  }
 
-    throw new Error('No AI providers available');
+  /**
+   * Replace provider or model aliases with the provider/model they name
+   */
+  private resolveAlias(target: { provider: string; model?: string }): { provider: ProviderName; model?: string } {
+    const aliases = this.config.routing?.aliases || {};
+    const byProvider = aliases[target.provider];
+    if (byProvider) {
+      return { provider: byProvider.provider as ProviderName, model: target.model ? (aliases[target.model]?.model ?? target.model) : byProvider.model };
+    }
+    const model = target.model ? (aliases[target.model]?.model ?? target.model) : undefined;
+    return { provider: target.provider as ProviderName, model };
   }
 
   /**
@@ -212,70 +462,353 @@ export class AIRouter {
   async complete(
     request: CompletionRequest, 
     ctx?: RunContext,
-    options?: { forceProvider?: ProviderName }
+    options?: { forceProvider?: ProviderName; domain?: string } & RequestOptions
   ): Promise<CompletionResponse> {
-    const selection = this.selectProvider(request, options?.forceProvider);
-    const availableProviders = this.getAvailableProviders();
-    
-    // Build fallback chain: selected provider first, then others
-    const providerChain = [selection.provider, ...availableProviders.filter(p => p !== selection.provider)];
-    
+    const selection = this.selectProvider(request, options?.forceProvider, { domain: options?.domain, stickyKey: ctx?.runId });
     let lastError: Error | null = null;
+
+    const cached = await this.readCache(request, selection, ctx, options?.domain);
+    if (cached.response) return cached.response;
     
-    for (const providerName of providerChain) {
+    for (const providerName of this.getProviderChain(selection.provider)) {
+      // A cancelled run should not fall through to the next provider
+      options?.signal?.throwIfAborted();
+
       const provider = this.providers.get(providerName);
-      if (!provider?.isAvailable()) continue;
+      // Claims the single trial request of a half-open circuit
+      if (!provider?.isAvailable() || !getProviderHealth().acquire(providerName)) continue;
       
-      // Get model for this provider - only use selected model for primary provider
-      // For fallback providers, remove model to use their default
-      let finalRequest: CompletionRequest;
-      if (providerName === selection.provider && selection.model) {
-        finalRequest = { ...request, model: selection.model };
-      } else {
-        // Remove model from request for fallback providers
-        const { model: _removed, ...requestWithoutModel } = request;
-        finalRequest = requestWithoutModel as CompletionRequest;
+      const finalRequest = await this.prepareRequest(request, providerName, selection, ctx);
+      const startTime = Date.now();
+
+      try {
+        const response = await withRetry(
+          () => provider.complete(finalRequest, { signal: options?.signal }),
+          { ...PROVIDER_RETRY, shouldRetry: e => isRetryableError(e) && !options?.signal?.aborted }
+        );
+        await this.recordResponse(ctx, providerName, response, Date.now() - startTime);
+        // Only the selected provider's answer is stored under the key for that selection
+        if (cached.key && providerName === selection.provider) {
+          await this.cache!.set(cached.key, response)
+            .catch(e => console.warn(`[Router] Could not write response cache: ${e.message}`));
+        }
+        return response;
+      } catch (error: any) {
+        if (options?.signal?.aborted) throw error;
+        lastError = error;
+        await this.recordFailure(ctx, providerName, error, Date.now() - startTime);
+        continue;
+      }
+    }
+    
+    // All providers failed
+    throw lastError || new Error('All AI providers failed');
+  }
+
+  /**
+   * Complete a request whose reply must be a JSON object matching a zod schema.
+   * Providers get the schema in their native structured-output mode; replies that
+   * fail to parse or validate are sent back with the errors for a corrected attempt.
+   */
+  async completeStructured<S extends ZodTypeAny>(
+    request: CompletionRequest,
+    schema: S,
+    ctx?: RunContext,
+    options?: StructuredOptions & { forceProvider?: ProviderName; domain?: string } & RequestOptions
+  ): Promise<StructuredResult<output<S>>> {
+    const name = options?.name || 'response';
+    const { $schema: _drop, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: 'none' }) as Record<string, any>;
+    const instruction = `Reply with only a JSON object matching this JSON Schema, no other text:\n${JSON.stringify(jsonSchema)}`;
+
+    // The instruction covers providers without a native mode (CLI tools, some local servers)
+    const messages: Message[] = [...request.messages];
+    const systemIdx = messages.findIndex(m => m.role === 'system');
+    if (systemIdx >= 0) {
+      messages[systemIdx] = { ...messages[systemIdx], content: `${contentText(messages[systemIdx].content)}\n\n${instruction}` };
+    } else {
+      messages.unshift({ role: 'system', content: instruction });
+    }
+
+    const attempts = 1 + (options?.repairAttempts ?? 2);
+    let issues: string[] = [];
+    let content = '';
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      const response = await this.complete({
+        ...request,
+        messages,
+        response_format: { type: 'json_schema', name, schema: jsonSchema },
+      }, ctx, options);
+      content = response.message.content;
+
+      const parsed = parseJsonReply(content);
+      const result = parsed.ok ? schema.safeParse(parsed.value) : undefined;
+      if (result?.success) {
+        return { data: result.data, response };
       }
 
+      issues = result
+        ? result.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`)
+        : [parsed.error!];
       if (ctx) {
-        await auditEvent(ctx, 'AI_REQUEST', {
-          provider: providerName,
-          model: finalRequest.model,
-          reason: providerName === selection.provider ? selection.reason : 'Fallback provider',
-          taskType: this.detectTaskType(request),
-          messageCount: request.messages.length,
-          toolCount: request.tools?.length || 0,
-        });
+        await auditEvent(ctx, 'AI_STRUCTURED_INVALID', { schema: name, attempt, provider: response.provider, issues });
       }
 
+      messages.push(
+        { role: 'assistant', content },
+        { role: 'user', content: `That reply did not match the schema:\n${issues.map(i => `- ${i}`).join('\n')}\n\nReply with only the corrected JSON object.` },
+      );
+    }
+
+    throw new StructuredOutputError(name, issues, content);
+  }
+
+  /**
+   * Route and stream a request. Falls back to the next provider only while nothing
+   * has been emitted yet; providers without streaming support are completed in one
+   * go and replayed as deltas. The last event is always 'done' with the full response.
+   */
+  async *completeStream(
+    request: CompletionRequest,
+    ctx?: RunContext,
+    options?: { forceProvider?: ProviderName; domain?: string } & RequestOptions
+  ): AsyncGenerator<StreamEvent> {
+    const selection = this.selectProvider(request, options?.forceProvider, { domain: options?.domain, stickyKey: ctx?.runId });
+    let lastError: Error | null = null;
+
+    for (const providerName of this.getProviderChain(selection.provider)) {
+      options?.signal?.throwIfAborted();
+
+      const provider = this.providers.get(providerName);
+      // Claims the single trial request of a half-open circuit
+      if (!provider?.isAvailable() || !getProviderHealth().acquire(providerName)) continue;
+
+      const finalRequest = await this.prepareRequest({ ...request, stream: true }, providerName, selection, ctx);
+      const retry = { ...PROVIDER_RETRY, shouldRetry: (e: any) => isRetryableError(e) && !options?.signal?.aborted };
+      const startTime = Date.now();
+      let emitted = false;
+      let stream: AsyncIterator<StreamEvent> | undefined;
+
       try {
-        const startTime = Date.now();
-        const response = await provider.complete(finalRequest);
-        const duration = Date.now() - startTime;
-
-        if (ctx) {
-          await auditEvent(ctx, 'AI_RESPONSE', {
-            provider: providerName,
-            model: response.model,
-            durationMs: duration,
-            usage: response.usage,
-            finishReason: response.finish_reason,
-            hasToolCalls: !!response.message.tool_calls?.length,
-          });
+        let response: CompletionResponse | undefined;
+
+        if (provider.completeStream) {
+          // Retry until the first event arrives; after that the stream is committed
+          let next = await withRetry(() => {
+            stream = provider.completeStream!(finalRequest, { signal: options?.signal })[Symbol.asyncIterator]();
+            return stream.next();
+          }, retry);
+
+          while (!next.done) {
+            const event = next.value;
+            if (event.type === 'done') {
+              response = event.response;
+              break;
+            }
+            emitted = true;
+            yield event;
+            next = await stream!.next();
+          }
+          if (!response) {
+            throw new Error('Stream ended without a response');
+          }
+        } else {
+          response = await withRetry(() => provider.complete(finalRequest, { signal: options?.signal }), retry);
+          emitted = true;
+          if (response.message.content) {
+            yield { type: 'text', delta: response.message.content };
+          }
+          for (const [index, tc] of (response.message.tool_calls || []).entries()) {
+            yield { type: 'tool_call', index, id: tc.id, name: tc.function.name, argumentsDelta: tc.function.arguments };
+          }
         }
 
-        return response;
+        await this.recordResponse(ctx, providerName, response, Date.now() - startTime);
+        yield { type: 'done', response };
+        return;
       } catch (error: any) {
+        if (options?.signal?.aborted) throw error;
+        await this.recordFailure(ctx, providerName, error, Date.now() - startTime);
+        // Output already reached the caller - another provider would duplicate or contradict it
+        if (emitted) throw error;
         lastError = error;
-        console.warn(`[Router] Provider ${providerName} failed: ${error.message}, trying next...`);
         continue;
+      } finally {
+        // Release the provider connection, also when the caller stops reading early
+        await stream?.return?.();
       }
     }
-    
-    // All providers failed
+
     throw lastError || new Error('All AI providers failed');
   }
 
+  /**
+   * Look a request up in the response cache. Returns the cached response on a hit,
+   * and the key to store the fresh response under on a miss.
+   */
+  private async readCache(
+    request: CompletionRequest,
+    selection: RouteSelection,
+    ctx?: RunContext,
+    domain?: string
+  ): Promise<{ key: string | null; response?: CompletionResponse }> {
+    if (!this.cache) return { key: null };
+
+    const model = selection.model || request.model;
+    const { key, reason } = this.cache.keyFor(request, selection.provider, model, domain);
+    if (!key) {
+      if (ctx && reason !== 'disabled') {
+        await auditEvent(ctx, 'AI_CACHE_SKIP', { provider: selection.provider, reason });
+      }
+      return { key: null };
+    }
+
+    const entry = await this.cache.get(key);
+    if (!entry) {
+      if (ctx) await auditEvent(ctx, 'AI_CACHE_MISS', { key: key.slice(0, 16), provider: selection.provider, model });
+      return { key };
+    }
+
+    if (ctx) {
+      await auditEvent(ctx, 'AI_CACHE_HIT', {
+        key: key.slice(0, 16),
+        provider: entry.response.provider,
+        model: entry.response.model,
+        ageMs: Date.now() - entry.storedAt,
+        savedUsd: calculateCost(entry.response.provider, entry.response.model, entry.response.usage),
+      });
+    }
+    return { key, response: { ...structuredClone(entry.response), cached: true } };
+  }
+
+  /**
+   * Fallback chain: selected provider first, then the others
+   */
+  private getProviderChain(selected: ProviderName): ProviderName[] {
+    return [selected, ...this.getAvailableProviders().filter(p => p !== selected)];
+  }
+
+  /**
+   * Apply the selected model (primary provider only) and audit the request
+   */
+  private async prepareRequest(
+    request: CompletionRequest,
+    providerName: ProviderName,
+    selection: RouteSelection,
+    ctx?: RunContext
+  ): Promise<CompletionRequest> {
+    // Get model for this provider - only use selected model for primary provider
+    // For fallback providers, remove model to use their default
+    let finalRequest: CompletionRequest;
+    if (providerName === selection.provider && selection.model) {
+      finalRequest = { ...request, model: selection.model };
+    } else {
+      // Remove model from request for fallback providers
+      const { model: _removed, ...requestWithoutModel } = request;
+      finalRequest = requestWithoutModel as CompletionRequest;
+    }
+
+    if (ctx) {
+      await auditEvent(ctx, 'AI_REQUEST', {
+        provider: providerName,
+        model: finalRequest.model,
+        reason: providerName === selection.provider ? selection.reason : 'Fallback provider',
+        rule: providerName === selection.provider ? selection.rule : undefined,
+        taskType: this.detectTaskType(request),
+        messageCount: request.messages.length,
+        toolCount: request.tools?.length || 0,
+        stream: !!request.stream,
+      });
+
+      const media = TEXT_ONLY_PROVIDERS.has(providerName) ? countMedia(request.messages) : 0;
+      if (media > 0) {
+        await auditEvent(ctx, 'AI_MEDIA_DROPPED', { provider: providerName, parts: media });
+      }
+    }
+
+    return finalRequest;
+  }
+
+  /**
+   * Account usage, cost and provider health for a response and audit it
+   */
+  private async recordResponse(ctx: RunContext | undefined, providerName: ProviderName, response: CompletionResponse, durationMs: number): Promise<void> {
+    getProviderHealth().recordSuccess(providerName, durationMs);
+    const replay = this.providers.get('replay');
+    const misses = replay instanceof ReplayProvider ? replay.takeMisses() : [];
+    if (!ctx) return;
+
+    for (const miss of misses) {
+      await auditEvent(ctx, 'REPLAY_MISS', miss);
+    }
+
+    const costUsd = calculateCost(providerName, response.model, response.usage);
+    const totals = this.usage.get(ctx.runId) ?? emptyUsage();
+    addUsage(totals, providerName, response.usage, costUsd);
+    this.usage.set(ctx.runId, totals);
+
+    await auditEvent(ctx, 'AI_RESPONSE', {
+      provider: providerName,
+      model: response.model,
+      durationMs,
+      usage: response.usage,
+      costUsd,
+      finishReason: response.finish_reason,
+      hasToolCalls: !!response.message.tool_calls?.length,
+    });
+  }
+
+  /**
+   * Update provider health after a failed call (retries exhausted)
+   */
+  private async recordFailure(ctx: RunContext | undefined, providerName: ProviderName, error: Error, durationMs: number): Promise<void> {
+    const opened = getProviderHealth().recordFailure(providerName, error, durationMs);
+    console.warn(`[Router] Provider ${providerName} failed: ${error.message}, trying next...`);
+
+    if (opened) {
+      const health = getProviderHealth().snapshot().find(h => h.provider === providerName);
+      console.warn(`[Router] Circuit opened for ${providerName} until ${health?.openUntil}`);
+      if (ctx) {
+        await auditEvent(ctx, 'PROVIDER_CIRCUIT_OPEN', {
+          provider: providerName,
+          consecutiveFailures: health?.consecutiveFailures,
+          openUntil: health?.openUntil,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  /**
+   * Accumulated tokens and cost of all completions made for a run
+   */
+  getUsage(runId: string): RunUsage {
+    return this.usage.get(runId) ?? emptyUsage();
+  }
+
+  /**
+   * Seed run totals, e.g. from a checkpoint when a run is resumed
+   */
+  restoreUsage(runId: string, usage: RunUsage): void {
+    this.usage.set(runId, structuredClone(usage));
+  }
+
+  /**
+   * Forget a finished run's totals; its report and result keep their own copy
+   */
+  releaseRun(runId: string): void {
+    this.usage.delete(runId);
+  }
+
+  /**
+   * Charge another run's totals to a run, e.g. a sub-agent's usage to the run that delegated it
+   */
+  addRunUsage(runId: string, usage: RunUsage): void {
+    const totals = this.usage.get(runId) ?? emptyUsage();
+    mergeUsage(totals, usage);
+    this.usage.set(runId, totals);
+  }
+
   /**
    * Get a specific provider
    */
@@ -285,9 +818,10 @@ export class AIRouter {
 }
 
 /**
- * Create router from environment variables
+ * Create router from environment variables and the routing config file, if any
  */
 export function createRouterFromEnv(): AIRouter {
+  const routing = loadRoutingConfig();
   const config: AIConfig = {
     openai: {
       apiKey: process.env.OPENAI_API_KEY || '',
@@ -305,9 +839,20 @@ export function createRouterFromEnv(): AIRouter {
       apiKey: process.env.GEMINI_API_KEY || '',
       defaultModel: process.env.GEMINI_MODEL || 'gemini-2.0-flash-exp',
     },
+    openaiCompatible: {
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || '',
+      baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL || '',
+      models: (process.env.OPENAI_COMPATIBLE_MODELS || '').split(',').map(m => m.trim()).filter(Boolean),
+      toolCalling: (process.env.OPENAI_COMPATIBLE_TOOL_CALLING as ToolCallingMode) || 'native',
+    },
     routing: {
-      default: (process.env.DEFAULT_AI_PROVIDER as ProviderName) || 'anthropic',
+      ...routing,
+      default: (routing?.default as ProviderName) || (process.env.DEFAULT_AI_PROVIDER as ProviderName) || 'anthropic',
     },
+    cache: cacheConfigFromEnv(),
+    replay: process.env.AI_REPLAY_FIXTURE && (process.env.AI_REPLAY_MODE === 'record' || process.env.AI_REPLAY_MODE === 'replay')
+      ? { mode: process.env.AI_REPLAY_MODE, fixture: process.env.AI_REPLAY_FIXTURE, strict: process.env.AI_REPLAY_STRICT !== 'false' }
+      : undefined,
   };
 
   return new AIRouter(config);
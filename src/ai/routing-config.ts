@@ -0,0 +1,139 @@
+/**
+ * Routing Configuration
+ * Loads AIRouter routing rules from a YAML or JSON file
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import type { RoutingConfig } from './types.js';
+
+const DEFAULT_PATHS = ['routing.yaml', 'routing.yml', 'routing.json'];
+
+// Providers the router can register; CLI tools join as cli-<tool>
+const PROVIDERS = ['openai', 'anthropic', 'perplexity', 'gemini', 'openai-compatible', 'replay', 'mock', 'cli-claude', 'cli-gemini', 'cli-codex'] as const;
+
+const TASK_TYPES = ['search', 'coding', 'analysis', 'planning', 'execution', 'conversation', 'vision', 'summarization'] as const;
+
+const targetSchema = z.object({
+  provider: z.string(),
+  model: z.string().optional(),
+  weight: z.number().positive().optional(),
+});
+
+const ruleSchema = z.object({
+  name: z.string().optional(),
+  priority: z.number().optional(),
+  match: z.object({
+    taskType: z.union([z.enum(TASK_TYPES), z.array(z.enum(TASK_TYPES))]).optional(),
+    keywords: z.array(z.string()).optional(),
+    pattern: z.string().refine(p => {
+      try { new RegExp(p); return true; } catch { return false; }
+    }, 'Invalid regular expression').optional(),
+    toolRequired: z.array(z.string()).optional(),
+    domain: z.union([z.string(), z.array(z.string())]).optional(),
+  }).default({}),
+  provider: z.string().optional(),
+  model: z.string().optional(),
+  targets: z.array(targetSchema).min(1).optional(),
+  reason: z.string().optional(),
+}).refine(r => r.provider || r.targets, 'Rule needs a provider or targets');
+
+const routingFileSchema = z.object({
+  default: z.string().optional(),
+  builtinRules: z.boolean().optional(),
+  aliases: z.record(targetSchema.omit({ weight: true })).optional(),
+  taskTypes: z.record(z.enum(TASK_TYPES), z.array(z.string())).optional(),
+  rules: z.array(ruleSchema).optional(),
+  domains: z.record(z.object({
+    default: z.string().optional(),
+    rules: z.array(ruleSchema).optional(),
+  })).optional(),
+});
+
+export type RoutingFile = Omit<RoutingConfig, 'default'> & { default?: string };
+
+/**
+ * Path of the routing config: ROUTING_CONFIG, or routing.yaml/.yml/.json in the working directory
+ */
+export function findRoutingConfig(): string | null {
+  if (process.env.ROUTING_CONFIG) return process.env.ROUTING_CONFIG;
+  return DEFAULT_PATHS.find(p => existsSync(p)) ?? null;
+}
+
+/**
+ * Load and validate a routing config file. Returns null when no file is configured.
+ */
+export function loadRoutingConfig(path: string | null = findRoutingConfig()): RoutingFile | null {
+  if (!path) return null;
+  if (!existsSync(path)) {
+    throw new Error(`Routing config not found: ${path}`);
+  }
+
+  const text = readFileSync(path, 'utf8');
+  let raw: unknown;
+  try {
+    raw = extname(path) === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (e: any) {
+    throw new Error(`Could not parse routing config ${path}: ${e.message}`);
+  }
+
+  const parsed = routingFileSchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+    throw new Error(`Invalid routing config ${path}: ${issues}`);
+  }
+
+  const config = parsed.data as RoutingFile;
+
+  // Aliases must point at real providers, and rules and domain defaults at providers or aliases
+  const issues = targetIssues(config);
+  if (issues.length) {
+    throw new Error(`Invalid routing config ${path}: ${issues.join('; ')}`);
+  }
+
+  return config;
+}
+
+/**
+ * Provider references that name neither a known provider nor (where allowed) an alias
+ */
+function targetIssues(config: RoutingFile): string[] {
+  const aliases = config.aliases || {};
+  const isProvider = (name: string) => (PROVIDERS as readonly string[]).includes(name);
+  const known = `one of ${PROVIDERS.join(', ')}`;
+  const issues: string[] = [];
+
+  for (const [name, target] of Object.entries(aliases)) {
+    if (aliases[target.provider]) {
+      issues.push(`aliases.${name}: points at another alias`);
+    } else if (!isProvider(target.provider)) {
+      issues.push(`aliases.${name}: unknown provider "${target.provider}", expected ${known}`);
+    }
+  }
+
+  // The top-level default is used as a provider name directly
+  if (config.default && !isProvider(config.default)) {
+    issues.push(`default: unknown provider "${config.default}", expected ${known}`);
+  }
+
+  const checkTarget = (where: string, provider: string | undefined) => {
+    if (provider !== undefined && !isProvider(provider) && !aliases[provider]) {
+      issues.push(`${where}: unknown provider or alias "${provider}"`);
+    }
+  };
+  const checkRules = (where: string, rules: RoutingFile['rules']) => {
+    (rules || []).forEach((rule, i) => {
+      checkTarget(`${where}.${i}.provider`, rule.provider);
+      rule.targets?.forEach((t, j) => checkTarget(`${where}.${i}.targets.${j}.provider`, t.provider));
+    });
+  };
+
+  checkRules('rules', config.rules);
+  for (const [domain, domainConfig] of Object.entries(config.domains || {})) {
+    checkTarget(`domains.${domain}.default`, domainConfig.default);
+    checkRules(`domains.${domain}.rules`, domainConfig.rules);
+  }
+  return issues;
+}
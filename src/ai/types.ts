@@ -3,16 +3,25 @@
  * Unified interfaces for multi-provider AI support
  */
 
-export type ProviderName = 'openai' | 'anthropic' | 'perplexity' | 'gemini';
+export type ProviderName = 'openai' | 'anthropic' | 'perplexity' | 'gemini' | 'openai-compatible' | 'replay' | 'mock';
 
 export interface Message {
   role: 'system' | 'user' | 'assistant' | 'tool';
-  content: string;
+  content: string | ContentPart[];
   name?: string;
   tool_call_id?: string;
   tool_calls?: ToolCall[];
 }
 
+/**
+ * Part of a multimodal message. Binary data is base64 without a data: prefix;
+ * url can be used instead where the provider fetches it.
+ */
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mimeType: string; data?: string; url?: string }
+  | { type: 'file'; mimeType: string; data?: string; url?: string; name?: string };
+
 export interface ToolCall {
   id: string;
   type: 'function';
@@ -38,20 +47,34 @@ export interface CompletionRequest {
   model?: string;
   temperature?: number;
   max_tokens?: number;
+  /** Set by AIRouter.completeStream; providers stream regardless when completeStream is called */
   stream?: boolean;
+  /** Ask for a JSON reply matching a schema, using the provider's native mode where it has one */
+  response_format?: ResponseFormat;
+}
+
+export interface ResponseFormat {
+  type: 'json_schema';
+  /** Short identifier of the schema (letters, digits, _ and -) */
+  name: string;
+  /** JSON Schema of the expected object */
+  schema: Record<string, any>;
 }
 
 export interface CompletionResponse {
   id: string;
   provider: ProviderName;
   model: string;
-  message: Message;
+  /** Replies are always text (plus tool calls) */
+  message: Message & { content: string };
   usage?: {
     prompt_tokens: number;
     completion_tokens: number;
     total_tokens: number;
   };
   finish_reason: 'stop' | 'tool_calls' | 'length' | 'error';
+  /** Served from the response cache instead of the provider */
+  cached?: boolean;
 }
 
 export interface ProviderConfig {
@@ -61,25 +84,101 @@ export interface ProviderConfig {
   enabled?: boolean;
 }
 
+/**
+ * How a provider handles tool definitions
+ * - native: OpenAI-style function calling
+ * - prompt: tools described in the system prompt, calls parsed from the reply text
+ * - none: tools are not sent
+ */
+export type ToolCallingMode = 'native' | 'prompt' | 'none';
+
+/**
+ * Self-hosted server speaking the OpenAI chat completions API (Ollama, llama.cpp, vLLM, ...)
+ */
+export interface OpenAICompatibleConfig extends ProviderConfig {
+  /** Models served by the endpoint; the first is the default */
+  models?: string[];
+  toolCalling?: ToolCallingMode;
+}
+
 export interface AIConfig {
   openai?: ProviderConfig;
   anthropic?: ProviderConfig;
   perplexity?: ProviderConfig;
   gemini?: ProviderConfig;
-  routing?: {
-    default: ProviderName;
-    rules?: RoutingRule[];
-  };
+  openaiCompatible?: OpenAICompatibleConfig;
+  routing?: RoutingConfig;
+  /** Record completions to a fixture file, or serve them from one instead of calling providers */
+  replay?: ReplayConfig;
+  /** Cache completions of repeated requests */
+  cache?: CacheConfig;
+  /**
+   * Pre-built clients (e.g. a MockProvider) registered as the only providers.
+   * Env-configured and CLI providers are skipped.
+   */
+  clients?: ProviderClient[];
+}
+
+export interface CacheConfig {
+  enabled: boolean;
+  /** Entry lifetime (default 3600) */
+  ttlSeconds?: number;
+  /** Per-domain flags overriding enabled */
+  domains?: Record<string, boolean>;
+  /** Storage directory (default .data/ai-cache) */
+  dir?: string;
+}
+
+export interface ReplayConfig {
+  mode: 'record' | 'replay';
+  /** Fixture file (JSON) */
+  fixture: string;
+  /**
+   * In replay mode, fail on requests with no recorded match (default). When false, a miss
+   * gets the next unused recording and is warned about and audited as REPLAY_MISS.
+   */
+  strict?: boolean;
+}
+
+export interface RoutingConfig {
+  default: ProviderName;
+  rules?: RoutingRule[];
+  /** Named provider/model pairs usable wherever a provider or model is expected */
+  aliases?: Record<string, RoutingTarget>;
+  /** Per-domain default provider (or alias) and rules evaluated before the global ones */
+  domains?: Record<string, { default?: string; rules?: RoutingRule[] }>;
+  /** Extra keywords per task type, checked before the built-in heuristics */
+  taskTypes?: Partial<Record<TaskType, string[]>>;
+  /** Set to false to drop the built-in rules */
+  builtinRules?: boolean;
+}
+
+export interface RoutingTarget {
+  /** Provider name or alias */
+  provider: ProviderName | string;
+  /** Model name or alias */
+  model?: string;
+  /** Relative share of traffic when a rule has several targets */
+  weight?: number;
 }
 
 export interface RoutingRule {
+  name?: string;
+  /** Higher priority rules are evaluated first (default 0) */
+  priority?: number;
   match: {
     taskType?: TaskType | TaskType[];
     keywords?: string[];
+    /** Regular expression tested against the last user message (case-insensitive) */
+    pattern?: string;
     toolRequired?: string[];
+    domain?: string | string[];
   };
-  provider: ProviderName;
+  /** Provider name or alias; omit when using targets */
+  provider?: ProviderName | string;
   model?: string;
+  /** Weighted targets for A/B splits */
+  targets?: RoutingTarget[];
   reason?: string;
 }
 
@@ -93,9 +192,29 @@ export type TaskType =
   | 'vision'           // Image understanding
   | 'summarization';   // Summarizing content
 
+/**
+ * Per-call options that are not part of the request payload
+ */
+export interface RequestOptions {
+  /** Aborts the in-flight request (e.g. when a run is cancelled) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Incremental output of a streamed completion.
+ * Tool call deltas are keyed by index; id and name arrive with the first delta of each call.
+ * The stream always ends with a 'done' event carrying the assembled response.
+ */
+export type StreamEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'tool_call'; index: number; id?: string; name?: string; argumentsDelta: string }
+  | { type: 'done'; response: CompletionResponse };
+
+export type StreamDelta = Exclude<StreamEvent, { type: 'done' }>;
+
 export interface ProviderClient {
   name: ProviderName;
-  complete(request: CompletionRequest): Promise<CompletionResponse>;
-  completeStream?(request: CompletionRequest): AsyncIterable<CompletionResponse>;
+  complete(request: CompletionRequest, options?: RequestOptions): Promise<CompletionResponse>;
+  completeStream?(request: CompletionRequest, options?: RequestOptions): AsyncIterable<StreamEvent>;
   isAvailable(): boolean;
 }
@@ -1,4 +1,5 @@
 import Database from 'better-sqlite3';
+import { calculateCost, type UsageTotals } from '../ai/pricing.js';
 
 interface AuditRow {
   id: number;
@@ -26,4 +27,69 @@ export function getAllRuns(){
   return rows.map(r => r.run_id);
 }
 
+export type CostGrouping = 'day' | 'domain' | 'provider';
+
+export interface CostReport {
+  since: string | null;
+  total: UsageTotals;
+  groups: Record<CostGrouping, Array<UsageTotals & { key: string }>>;
+}
+
+/**
+ * Token and cost totals from AI_RESPONSE events, grouped by day, domain and provider.
+ * The domain of each call is the one the run was in at the time (AGENT_START, DOMAIN_SWITCH, AGENT_RESUME).
+ */
+export function getCostReport(options: { days?: number } = {}): CostReport {
+  const since = options.days ? new Date(Date.now() - options.days * 86400000).toISOString() : null;
+  const db = new Database('.data/audit.sqlite');
+  const stmt = db.prepare(`SELECT id, run_id, event_type, data, created_at FROM audit_events
+    WHERE event_type IN ('AI_RESPONSE', 'AGENT_START', 'AGENT_RESUME', 'DOMAIN_SWITCH')
+      AND (event_type != 'AI_RESPONSE' OR created_at >= ?)
+    ORDER BY id ASC`);
+  const rows = stmt.all(since ?? '') as AuditRow[];
+
+  const empty = (): UsageTotals => ({ calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 });
+  const total = empty();
+  const groups: Record<CostGrouping, Map<string, UsageTotals>> = { day: new Map(), domain: new Map(), provider: new Map() };
+  const runDomains = new Map<string, string>();
+
+  for (const row of rows) {
+    const data = safeParse(row.data);
+    if (row.event_type === 'AGENT_START' || row.event_type === 'AGENT_RESUME') {
+      if (data.domain) runDomains.set(row.run_id, data.domain);
+      continue;
+    }
+    if (row.event_type === 'DOMAIN_SWITCH') {
+      if (data.to) runDomains.set(row.run_id, data.to);
+      continue;
+    }
+
+    const usage = data.usage;
+    const costUsd = typeof data.costUsd === 'number' ? data.costUsd : calculateCost(data.provider, data.model, usage);
+    const keys: Record<CostGrouping, string> = {
+      day: row.created_at.slice(0, 10),
+      domain: runDomains.get(row.run_id) || 'none',
+      provider: data.provider || 'unknown',
+    };
+
+    const buckets = [total, ...(Object.keys(keys) as CostGrouping[]).map(g => {
+      if (!groups[g].has(keys[g])) groups[g].set(keys[g], empty());
+      return groups[g].get(keys[g])!;
+    })];
+    for (const b of buckets) {
+      b.calls++;
+      b.promptTokens += usage?.prompt_tokens || 0;
+      b.completionTokens += usage?.completion_tokens || 0;
+      b.totalTokens += usage?.total_tokens || 0;
+      b.costUsd += costUsd;
+    }
+  }
+
+  const sorted = (g: CostGrouping) => Array.from(groups[g].entries())
+    .map(([key, totals]) => ({ key, ...totals }))
+    .sort((a, b) => g === 'day' ? b.key.localeCompare(a.key) : b.costUsd - a.costUsd);
+
+  return { since, total, groups: { day: sorted('day'), domain: sorted('domain'), provider: sorted('provider') } };
+}
+
 function safeParse(s: string){ try { return JSON.parse(s); } catch { return { raw: s }; } }
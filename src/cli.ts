@@ -8,14 +8,17 @@ import 'dotenv/config';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
 import { startDemoE2E } from './runner/index.js';
-import { queryByRun, getAllRuns } from './audit/query.js';
+import { queryByRun, getAllRuns, getCostReport, type CostGrouping } from './audit/query.js';
 import { addSecret, listSecrets, revokeSecret } from './vault/store.js';
-import { runObjective, createAgentLoop } from './core/agent-loop.js';
-import { generatePlan, createPlanner } from './planner/index.js';
+import { runObjective, resumeObjective, createAgentLoop, type AgentResult } from './core/agent-loop.js';
+import { listCheckpoints } from './core/checkpoint.js';
+import { generatePlan, createPlanner, type Plan } from './planner/index.js';
+import { runPlanObjective, type PlanRunResult } from './runner/plan.js';
 import { getMemoryStore } from './memory/index.js';
 import { getDomainManager, listDomains, getBrain } from './domains/index.js';
 import { validateConfig, printValidationResult, hasAnyProvider } from './utils/validate-config.js';
 import { loadJournal, listRecentRuns, exportJournalSummary, rollbackEntry, rollbackRun } from './journal/index.js';
+import { getRunRegistry, type RunAction } from './core/runs.js';
 import type { RunContext } from './core/types.js';
 import type { Message } from './ai/types.js';
 import readline from 'readline';
@@ -35,6 +38,72 @@ function colorize(text: string, color: keyof typeof colors): string {
   return `${colors[color]}${text}${colors.reset}`;
 }
 
+function printAgentResult(result: AgentResult) {
+  console.log('\n' + '═'.repeat(60));
+  const statusLabel = result.status === 'complete' ? '✅ COMPLETE' :
+                      result.status === 'blocked' ? '⏸️  BLOCKED' :
+                      result.status === 'failed' ? '❌ FAILED' : '⚠️  INCOMPLETE';
+  console.log(`\n${statusLabel}`);
+  console.log(`📊 Iterations: ${result.iterations}`);
+  console.log(`🔧 Tool calls: ${result.toolCalls}`);
+  console.log(`🪙 Tokens: ${result.usage.totalTokens} (${result.usage.promptTokens} in / ${result.usage.completionTokens} out), est. $${result.usage.costUsd.toFixed(4)}`);
+  if (result.errors.length > 0) {
+    console.log(`⚠️  Errors: ${result.errors.length}`);
+    result.errors.forEach(e => console.log(`   - ${e}`));
+  }
+  if (result.completion?.deliverables.length) {
+    console.log('📦 Deliverables:');
+    result.completion.deliverables.forEach(d => console.log(`   - [${d.type}] ${d.ref}${d.description ? ` - ${d.description}` : ''}`));
+  }
+  console.log(`\n📝 Final Response:\n${result.finalResponse}\n`);
+}
+
+function printPlan(plan: Plan) {
+  console.log('Objective:', plan.objective);
+  console.log('Steps:', plan.steps.length);
+  console.log('Estimated:', plan.estimatedDuration || 'Unknown');
+  console.log('\nSteps:');
+  plan.steps.forEach((s, i) => {
+    const deps = s.deps?.length ? ` (after ${s.deps.join(', ')})` : '';
+    console.log(`  ${i + 1}. ${s.id} [${s.type}] ${s.description || JSON.stringify(s.params).slice(0, 60)}${deps}`);
+  });
+
+  if (plan.risks?.length) {
+    console.log('\nRisks:');
+    plan.risks.forEach(r => console.log(`  ⚠️  ${r}`));
+  }
+}
+
+function printPlanRunResult(result: PlanRunResult) {
+  console.log('\n' + '═'.repeat(60));
+  const statusLabel = result.status === 'complete' ? '✅ COMPLETE' :
+                      result.status === 'rejected' ? '⏸️  REJECTED' :
+                      result.status === 'invalid' ? '⚠️  INVALID PLAN' : '❌ FAILED';
+  console.log(`\n${statusLabel}`);
+  console.log(`📋 Plans executed: ${result.attempts}`);
+  for (const step of result.steps) {
+    const icon = step.status === 'ok' ? '✓' : step.status === 'failed' ? '✗' : '-';
+    console.log(`   ${icon} ${step.stepId}${step.fallback ? ' (fallback)' : ''}${step.error ? ` - ${step.error}` : ''}`);
+  }
+  if (result.errors.length > 0) {
+    console.log(`⚠️  Errors: ${result.errors.length}`);
+    result.errors.forEach(e => console.log(`   - ${e}`));
+  }
+  console.log('');
+}
+
+/**
+ * Show a plan and ask on the terminal whether to execute it
+ */
+async function confirmPlan(plan: Plan, attempt: number): Promise<boolean> {
+  console.log(`\n📋 ${attempt > 1 ? `Revised plan (attempt ${attempt})` : 'Plan'}:\n`);
+  printPlan(plan);
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await new Promise<string>(resolve => rl.question('\nExecute this plan? [y/N] ', resolve));
+  rl.close();
+  return /^y(es)?$/i.test(answer.trim());
+}
+
 async function main() {
   await yargs(hideBin(process.argv))
     // ============ RUN COMMAND ============
@@ -62,6 +131,19 @@ async function main() {
           default: 100,
           description: 'Maximum tool calls',
         })
+        .option('tool-concurrency', {
+          type: 'number',
+          default: 4,
+          description: 'Max read-only tool calls run in parallel per turn (1 = sequential)',
+        })
+        .option('max-cost', {
+          type: 'number',
+          description: 'Stop the run once estimated AI spend reaches this many USD',
+        })
+        .option('max-tokens', {
+          type: 'number',
+          description: 'Stop the run once this many tokens have been used',
+        })
         .option('domain', {
           alias: 'd',
           type: 'string',
@@ -70,28 +152,209 @@ async function main() {
         .option('no-auto-domain', {
           type: 'boolean',
           description: 'Disable auto domain detection',
-        }),
+        })
+        .option('record', {
+          type: 'string',
+          description: 'Record every AI request/response of the run to this fixture file',
+        })
+        .option('replay', {
+          type: 'string',
+          description: 'Serve AI responses from a recorded fixture file instead of calling providers',
+        })
+        .option('mode', {
+          type: 'string',
+          choices: ['agent', 'plan'],
+          default: 'agent',
+          description: 'agent = iterative tool-using loop, plan = generate a plan and execute its steps',
+        })
+        .option('approve-plan', {
+          type: 'boolean',
+          description: 'Plan mode: confirm each plan (including replans) before it executes',
+        })
+        .option('max-replans', {
+          type: 'number',
+          default: 2,
+          description: 'Plan mode: replans allowed after failed steps or an invalid plan',
+        })
+        .option('step-concurrency', {
+          type: 'number',
+          default: 4,
+          description: 'Plan mode: max independent steps executed in parallel (1 = sequential)',
+        })
+        .conflicts('record', 'replay'),
       async (argv) => {
         console.log('\n🤖 Agentic Employee starting...\n');
         console.log(`📋 Objective: ${argv.objective}\n`);
 
+        // Read by createRouterFromEnv when the run builds its router
+        if (argv.record || argv.replay) {
+          process.env.AI_REPLAY_MODE = argv.record ? 'record' : 'replay';
+          process.env.AI_REPLAY_FIXTURE = argv.record || argv.replay;
+          console.log(`📼 ${argv.record ? 'Recording to' : 'Replaying from'} ${process.env.AI_REPLAY_FIXTURE}\n`);
+        }
+
+        const runId = `run-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+        if (argv.mode === 'plan') {
+          console.log(`🆔 Run ID: ${runId} (use "journal --rollback-run ${runId}" to undo it)\n`);
+          const result = await runPlanObjective(argv.objective!, {
+            runId,
+            verbose: argv.verbose,
+            maxReplans: argv['max-replans'],
+            concurrency: argv['step-concurrency'],
+            approve: argv['approve-plan'] ? confirmPlan : undefined,
+            domain: argv.domain as any,
+          });
+          printPlanRunResult(result);
+          return;
+        }
+
+        console.log(`🆔 Run ID: ${runId} (use "runs pause|resume|cancel ${runId}" to control it)\n`);
+
         const result = await runObjective(argv.objective!, {
+          runId,
           verbose: argv.verbose,
           maxIterations: argv['max-iterations'],
           maxToolCalls: argv['max-tools'],
+          toolConcurrency: argv['tool-concurrency'],
+          budget: argv['max-cost'] !== undefined || argv['max-tokens'] !== undefined
+            ? { maxCostUsd: argv['max-cost'], maxTokens: argv['max-tokens'] }
+            : undefined,
           domain: argv.domain as any,
           autoDomain: !argv['no-auto-domain'],
         });
 
-        console.log('\n' + '═'.repeat(60));
-        console.log(`\n${result.success ? '✅ SUCCESS' : '❌ FAILED'}`);
-        console.log(`📊 Iterations: ${result.iterations}`);
-        console.log(`🔧 Tool calls: ${result.toolCalls}`);
-        if (result.errors.length > 0) {
-          console.log(`⚠️  Errors: ${result.errors.length}`);
-          result.errors.forEach(e => console.log(`   - ${e}`));
+        printAgentResult(result);
+      }
+    )
+
+    // ============ RESUME COMMAND ============
+    .command(
+      'resume [runId]',
+      'Continue an interrupted run from its last checkpoint',
+      (y) => y
+        .positional('runId', {
+          type: 'string',
+          description: 'Run ID to resume',
+        })
+        .option('list', {
+          alias: 'l',
+          type: 'boolean',
+          description: 'List runs that can be resumed',
+        })
+        .option('verbose', {
+          alias: 'v',
+          type: 'boolean',
+          description: 'Show detailed execution logs',
+        }),
+      async (argv) => {
+        if (argv.list || !argv.runId) {
+          const checkpoints = (await listCheckpoints()).filter(c => c.status === 'running');
+          console.log(colorize('\n💾 Resumable Runs\n', 'cyan'));
+          if (checkpoints.length === 0) {
+            console.log('  No interrupted runs.');
+          }
+          checkpoints.slice(0, 20).forEach(c => {
+            console.log(`  ${c.runId}  iteration ${c.iterations}  ${c.objective.split('\n')[0].slice(0, 60)}`);
+          });
+          console.log('');
+          return;
+        }
+
+        console.log(`\n🔁 Resuming run ${argv.runId}...\n`);
+        const result = await resumeObjective(argv.runId, { verbose: argv.verbose });
+        printAgentResult(result);
+      }
+    )
+
+    // ============ RUN CONTROL COMMANDS ============
+    .command(
+      'runs <action> [runId]',
+      'List runs, or cancel, pause or resume an in-flight run',
+      (y) => y
+        .positional('action', {
+          type: 'string',
+          choices: ['list', 'cancel', 'pause', 'resume'],
+          demandOption: true,
+        })
+        .positional('runId', {
+          type: 'string',
+          description: 'Run ID (required for cancel, pause, resume)',
+        }),
+      async (argv) => {
+        if (argv.action === 'list') {
+          const runs = getRunRegistry().list();
+          console.log(colorize('\n🏃 Agent Runs\n', 'cyan'));
+          if (runs.length === 0) {
+            console.log('  No runs tracked yet.');
+          }
+          runs.slice(0, 20).forEach(r => {
+            console.log(`  ${r.state.padEnd(10)} ${r.runId}  ${r.objective.split('\n')[0].slice(0, 60)}`);
+          });
+          console.log('');
+          return;
+        }
+
+        if (!argv.runId) {
+          console.log(colorize(`Error: runId is required for ${argv.action}`, 'red'));
+          process.exit(1);
+        }
+
+        const result = await getRunRegistry().control(argv.runId, argv.action as RunAction, 'cli');
+        if (!result.ok) {
+          console.log(colorize(`\n❌ ${result.error}\n`, 'red'));
+          process.exit(1);
+        }
+        const note = result.queued ? ' (request queued for the process running it)' : '';
+        console.log(colorize(`\n✅ ${argv.action} sent to ${argv.runId}${note}\n`, 'green'));
+      }
+    )
+
+    // ============ APPROVAL COMMANDS ============
+    .command(
+      'approvals <action> [id]',
+      'List pending approvals, or approve or deny one',
+      (y) => y
+        .positional('action', {
+          type: 'string',
+          choices: ['list', 'approve', 'deny'],
+          demandOption: true,
+        })
+        .positional('id', {
+          type: 'string',
+          description: 'Approval ID (required for approve, deny)',
+        })
+        .option('all', { alias: 'a', type: 'boolean', description: 'List answered and expired approvals too' })
+        .option('comment', { alias: 'm', type: 'string', description: 'Note passed back to the agent' }),
+      async (argv) => {
+        const { getNotificationManager, getApprovalStore } = await import('./integrations/index.js');
+
+        if (argv.action === 'list') {
+          const approvals = getApprovalStore().list(argv.all ? undefined : 'pending');
+          console.log(colorize(`\n🙋 ${argv.all ? 'Approvals' : 'Pending Approvals'}\n`, 'cyan'));
+          if (approvals.length === 0) {
+            console.log('  Nothing waiting for approval.');
+          }
+          approvals.slice(0, 20).forEach(a => {
+            const remaining = a.status === 'pending' ? ` (${Math.max(0, Math.round((a.expiresAt - Date.now()) / 1000))}s left)` : '';
+            console.log(`  ${a.status.padEnd(9)} ${a.id}  [${a.impact}] ${a.action.split('\n')[0].slice(0, 60)}${remaining}`);
+            console.log(`            ${a.reason}${a.runId ? ` — run ${a.runId}` : ''}`);
+          });
+          console.log('');
+          return;
+        }
+
+        if (!argv.id) {
+          console.log(colorize(`Error: id is required for ${argv.action}`, 'red'));
+          process.exit(1);
         }
-        console.log(`\n📝 Final Response:\n${result.finalResponse}\n`);
+
+        const result = getNotificationManager().handleApprovalResponse(argv.id, argv.action === 'approve', 'cli', argv.comment);
+        if (!result.ok) {
+          console.log(colorize(`\n❌ ${result.error}\n`, 'red'));
+          process.exit(1);
+        }
+        console.log(colorize(`\n✅ ${argv.id} ${result.approval!.status}\n`, 'green'));
       }
     )
 
@@ -193,19 +456,7 @@ async function main() {
         console.log('\n📋 Generating plan...\n');
 
         const plan = await generatePlan(argv.objective!);
-
-        console.log('Objective:', plan.objective);
-        console.log('Steps:', plan.steps.length);
-        console.log('Estimated:', plan.estimatedDuration || 'Unknown');
-        console.log('\nSteps:');
-        plan.steps.forEach((s, i) => {
-          console.log(`  ${i + 1}. [${s.type}] ${s.description || JSON.stringify(s.params).slice(0, 60)}`);
-        });
-
-        if (plan.risks?.length) {
-          console.log('\nRisks:');
-          plan.risks.forEach(r => console.log(`  ⚠️  ${r}`));
-        }
+        printPlan(plan);
 
         if (argv.output) {
           const fs = await import('fs/promises');
@@ -246,6 +497,68 @@ async function main() {
       }
     )
 
+    .command(
+      'costs',
+      'Token and cost report from the audit log',
+      (y) => y
+        .option('by', {
+          type: 'string',
+          choices: ['day', 'domain', 'provider'],
+          description: 'Only show one grouping',
+        })
+        .option('days', { type: 'number', description: 'Only include the last N days' })
+        .option('json', { type: 'boolean', description: 'Print raw JSON' }),
+      async (argv) => {
+        const report = getCostReport({ days: argv.days });
+        if (argv.json) {
+          console.log(JSON.stringify(report, null, 2));
+          return;
+        }
+
+        const formatRow = (key: string, t: { calls: number; promptTokens: number; completionTokens: number; costUsd: number }) =>
+          `  ${key.padEnd(20)} ${String(t.calls).padStart(6)} calls ${String(t.promptTokens).padStart(10)} in ${String(t.completionTokens).padStart(10)} out  $${t.costUsd.toFixed(4)}`;
+
+        console.log(colorize(`\n💰 AI Costs${argv.days ? ` (last ${argv.days} days)` : ''}\n`, 'cyan'));
+        const groupings = argv.by ? [argv.by as CostGrouping] : (['day', 'domain', 'provider'] as CostGrouping[]);
+        for (const grouping of groupings) {
+          console.log(colorize(`By ${grouping}:`, 'bold'));
+          if (report.groups[grouping].length === 0) console.log('  (no AI calls recorded)');
+          report.groups[grouping].forEach(row => console.log(formatRow(row.key, row)));
+          console.log('');
+        }
+        console.log(formatRow('TOTAL', report.total) + '\n');
+      }
+    )
+
+    .command(
+      'cache <action>',
+      'Show or clear the AI response cache',
+      (y) => y
+        .positional('action', {
+          type: 'string',
+          choices: ['stats', 'clear'],
+          demandOption: true,
+        })
+        .option('all', { type: 'boolean', description: 'Clear live entries too, not only expired ones' }),
+      async (argv) => {
+        const { ResponseCache, cacheConfigFromEnv } = await import('./ai/cache.js');
+        const config = cacheConfigFromEnv();
+        const cache = new ResponseCache(config);
+
+        if (argv.action === 'clear') {
+          const removed = await cache.clear({ all: argv.all });
+          console.log(`🧹 Removed ${removed} ${argv.all ? '' : 'expired '}cache entries`);
+          return;
+        }
+
+        const stats = await cache.stats();
+        console.log(colorize('\n🗄️  AI Response Cache\n', 'cyan'));
+        console.log(`  Enabled:  ${config.enabled ? 'yes' : 'no'}${config.domains ? ` (domains: ${Object.entries(config.domains).map(([d, on]) => on ? d : `!${d}`).join(', ')})` : ''}`);
+        console.log(`  TTL:      ${config.ttlSeconds ?? 3600}s`);
+        console.log(`  Entries:  ${stats.entries} (${stats.expired} expired, ${(stats.bytes / 1024).toFixed(1)} KB)\n`);
+      }
+    )
+
     // ============ VAULT COMMANDS ============
     .command(
       'vault add',
@@ -358,13 +671,106 @@ async function main() {
       }
     )
 
+    // ============ ROUTING COMMAND ============
+    .command(
+      'route explain <prompt>',
+      'Show which routing rule a prompt matches and why',
+      (y) => y
+        .positional('prompt', { type: 'string', demandOption: true })
+        .option('domain', { alias: 'd', type: 'string', description: 'Apply the routing overrides of this domain' })
+        .option('tools', { type: 'boolean', description: 'Include the agent tool definitions in the request' })
+        .option('run-id', { type: 'string', description: 'Sticky key for weighted splits (as used for a run)' }),
+      async (argv) => {
+        const { createRouterFromEnv } = await import('./ai/router.js');
+        const { findRoutingConfig } = await import('./ai/routing-config.js');
+        const { getAllTools } = await import('./tools/definitions.js');
+        const router = createRouterFromEnv();
+        const explanation = router.explain(
+          { messages: [{ role: 'user', content: argv.prompt! }], tools: argv.tools ? getAllTools() : undefined },
+          { domain: argv.domain, stickyKey: argv['run-id'] }
+        );
+
+        console.log(colorize('\n🧭 Route Explanation\n', 'cyan'));
+        console.log(`Config:    ${findRoutingConfig() || '(none, built-in rules only)'}`);
+        console.log(`Task type: ${explanation.taskType} (${explanation.taskTypeSource})`);
+        if (explanation.domain) console.log(`Domain:    ${explanation.domain}`);
+
+        console.log('\nRules (in evaluation order):');
+        for (const r of explanation.rules) {
+          const chosen = r.rule === explanation.selection.rule;
+          const mark = chosen ? colorize('→', 'green') : r.matched ? '✓' : ' ';
+          console.log(`  ${mark} ${r.rule.padEnd(20)} [${r.source}, priority ${r.priority}] ${r.detail}`);
+        }
+
+        const { provider, model, reason } = explanation.selection;
+        console.log(`\nSelected:  ${colorize(provider + (model ? ` / ${model}` : ''), 'green')}`);
+        console.log(`Reason:    ${reason}\n`);
+      }
+    )
+
+    // ============ POLICY COMMAND ============
+    .command(
+      'policy test <tool> [args]',
+      'Show the guardrail verdict for a tool call and which rule decided it',
+      (y) => y
+        .positional('tool', { type: 'string', demandOption: true })
+        .positional('args', { type: 'string', description: 'Tool arguments as JSON, e.g. \'{"cmd":"git push"}\'' })
+        .option('domain', { alias: 'd', type: 'string', description: 'Domain making the call (sets the autonomy level)' })
+        .option('autonomy', { type: 'number', description: 'Autonomy level 0-1 (default: the domain\'s)' })
+        .option('source', { type: 'string', choices: ['agent', 'plan'], default: 'agent', description: 'Agent tool call or plan step' })
+        .option('at', { type: 'string', description: 'Evaluate time windows at this date/time (ISO 8601)' }),
+      async (argv) => {
+        const { explainToolPolicy } = await import('./guardrails/policy.js');
+        let args: Record<string, any> = {};
+        if (argv.args) {
+          try {
+            args = JSON.parse(argv.args);
+          } catch (e: any) {
+            console.error(colorize(`Arguments must be a JSON object: ${e.message}`, 'red'));
+            process.exit(1);
+          }
+        }
+        const now = argv.at ? new Date(argv.at) : undefined;
+        if (now && isNaN(now.getTime())) {
+          console.error(colorize(`Invalid --at date: ${argv.at}`, 'red'));
+          process.exit(1);
+        }
+
+        const autonomyLevel = argv.autonomy ?? (argv.domain ? getBrain(argv.domain as any).autonomyLevel ?? 0.7 : undefined);
+        const explanation = explainToolPolicy(
+          { tool: argv.tool!, args, domain: argv.domain, autonomyLevel, source: argv.source as 'agent' | 'plan' },
+          { dryRun: true, now }
+        );
+
+        console.log(colorize('\n🛡️  Policy Test\n', 'cyan'));
+        console.log(`Policy:    ${explanation.config || '(none, built-in rules only)'}`);
+        console.log(`Call:      ${argv.tool} ${JSON.stringify(args)}`);
+        if (argv.domain) console.log(`Domain:    ${argv.domain}`);
+        if (autonomyLevel !== undefined) console.log(`Autonomy:  ${autonomyLevel * 100}%`);
+
+        console.log('\nRules (in evaluation order):');
+        for (const r of explanation.rules) {
+          const chosen = r.matched && r.rule === explanation.decision.rule;
+          const mark = chosen ? colorize('→', 'green') : r.matched ? '✓' : ' ';
+          console.log(`  ${mark} ${r.rule.padEnd(24)} [${r.source}] ${r.detail}`);
+        }
+
+        const { verdict, rule, reason, source } = explanation.decision;
+        const color = verdict === 'ALLOW' ? 'green' : verdict === 'DENY' ? 'red' : 'yellow';
+        console.log(`\nVerdict:   ${colorize(verdict, color)}`);
+        console.log(`Rule:      ${rule || '(none)'} [${source}]`);
+        if (reason) console.log(`Reason:    ${reason}`);
+        console.log();
+      }
+    )
+
     // ============ DOMAINS COMMAND ============
     .command(
       'domains',
       'List available domain brains',
       (y) => y
         .option('show', {
-          alias: 's',
+          alias: ['s', 'id'],
           type: 'string',
           description: 'Show details for specific domain',
         }),
@@ -396,6 +802,44 @@ async function main() {
           if (brain.restrictedTools && brain.restrictedTools.length > 0) {
             console.log(`Restricted Tools: ${brain.restrictedTools.join(', ')}`);
           }
+
+          const { decisionMatrix, APPROVAL_BAND } = await import('./guardrails/risk.js');
+          const { getActivePolicy } = await import('./guardrails/policy-config.js');
+          const autonomy = brain.autonomyLevel ?? 0.7;
+          const matrix = decisionMatrix(autonomy, getActivePolicy().config?.risk);
+          console.log(`\nAction Gating (risk vs autonomy ${autonomy}; policy file rules can override):`);
+          const groups: Array<[string, string, 'ALLOW' | 'REQUIRE_APPROVAL' | 'DENY']> = [
+            ['✅', `Auto-approved (risk ≤ ${autonomy})`, 'ALLOW'],
+            ['🙋', `Needs approval (risk ≤ ${+(autonomy + APPROVAL_BAND).toFixed(2)})`, 'REQUIRE_APPROVAL'],
+            ['❌', 'Denied', 'DENY'],
+          ];
+          for (const [icon, label, verdict] of groups) {
+            const actions = matrix.filter(m => m.verdict === verdict);
+            if (actions.length === 0) continue;
+            console.log(`  ${icon} ${label}:`);
+            console.log(`     ${actions.map(a => `${a.action} ${a.risk}`).join(', ')}`);
+          }
+
+          const { resolveTerminalSandbox, effectiveMode, protectedMounts } = await import('./execution/terminal-sandbox.js');
+          const sandbox = resolveTerminalSandbox(brain.id);
+          const mode = effectiveMode(sandbox) ?? 'none';
+          const limits = [
+            `timeout ${sandbox.timeoutMs / 1000}s`,
+            `output ${sandbox.maxOutputBytes} bytes`,
+            mode === 'host' ? 'host network' : sandbox.network ? 'network on' : 'network off',
+            sandbox.memoryMb && `memory ${sandbox.memoryMb}MB`,
+            sandbox.cpuSeconds && `cpu ${sandbox.cpuSeconds}s`,
+            sandbox.cpus && mode === 'docker' && `${sandbox.cpus} cpus`,
+          ].filter(Boolean);
+          const detail = mode === 'none' ? ' (auto: bwrap unavailable, commands are refused; set TERMINAL_SANDBOX=host to run them unisolated)' : sandbox.mode === 'auto' ? ' (auto)' : mode === 'docker' ? ` (${sandbox.image})` : '';
+          console.log(`\nTerminal Sandbox: ${mode}${detail} - ${limits.join(', ')}`);
+          if (mode === 'bwrap' || mode === 'docker') {
+            console.log(`  Mounts: ${sandbox.mounts.map(m => `${m.path}${m.target ? `:${m.target}` : ''}${m.readOnly ? ' (ro)' : ''}`).join(', ') || 'none'}`);
+            const masks = protectedMounts(sandbox.mounts);
+            const hidden = [...masks.emptyDirs, ...masks.emptyFiles];
+            if (hidden.length) console.log(`  Hidden: ${hidden.join(', ')}`);
+            if (masks.readOnly.length) console.log(`  Read-only: ${masks.readOnly.map(m => m.target).join(', ')}`);
+          }
           
           console.log('');
         } else {
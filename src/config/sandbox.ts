@@ -1,10 +1,20 @@
+import { tmpdir } from 'os';
+import { resolve } from 'path';
 export const SANDBOX = {
   allowedRoot: 'demo_v2',
   allowedTerminal: [/^\.\/demo_v2\/main\.sh(\s.*)?$/],
 };
-export function ensureUnderAllowed(path: string){
+/**
+ * Directories agent tool calls may touch: the working directory and the temp dir,
+ * plus any listed in AGENT_ALLOWED_PATHS (comma-separated)
+ */
+export function agentWorkspaceRoots(): string[] {
+  const extra = (process.env.AGENT_ALLOWED_PATHS || '').split(',').map(p => p.trim()).filter(Boolean);
+  return [process.cwd(), tmpdir(), ...extra].map(p => resolve(p));
+}
+export function ensureUnderAllowed(path: string, allowedRoot: string = SANDBOX.allowedRoot){
   const norm = path.replace(/\\/g,'/');
-  if(!norm.startsWith(`${SANDBOX.allowedRoot}`)){
+  if(!norm.startsWith(`${allowedRoot}`)){
     throw Object.assign(new Error(`Path not allowed: ${path}`), { code: 'SANDBOX_PATH_DENY' });
   }
 }
@@ -4,16 +4,23 @@
  */
 
 import type { RunContext, Objective } from './types.js';
-import type { Message, CompletionResponse, ToolDefinition } from '../ai/types.js';
+import type { Message, CompletionRequest, CompletionResponse, ContentPart, ToolDefinition, StreamDelta } from '../ai/types.js';
 import { AIRouter, createRouterFromEnv } from '../ai/router.js';
+import type { RunUsage } from '../ai/pricing.js';
 import { getAllTools, getAllToolsWithMCP } from '../tools/definitions.js';
-import { executeTool, ToolResult } from '../tools/executor.js';
+import { executeTool, isReadOnlyToolCall, ToolResult } from '../tools/executor.js';
 import { auditEvent } from '../audit/logger.js';
+import { evaluateToolPolicy } from '../guardrails/policy.js';
+import { getNotificationManager, approvalKey } from '../integrations/index.js';
 import { emitRunReport } from './report.js';
 import { initMCP, getMCPManager } from '../mcp/index.js';
-import { DomainManager, getDomainManager, createDomainManager, type DomainId } from '../domains/index.js';
-import { initJournal } from '../journal/index.js';
+import { DomainManager, getDomainManager, createDomainManager, ALL_BRAINS, type DomainId } from '../domains/index.js';
+import { initJournal, journalSubagentRun } from '../journal/index.js';
 import { enhancePrompt } from '../enhancer/index.js';
+import { ContextManager, withoutMedia, type ContextConfig } from './context.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { getRunRegistry, isRunActive } from './runs.js';
+import { saveCheckpoint, recordToolResult, loadCheckpoint, reconcileToolCalls, contextFromCheckpoint, type RunCheckpoint } from './checkpoint.js';
 
 export interface AgentConfig {
   maxIterations?: number;
@@ -25,17 +32,76 @@ export interface AgentConfig {
   domain?: DomainId;
   /** Auto-detect domain from objective */
   autoDomain?: boolean;
+  /** Context window budgets, tool output truncation and history compaction */
+  context?: ContextConfig;
+  /** Max read-only tool calls from one turn executed concurrently (1 = sequential) */
+  toolConcurrency?: number;
+  /** Stop the run before the next AI call once either limit is reached */
+  budget?: {
+    maxCostUsd?: number;
+    maxTokens?: number;
+  };
+  /** Receive token and tool-call deltas as the model streams (enables streaming) */
+  onStream?: (delta: StreamDelta, iteration: number) => void;
+  /** How many levels of sub-agents the delegate tool may start below this run (0 disables it) */
+  maxDelegationDepth?: number;
+  /** How long a policy-triggered approval waits for an answer (default APPROVAL_TIMEOUT_MS or 5 minutes) */
+  approvalTimeoutMs?: number;
+  /** Upper bound on the domain's autonomy level; a sub-agent gets its delegating run's */
+  maxAutonomy?: number;
+}
+
+interface PendingToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+}
+
+interface ExecutedToolCall {
+  result: ToolResult;
+  /** Tool message content as added to the conversation */
+  content: string;
+  /** Attachments stored behind media handles */
+  media: { handle: string; part: ContentPart }[];
+}
+
+export type CompletionStatus = 'complete' | 'blocked' | 'failed';
+
+export interface Deliverable {
+  type: 'file' | 'url' | 'memory' | 'message' | 'other';
+  ref: string;
+  description?: string;
+}
+
+/**
+ * Outcome declared by the model through the complete_task tool
+ */
+export interface CompletionReport {
+  status: CompletionStatus;
+  summary: string;
+  deliverables: Deliverable[];
 }
 
 export interface AgentResult {
   success: boolean;
+  /** Declared outcome, 'cancelled' if stopped through the run registry, or 'incomplete' if the run stopped without calling complete_task */
+  status: CompletionStatus | 'incomplete' | 'cancelled';
+  completion?: CompletionReport;
   finalResponse: string;
   iterations: number;
   toolCalls: number;
   errors: string[];
+  /** Tokens and estimated cost of every AI call made for the run */
+  usage: RunUsage;
   context: RunContext;
 }
 
+// Sub-agents get a shorter leash than top-level runs unless the delegate call asks otherwise
+const DEFAULT_DELEGATE_ITERATIONS = 20;
+
+// Tools a sub-agent always keeps, whatever subset it is given
+const DELEGATE_BASE_TOOLS = ['complete_task', 'think'];
+
 const DEFAULT_SYSTEM_PROMPT = `You are an autonomous AI employee. Your job is to complete tasks by using the tools available to you.
 
 ## Guidelines
@@ -44,7 +110,7 @@ const DEFAULT_SYSTEM_PROMPT = `You are an autonomous AI employee. Your job is to
 
 2. **Be thorough**: Read files before modifying, check results after actions.
 
-3. **Report progress**: Use the 'report' tool to communicate status and completion.
+3. **Report progress**: Use the 'report' tool to communicate status along the way.
 
 4. **Handle errors gracefully**: If something fails, analyze why and try alternative approaches.
 
@@ -52,6 +118,8 @@ const DEFAULT_SYSTEM_PROMPT = `You are an autonomous AI employee. Your job is to
 
 6. **Use memory**: Store important information for future reference.
 
+7. **Delegate**: Use 'delegate' to hand a self-contained sub-task to a sub-agent in the domain best suited for it.
+
 ## Available Tools
 
 You have access to filesystem operations, terminal commands, file editing, web search, memory storage, and reporting tools.
@@ -61,7 +129,8 @@ You have access to filesystem operations, terminal commands, file editing, web s
 - Execute one logical step at a time
 - Verify results before proceeding
 - Iterate until the objective is fully complete
-- Provide a final summary when done
+- Finish by calling 'complete_task' with status "complete", "blocked" or "failed", a final summary, and references to any deliverables
+- The run only ends when 'complete_task' is called
 `;
 
 export class AgentLoop {
@@ -70,18 +139,22 @@ export class AgentLoop {
   private tools: ToolDefinition[];
   private mcpInitialized: boolean = false;
   private domainManager: DomainManager;
+  private contextManager: ContextManager;
 
   constructor(router?: AIRouter, config?: AgentConfig) {
     this.router = router || createRouterFromEnv();
     this.config = {
       maxIterations: 50,
       maxToolCalls: 100,
+      toolConcurrency: 4,
       systemPrompt: DEFAULT_SYSTEM_PROMPT,
       verbose: false,
       autoDomain: true, // Auto-detect domain by default
+      maxDelegationDepth: 2,
       ...config,
     };
     this.tools = config?.tools || getAllTools();
+    this.contextManager = new ContextManager(this.router, config?.context);
     
     // Initialize domain manager
     this.domainManager = createDomainManager(config?.domain || 'general');
@@ -113,11 +186,21 @@ export class AgentLoop {
   }
 
   /**
-   * Run the agent loop for an objective
+   * Run the agent loop for an objective.
+   * Pause requests take effect between iterations; the signal aborts in-flight AI and tool calls.
    */
-  async run(ctx: RunContext, objective: string): Promise<AgentResult> {
-    // Auto-detect domain if enabled
-    if (this.config.autoDomain !== false) {
+  async run(ctx: RunContext, objective: string, options?: { signal?: AbortSignal; resumeFrom?: RunCheckpoint }): Promise<AgentResult> {
+    const signal = options?.signal;
+    const resumeFrom = options?.resumeFrom;
+    const registry = getRunRegistry();
+
+    if (resumeFrom) {
+      // Continue in the domain the run was checkpointed in
+      if (resumeFrom.domain !== this.domainManager.getCurrentDomainId()) {
+        await this.domainManager.switchDomain(resumeFrom.domain, 'Resumed from checkpoint', ctx);
+      }
+    } else if (this.config.autoDomain !== false) {
+      // Auto-detect domain if enabled
       await this.domainManager.autoSwitchDomain(objective, ctx);
     }
     
@@ -127,14 +210,15 @@ export class AgentLoop {
       ? `${domainPrompt}\n\n---\n\n${this.config.systemPrompt}`
       : domainPrompt;
     
-    // Filter tools for current domain
-    const domainTools = this.domainManager.filterToolsForDomain(this.tools);
+    // Filter tools for current domain; sub-agents at the depth limit cannot delegate further
+    const domainTools = this.domainManager.filterToolsForDomain(this.tools)
+      .filter(t => t.name !== 'delegate' || this.config.maxDelegationDepth! > 0);
     
     const currentDomain = this.domainManager.getCurrentDomain();
     
     if (this.config.verbose) {
       console.log(`[Agent] Domain: ${currentDomain.name} (${currentDomain.id})`);
-      console.log(`[Agent] Autonomy level: ${this.domainManager.getAutonomyLevel()}`);
+      console.log(`[Agent] Autonomy level: ${this.autonomyLevel()}`);
       console.log(`[Agent] Tools available: ${domainTools.length}`);
     }
     
@@ -147,14 +231,78 @@ export class AgentLoop {
     let totalToolCalls = 0;
     const errors: string[] = [];
     let finalResponse = '';
+    let completion: CompletionReport | undefined;
+    let cancelled = false;
+    let overBudget = false;
+
+    if (resumeFrom) {
+      // Restore history; calls from an interrupted turn reuse recorded results instead of re-running
+      const reconciled = reconcileToolCalls(resumeFrom);
+      messages.splice(0, messages.length, ...reconciled.messages);
+      iterations = resumeFrom.iterations;
+      totalToolCalls = resumeFrom.toolCalls;
+      errors.push(...resumeFrom.errors);
+      finalResponse = resumeFrom.finalResponse;
+      if (resumeFrom.usage) {
+        this.router.restoreUsage(ctx.runId, resumeFrom.usage);
+      }
 
-    await auditEvent(ctx, 'AGENT_START', { 
+      await auditEvent(ctx, 'AGENT_RESUME', {
+        fromIteration: iterations,
+        toolCalls: totalToolCalls,
+        domain: currentDomain.id,
+        reusedToolResults: reconciled.reused,
+        interruptedToolCalls: reconciled.interrupted,
+      });
+    } else {
+      await auditEvent(ctx, 'AGENT_START', { 
+        objective,
+        domain: currentDomain.id,
+        autonomyLevel: this.autonomyLevel(),
+        parentRunId: ctx.parentRunId,
+      });
+    }
+
+    const checkpoint = (status: RunCheckpoint['status']) => saveCheckpoint({
+      runId: ctx.runId,
       objective,
+      createdAt: ctx.createdAt,
+      status,
       domain: currentDomain.id,
-      autonomyLevel: this.domainManager.getAutonomyLevel(),
-    });
+      // Media is stored behind handles; checkpoints keep only the placeholders
+      messages: messages.map(withoutMedia),
+      iterations,
+      toolCalls: totalToolCalls,
+      errors,
+      finalResponse,
+      usage: this.router.getUsage(ctx.runId),
+      config: {
+        maxIterations: this.config.maxIterations,
+        maxToolCalls: this.config.maxToolCalls,
+        toolConcurrency: this.config.toolConcurrency,
+        budget: this.config.budget,
+      },
+    }).catch(e => console.warn(`[Agent] Checkpoint failed: ${e.message}`));
 
     while (iterations < this.config.maxIterations!) {
+      // Persist the state left by the previous iteration
+      await checkpoint('running');
+
+      // Sub-agents are not registered themselves; they follow the run that started the tree
+      await registry.waitIfPaused(ctx.rootRunId ?? ctx.runId);
+      if (signal?.aborted) {
+        cancelled = true;
+        break;
+      }
+
+      const exceeded = this.checkBudget(ctx.runId);
+      if (exceeded) {
+        overBudget = true;
+        errors.push(exceeded);
+        await auditEvent(ctx, 'BUDGET_EXCEEDED', { reason: exceeded, budget: this.config.budget, usage: this.router.getUsage(ctx.runId) });
+        break;
+      }
+
       iterations++;
 
       if (this.config.verbose) {
@@ -162,40 +310,46 @@ export class AgentLoop {
       }
 
       try {
+        // Keep history within the budget of the provider this request will be routed to
+        const { provider } = this.router.selectProvider({ messages, tools: domainTools }, undefined, { domain: currentDomain.id, stickyKey: ctx.runId });
+        const compacted = await this.contextManager.compact(ctx, messages, provider);
+        if (compacted !== messages) {
+          messages.splice(0, messages.length, ...compacted);
+        }
+
         // Get AI response
-        const response = await this.router.complete({
+        const response = await this.completeTurn(ctx, {
           messages,
           tools: domainTools,
-        }, ctx);
+        }, iterations, signal);
 
-        // Add assistant message to history
+        // Attachments are shown for one turn only, after that the handles stand in for them
+        for (let i = 0; i < messages.length; i++) {
+          messages[i] = withoutMedia(messages[i]);
+        }
+
+        // Add assistant message to history, and persist it before any tool runs
         messages.push(response.message);
+        if (response.message.tool_calls?.length) {
+          await checkpoint('running');
+        }
 
-        // Check if we're done (no tool calls)
-        if (response.finish_reason === 'stop' || !response.message.tool_calls?.length) {
+        // No tool calls - the model must declare its outcome explicitly. Some providers report
+        // finish_reason 'stop' alongside tool calls, so only the calls themselves count.
+        if (!response.message.tool_calls?.length) {
           finalResponse = response.message.content;
-          
-          // Check if it's a completion report
-          if (this.isCompletionMessage(response.message.content)) {
-            await auditEvent(ctx, 'AGENT_COMPLETE', { 
-              iterations, 
-              toolCalls: totalToolCalls,
-              response: finalResponse 
-            });
-            break;
-          }
-          
-          // If no tool calls and not done, prompt to continue or complete
-          if (iterations > 1) {
-            messages.push({
-              role: 'user',
-              content: 'Have you completed the objective? If yes, provide a final summary. If not, continue working.',
-            });
-          }
+          messages.push({
+            role: 'user',
+            content: 'If the objective is finished, blocked or cannot be achieved, call the complete_task tool with the outcome. Otherwise, continue working.',
+          });
           continue;
         }
 
-        // Execute tool calls
+        // Parse tool calls up to the tool call limit. The other calls of a completing turn
+        // still run, so the completion is only accepted once their results are in.
+        const pending: PendingToolCall[] = [];
+        let completionCall: { id: string; args: Record<string, any> } | undefined;
+        const extraCompletions: string[] = [];
         for (const toolCall of response.message.tool_calls) {
           if (totalToolCalls >= this.config.maxToolCalls!) {
             errors.push('Max tool calls reached');
@@ -212,31 +366,94 @@ export class AgentLoop {
             args = {};
           }
 
-          if (this.config.verbose) {
-            console.log(`[Tool] ${toolName}:`, JSON.stringify(args, null, 2));
+          // Completion is handled by the loop itself rather than the executor
+          if (toolName === 'complete_task') {
+            if (completionCall) extraCompletions.push(toolCall.id);
+            else completionCall = { id: toolCall.id, args };
+            continue;
           }
 
-          // Execute the tool
-          const result = await executeTool(ctx, toolName, args);
+          pending.push({ id: toolCall.id, name: toolName, args });
+        }
+
+        // Execute: read-only calls run concurrently, mutating calls act as ordered barriers
+        const results = await this.executeToolCalls(ctx, pending, signal);
 
-          if (this.config.verbose) {
-            console.log(`[Result] ${result.success ? 'OK' : 'ERROR'}:`, 
-              result.success ? JSON.stringify(result.output).slice(0, 200) : result.error);
-          }
+        // Add tool results to messages in the original call order
+        const attachments: ContentPart[] = [];
+        for (let i = 0; i < pending.length; i++) {
+          const { id, name } = pending[i];
+          const { result, content, media } = results[i];
 
-          // Add tool result to messages
           messages.push({
             role: 'tool',
-            content: JSON.stringify(result.success ? result.output : { error: result.error }),
-            tool_call_id: toolCall.id,
+            content,
+            tool_call_id: id,
           });
 
+          for (const { handle, part } of media) {
+            attachments.push({ type: 'text', text: `Attached by ${name} (${id}) as media handle "${handle}":` }, part);
+          }
           if (!result.success) {
-            errors.push(`${toolName}: ${result.error}`);
+            errors.push(`${name}: ${result.error}`);
+          }
+        }
+
+        if (completionCall) {
+          const failed = results.filter(r => !r.result.success).length;
+          if (failed > 0) {
+            // The outcome was declared before the model saw these results
+            messages.push({
+              role: 'tool',
+              content: JSON.stringify({ acknowledged: false, error: `${failed} other tool call(s) in this turn failed. Review their results, then call complete_task again.` }),
+              tool_call_id: completionCall.id,
+            });
+          } else {
+            completion = this.parseCompletion(completionCall.args);
+            finalResponse = completion.summary;
+            messages.push({
+              role: 'tool',
+              content: JSON.stringify({ acknowledged: true, status: completion.status }),
+              tool_call_id: completionCall.id,
+            });
+          }
+          for (const id of extraCompletions) {
+            messages.push({
+              role: 'tool',
+              content: JSON.stringify({ acknowledged: false, error: 'complete_task was already called in this turn' }),
+              tool_call_id: id,
+            });
           }
         }
 
+        // Tool messages are text-only on most providers, so media follows as a user message
+        // once every call of the turn has its result
+        if (attachments.length > 0) {
+          attachments.push({ type: 'text', text: 'Attachments are only shown for this turn. Use retrieve_output with a media handle to see one again.' });
+          messages.push({ role: 'user', content: attachments });
+        }
+
+        if (completion) {
+          await auditEvent(ctx, 'AGENT_COMPLETE', { 
+            iterations, 
+            toolCalls: totalToolCalls,
+            status: completion.status,
+            summary: completion.summary,
+            deliverables: completion.deliverables,
+          });
+          break;
+        }
+
+        if (totalToolCalls >= this.config.maxToolCalls!) {
+          break;
+        }
+
       } catch (error: any) {
+        if (signal?.aborted) {
+          cancelled = true;
+          break;
+        }
+
         const errorMsg = `Iteration ${iterations} error: ${error.message}`;
         errors.push(errorMsg);
         await auditEvent(ctx, 'AGENT_ERROR', { error: errorMsg });
@@ -249,48 +466,350 @@ export class AgentLoop {
       }
     }
 
+    await checkpoint('finished');
+
     // Generate report
-    await emitRunReport(ctx, iterations, iterations - errors.length, 0, 0, ctx.createdAt);
+    const usage = this.router.getUsage(ctx.runId);
+    this.router.releaseRun(ctx.runId);
+    await emitRunReport(ctx, iterations, iterations - errors.length, 0, 0, ctx.createdAt, usage);
+
+    if (!completion) {
+      await auditEvent(ctx, 'AGENT_INCOMPLETE', { 
+        iterations, 
+        toolCalls: totalToolCalls,
+        reason: cancelled ? 'cancelled' :
+                overBudget ? 'budget_exceeded' :
+                totalToolCalls >= this.config.maxToolCalls! ? 'max_tool_calls' : 'max_iterations',
+      });
+    }
 
     return {
-      success: errors.length === 0,
+      success: completion?.status === 'complete',
+      status: completion?.status ?? (cancelled ? 'cancelled' : 'incomplete'),
+      completion,
       finalResponse,
       iterations,
       toolCalls: totalToolCalls,
       errors,
+      usage,
       context: ctx,
     };
   }
 
   /**
-   * Check if message indicates completion
+   * Describe the exceeded budget limit, if any
    */
-  private isCompletionMessage(content: string): boolean {
-    const completionIndicators = [
-      'task complete',
-      'objective complete',
-      'successfully completed',
-      'all done',
-      'finished',
-      'completed successfully',
-      'mission accomplished',
-    ];
-    
-    const lowerContent = content.toLowerCase();
-    return completionIndicators.some(indicator => lowerContent.includes(indicator));
+  private checkBudget(runId: string): string | null {
+    const budget = this.config.budget;
+    if (!budget) return null;
+
+    const usage = this.router.getUsage(runId);
+    if (budget.maxCostUsd !== undefined && usage.costUsd >= budget.maxCostUsd) {
+      return `Budget exceeded: $${usage.costUsd.toFixed(4)} of $${budget.maxCostUsd} spent`;
+    }
+    if (budget.maxTokens !== undefined && usage.totalTokens >= budget.maxTokens) {
+      return `Budget exceeded: ${usage.totalTokens} of ${budget.maxTokens} tokens used`;
+    }
+    return null;
+  }
+
+  /**
+   * Complete one model turn, streaming deltas to the onStream callback when configured
+   */
+  private async completeTurn(
+    ctx: RunContext,
+    request: CompletionRequest,
+    iteration: number,
+    signal?: AbortSignal,
+    onStream = this.config.onStream
+  ): Promise<CompletionResponse> {
+    const domain = this.domainManager.getCurrentDomainId();
+    if (!onStream) {
+      return this.router.complete(request, ctx, { signal, domain });
+    }
+
+    for await (const event of this.router.completeStream(request, ctx, { signal, domain })) {
+      if (event.type === 'done') return event.response;
+      onStream(event, iteration);
+    }
+    throw new Error('Stream ended without a response');
+  }
+
+  /**
+   * Execute tool calls from one assistant turn.
+   * Consecutive read-only calls are batched and run concurrently up to the
+   * configured limit; any mutating call waits for everything before it.
+   */
+  private async executeToolCalls(ctx: RunContext, calls: PendingToolCall[], signal?: AbortSignal): Promise<ExecutedToolCall[]> {
+    const results: ExecutedToolCall[] = new Array(calls.length);
+    const limit = this.config.toolConcurrency!;
+
+    let i = 0;
+    while (i < calls.length) {
+      let j = i;
+      if (limit > 1) {
+        while (j < calls.length && isReadOnlyToolCall(calls[j].name, calls[j].args)) j++;
+      }
+
+      if (j > i + 1) {
+        const batch = calls.slice(i, j);
+        const batchResults = await mapWithConcurrency(batch, limit, call => this.executeToolCall(ctx, call, signal));
+        batchResults.forEach((r, k) => { results[i + k] = r; });
+        i = j;
+      } else {
+        results[i] = await this.executeToolCall(ctx, calls[i], signal);
+        i++;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Execute one call and record its (possibly truncated) result for checkpoint recovery
+   */
+  private async executeToolCall(ctx: RunContext, call: PendingToolCall, signal?: AbortSignal): Promise<ExecutedToolCall> {
+    if (this.config.verbose) {
+      console.log(`[Tool] ${call.name}:`, JSON.stringify(call.args, null, 2));
+    }
+
+    const result = await this.checkPolicy(ctx, call, signal) ?? (call.name === 'delegate'
+      ? await this.delegate(ctx, call.args, signal)
+      : await executeTool(ctx, call.name, call.name === 'retrieve_output' ? this.contextManager.clampRetrieve(call.args) : call.args, { signal, domain: this.domainManager.getCurrentDomainId(), router: this.router }));
+
+    if (this.config.verbose) {
+      console.log(`[Result] ${call.name} ${result.success ? 'OK' : 'ERROR'}:`, 
+        result.success ? JSON.stringify(result.output).slice(0, 200) : result.error);
+    }
+
+    // Large outputs are truncated behind a handle
+    const content = await this.contextManager.prepareToolResult(
+      ctx,
+      call.name,
+      JSON.stringify(result.success ? result.output : { error: result.error, policy: result.policy }),
+    );
+    await recordToolResult(ctx.runId, call.id, content)
+      .catch(e => console.warn(`[Agent] Could not record tool result: ${e.message}`));
+
+    const media = result.attachments?.length ? await this.contextManager.storeMedia(ctx, result.attachments) : [];
+    return { result, content, media };
+  }
+
+  /**
+   * Central guardrail check for a tool call in the current domain. Calls that need approval
+   * wait for a human to answer. Returns the result to send back instead of executing, or
+   * null when the call may run.
+   */
+  private async checkPolicy(ctx: RunContext, call: PendingToolCall, signal?: AbortSignal): Promise<ToolResult | null> {
+    const domain = this.domainManager.getCurrentDomainId();
+    const decision = evaluateToolPolicy({
+      tool: call.name,
+      args: call.args,
+      domain,
+      autonomyLevel: this.autonomyLevel(),
+    });
+    if (decision.verdict === 'ALLOW') return null;
+
+    await auditEvent(ctx, decision.verdict === 'DENY' ? 'POLICY_DENY' : 'POLICY_APPROVAL_REQUIRED', {
+      tool: call.name,
+      args: call.args,
+      domain,
+      reason: decision.reason,
+      rule: decision.rule,
+    });
+
+    if (decision.verdict === 'DENY') {
+      return {
+        success: false,
+        output: null,
+        error: `Denied by policy: ${decision.reason}. Do not retry this call; choose another approach.`,
+        policy: decision,
+      };
+    }
+
+    const outcome = await getNotificationManager().requestApproval(
+      `${call.name} ${JSON.stringify(call.args).slice(0, 200)}`,
+      `${decision.reason} (domain: ${domain})`,
+      'high',
+      this.config.approvalTimeoutMs,
+      ctx,
+      { key: approvalKey(ctx.runId, call.name, call.args, call.id), tool: call.name, args: call.args, rule: decision.rule, signal },
+    );
+    if (outcome.approved) return null;
+
+    const answer = outcome.timedOut ? 'no one answered the approval request in time' : `a human declined it${outcome.comment ? ` (${outcome.comment})` : ''}`;
+    return {
+      success: false,
+      output: null,
+      error: `Not executed: ${decision.reason} needs approval and ${answer}. Do not retry this call; choose another approach.`,
+      policy: decision,
+    };
+  }
+
+  /**
+   * The current domain's autonomy level, capped by maxAutonomy
+   */
+  private autonomyLevel(): number {
+    return Math.min(this.domainManager.getAutonomyLevel(), this.config.maxAutonomy ?? 1);
+  }
+
+  /**
+   * Run a sub-agent in another domain for the delegate tool. The child shares this loop's
+   * router, gets a budget capped by what remains of this run's, and is journaled as an
+   * entry of this run so that rolling this run back also rolls back the child.
+   */
+  private async delegate(ctx: RunContext, args: Record<string, any>, signal?: AbortSignal): Promise<ToolResult> {
+    const domain = args.domain as DomainId;
+    if (!(domain in ALL_BRAINS)) {
+      return { success: false, output: null, error: `Unknown domain: ${args.domain}` };
+    }
+    if (typeof args.objective !== 'string' || !args.objective.trim()) {
+      return { success: false, output: null, error: 'objective is required' };
+    }
+
+    let tools = this.tools;
+    if (Array.isArray(args.tools)) {
+      const unknown = args.tools.filter((name: string) => !this.tools.some(t => t.name === name));
+      if (unknown.length > 0) {
+        return { success: false, output: null, error: `Unknown tools: ${unknown.join(', ')}` };
+      }
+      tools = this.tools.filter(t => args.tools.includes(t.name) || DELEGATE_BASE_TOOLS.includes(t.name));
+    }
+
+    const budget = this.childBudget(ctx.runId, args);
+    if (budget.exceeded) {
+      return { success: false, output: null, error: budget.exceeded };
+    }
+
+    const objective = typeof args.context === 'string' && args.context.trim()
+      ? `${args.objective}\n\n## Context from the delegating run\n${args.context}`
+      : args.objective;
+    const childCtx: RunContext = {
+      runId: `${ctx.runId}-sub-${Math.random().toString(36).slice(2, 8)}`,
+      objective: { text: objective },
+      createdAt: Date.now(),
+      parentRunId: ctx.runId,
+      rootRunId: ctx.rootRunId ?? ctx.runId,
+    };
+
+    const child = new AgentLoop(this.router, {
+      maxIterations: Math.min(args.maxIterations ?? DEFAULT_DELEGATE_ITERATIONS, this.config.maxIterations!),
+      maxToolCalls: this.config.maxToolCalls,
+      toolConcurrency: this.config.toolConcurrency,
+      systemPrompt: this.config.systemPrompt,
+      context: this.config.context,
+      verbose: this.config.verbose,
+      tools,
+      domain,
+      autoDomain: false,
+      budget: budget.limits,
+      maxDelegationDepth: this.config.maxDelegationDepth! - 1,
+      approvalTimeoutMs: this.config.approvalTimeoutMs,
+      // Delegating must not raise what may run without approval
+      maxAutonomy: this.autonomyLevel(),
+    });
+
+    await auditEvent(ctx, 'DELEGATE_START', {
+      childRunId: childCtx.runId,
+      domain,
+      objective: args.objective,
+      tools: Array.isArray(args.tools) ? tools.map(t => t.name) : 'all',
+      budget: budget.limits,
+    });
+    await journalSubagentRun(ctx.runId, childCtx.runId, domain, args.objective)
+      .catch(e => console.warn(`[Agent] Could not journal sub-agent run: ${e.message}`));
+
+    let result: AgentResult;
+    try {
+      result = await child.run(childCtx, objective, { signal });
+    } catch (error: any) {
+      this.router.addRunUsage(ctx.runId, this.router.getUsage(childCtx.runId));
+      this.router.releaseRun(childCtx.runId);
+      await auditEvent(ctx, 'DELEGATE_END', { childRunId: childCtx.runId, domain, status: 'error', error: error.message });
+      return { success: false, output: null, error: `Sub-agent ${childCtx.runId} failed: ${error.message}` };
+    }
+
+    // The child's spending counts against this run's budget from here on
+    this.router.addRunUsage(ctx.runId, result.usage);
+
+    await auditEvent(ctx, 'DELEGATE_END', {
+      childRunId: childCtx.runId,
+      domain,
+      status: result.status,
+      iterations: result.iterations,
+      toolCalls: result.toolCalls,
+      costUsd: result.usage.costUsd,
+      totalTokens: result.usage.totalTokens,
+    });
+
+    return {
+      success: true,
+      output: {
+        runId: childCtx.runId,
+        domain,
+        status: result.status,
+        summary: result.completion?.summary ?? result.finalResponse,
+        deliverables: result.completion?.deliverables ?? [],
+        iterations: result.iterations,
+        toolCalls: result.toolCalls,
+        usage: { totalTokens: result.usage.totalTokens, costUsd: result.usage.costUsd },
+        errors: result.errors,
+      },
+    };
+  }
+
+  /**
+   * Budget for a sub-agent: the limits it asked for, capped by what this run has left
+   */
+  private childBudget(runId: string, args: Record<string, any>): { limits?: AgentConfig['budget']; exceeded?: string } {
+    const exceeded = this.checkBudget(runId);
+    if (exceeded) return { exceeded };
+
+    const usage = this.router.getUsage(runId);
+    const own = this.config.budget;
+    const cap = (requested: unknown, limit: number | undefined, used: number): number | undefined => {
+      const remaining = limit !== undefined ? limit - used : undefined;
+      const asked = typeof requested === 'number' && requested > 0 ? requested : undefined;
+      if (asked === undefined) return remaining;
+      return remaining === undefined ? asked : Math.min(asked, remaining);
+    };
+
+    const maxCostUsd = cap(args.maxCostUsd, own?.maxCostUsd, usage.costUsd);
+    const maxTokens = cap(args.maxTokens, own?.maxTokens, usage.totalTokens);
+    if (maxCostUsd === undefined && maxTokens === undefined) return {};
+    return { limits: { maxCostUsd, maxTokens } };
+  }
+
+  /**
+   * Normalize complete_task arguments into a completion report
+   */
+  private parseCompletion(args: Record<string, any>): CompletionReport {
+    const statuses: CompletionStatus[] = ['complete', 'blocked', 'failed'];
+    const status = statuses.includes(args.status) ? args.status as CompletionStatus : 'failed';
+    const deliverables: Deliverable[] = Array.isArray(args.deliverables)
+      ? args.deliverables
+          .filter((d: any) => d && typeof d.ref === 'string')
+          .map((d: any) => ({ type: d.type || 'other', ref: d.ref, description: d.description }))
+      : [];
+
+    return {
+      status,
+      summary: typeof args.summary === 'string' ? args.summary : '',
+      deliverables,
+    };
   }
 
   /**
    * Interactive mode - single turn
    */
-  async chat(ctx: RunContext, messages: Message[]): Promise<CompletionResponse> {
-    return this.router.complete({
+  async chat(ctx: RunContext, messages: Message[], options?: { onStream?: (delta: StreamDelta) => void }): Promise<CompletionResponse> {
+    return this.completeTurn(ctx, {
       messages: [
         { role: 'system', content: this.config.systemPrompt! },
         ...messages,
       ],
       tools: this.tools,
-    }, ctx);
+    }, 0, undefined, options?.onStream ?? this.config.onStream);
   }
 }
 
@@ -305,7 +824,7 @@ export function createAgentLoop(config?: AgentConfig): AgentLoop {
 /**
  * Quick run - create context and run objective
  */
-export async function runObjective(objective: string, config?: AgentConfig & { useMCP?: boolean; enhancePrompt?: boolean }): Promise<AgentResult> {
+export async function runObjective(objective: string, config?: AgentConfig & { useMCP?: boolean; enhancePrompt?: boolean; runId?: string }): Promise<AgentResult> {
   // Enhance prompt with implicit requirements (unless disabled)
   let finalObjective = objective;
   if (config?.enhancePrompt !== false) {
@@ -323,7 +842,7 @@ export async function runObjective(objective: string, config?: AgentConfig & { u
   }
 
   const ctx: RunContext = {
-    runId: `run-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    runId: config?.runId || `run-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
     objective: { text: finalObjective },
     createdAt: Date.now(),
   };
@@ -340,5 +859,56 @@ export async function runObjective(objective: string, config?: AgentConfig & { u
     getMCPManager().setRunId(ctx.runId);
   }
   
-  return agent.run(ctx, finalObjective);
+  return runRegistered(agent, ctx, finalObjective);
+}
+
+/**
+ * Continue a run from its last checkpoint (e.g. after a crash or restart)
+ */
+export async function resumeObjective(runId: string, config?: AgentConfig & { useMCP?: boolean }): Promise<AgentResult> {
+  const checkpoint = await loadCheckpoint(runId);
+  if (!checkpoint) {
+    throw new Error(`No checkpoint found for run ${runId}`);
+  }
+  if (checkpoint.status === 'finished') {
+    throw new Error(`Run ${runId} already finished`);
+  }
+  const live = getRunRegistry().get(runId);
+  if (live && isRunActive(live)) {
+    throw new Error(`Run ${runId} is still ${live.state} in process ${live.pid}`);
+  }
+
+  const ctx = contextFromCheckpoint(checkpoint);
+  await initJournal(ctx.runId);
+
+  const agent = createAgentLoop({
+    ...checkpoint.config,
+    ...config,
+    domain: checkpoint.domain,
+    autoDomain: false,
+  });
+
+  if (config?.useMCP !== false) {
+    await agent.initMCP();
+    getMCPManager().setRunId(ctx.runId);
+  }
+
+  return runRegistered(agent, ctx, checkpoint.objective, checkpoint);
+}
+
+/**
+ * Register the run so it can be paused, resumed or cancelled while in flight
+ */
+async function runRegistered(agent: AgentLoop, ctx: RunContext, objective: string, resumeFrom?: RunCheckpoint): Promise<AgentResult> {
+  const registry = getRunRegistry();
+  const signal = registry.register(ctx);
+
+  try {
+    const result = await agent.run(ctx, objective, { signal, resumeFrom });
+    await registry.finish(ctx.runId, result.status === 'cancelled' ? 'cancelled' : result.success ? 'completed' : 'failed');
+    return result;
+  } catch (error) {
+    await registry.finish(ctx.runId, signal.aborted ? 'cancelled' : 'failed');
+    throw error;
+  }
 }
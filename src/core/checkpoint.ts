@@ -0,0 +1,155 @@
+/**
+ * Run Checkpoints
+ * Persists agent loop state so a run can continue after a process restart
+ */
+
+import { promises as fs } from 'fs';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import type { RunContext, RunId } from './types.js';
+import type { Message } from '../ai/types.js';
+import type { DomainId } from '../domains/types.js';
+import type { RunUsage } from '../ai/pricing.js';
+
+const CHECKPOINT_DIR = '.data/checkpoints';
+
+export interface RunCheckpoint {
+  runId: RunId;
+  objective: string;
+  createdAt: number;
+  updatedAt: number;
+  status: 'running' | 'finished';
+  domain: DomainId;
+  messages: Message[];
+  iterations: number;
+  toolCalls: number;
+  errors: string[];
+  finalResponse: string;
+  usage?: RunUsage;
+  config: {
+    maxIterations?: number;
+    maxToolCalls?: number;
+    toolConcurrency?: number;
+    budget?: { maxCostUsd?: number; maxTokens?: number };
+  };
+  /** Tool results recorded by tool_call_id, including ones not yet folded into messages */
+  toolResults: Record<string, string>;
+}
+
+function checkpointPath(runId: RunId): string {
+  return join(CHECKPOINT_DIR, `${runId}.json`);
+}
+
+function toolLogPath(runId: RunId): string {
+  return join(CHECKPOINT_DIR, `${runId}.tools.jsonl`);
+}
+
+/**
+ * Write the loop state for a run (after each iteration)
+ */
+export async function saveCheckpoint(checkpoint: Omit<RunCheckpoint, 'updatedAt' | 'toolResults'>): Promise<void> {
+  await fs.mkdir(CHECKPOINT_DIR, { recursive: true });
+  const path = checkpointPath(checkpoint.runId);
+  // Write then rename so a crash never leaves a half-written checkpoint
+  await fs.writeFile(`${path}.tmp`, JSON.stringify({ ...checkpoint, updatedAt: Date.now() }));
+  await fs.rename(`${path}.tmp`, path);
+}
+
+/**
+ * Record a single tool result as soon as it is available
+ */
+export async function recordToolResult(runId: RunId, toolCallId: string, content: string): Promise<void> {
+  await fs.mkdir(CHECKPOINT_DIR, { recursive: true });
+  await fs.appendFile(toolLogPath(runId), JSON.stringify({ id: toolCallId, content }) + '\n');
+}
+
+/**
+ * Load a checkpoint with all recorded tool results
+ */
+export async function loadCheckpoint(runId: RunId): Promise<RunCheckpoint | null> {
+  if (!/^[\w.-]+$/.test(runId) || !existsSync(checkpointPath(runId))) {
+    return null;
+  }
+
+  const checkpoint = JSON.parse(await fs.readFile(checkpointPath(runId), 'utf-8')) as RunCheckpoint;
+  checkpoint.toolResults = {};
+
+  try {
+    const log = await fs.readFile(toolLogPath(runId), 'utf-8');
+    for (const line of log.split('\n').filter(l => l)) {
+      try {
+        const { id, content } = JSON.parse(line);
+        checkpoint.toolResults[id] = content;
+      } catch {
+        // A torn final line from a crash - ignore it
+      }
+    }
+  } catch {}
+
+  return checkpoint;
+}
+
+/**
+ * List checkpoints, most recently updated first
+ */
+export async function listCheckpoints(): Promise<Array<Pick<RunCheckpoint, 'runId' | 'objective' | 'status' | 'iterations' | 'updatedAt'>>> {
+  if (!existsSync(CHECKPOINT_DIR)) return [];
+
+  const files = (await fs.readdir(CHECKPOINT_DIR)).filter(f => f.endsWith('.json'));
+  const summaries = [];
+  for (const file of files) {
+    try {
+      const c = JSON.parse(await fs.readFile(join(CHECKPOINT_DIR, file), 'utf-8')) as RunCheckpoint;
+      summaries.push({ runId: c.runId, objective: c.objective, status: c.status, iterations: c.iterations, updatedAt: c.updatedAt });
+    } catch {}
+  }
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Rebuild the run context from a checkpoint
+ */
+export function contextFromCheckpoint(checkpoint: RunCheckpoint): RunContext {
+  return {
+    runId: checkpoint.runId,
+    objective: { text: checkpoint.objective },
+    createdAt: checkpoint.createdAt,
+  };
+}
+
+/**
+ * Fill in results for tool calls of the last assistant turn that have no result message yet.
+ * Recorded results are reused as-is; calls that never recorded a result are reported as
+ * interrupted instead of being executed again.
+ */
+export function reconcileToolCalls(checkpoint: RunCheckpoint): { messages: Message[]; reused: string[]; interrupted: string[] } {
+  const messages = [...checkpoint.messages];
+  const reused: string[] = [];
+  const interrupted: string[] = [];
+
+  const lastAssistantIdx = messages.map(m => m.role).lastIndexOf('assistant');
+  const lastAssistant = messages[lastAssistantIdx];
+  if (!lastAssistant?.tool_calls?.length) {
+    return { messages, reused, interrupted };
+  }
+
+  const answered = new Set(messages.slice(lastAssistantIdx + 1).filter(m => m.role === 'tool').map(m => m.tool_call_id));
+  for (const tc of lastAssistant.tool_calls) {
+    if (answered.has(tc.id)) continue;
+
+    const recorded = checkpoint.toolResults[tc.id];
+    if (recorded !== undefined) {
+      messages.push({ role: 'tool', content: recorded, tool_call_id: tc.id });
+      reused.push(tc.id);
+    } else {
+      messages.push({
+        role: 'tool',
+        content: JSON.stringify({ error: 'Interrupted by a restart before a result was recorded. Verify the current state before retrying this action.' }),
+        tool_call_id: tc.id,
+      });
+      interrupted.push(tc.id);
+    }
+  }
+
+  return { messages, reused, interrupted };
+}
@@ -0,0 +1,282 @@
+/**
+ * Context Window Management
+ * Keeps agent conversation history within the model's token budget
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { RunContext } from './types.js';
+import type { ContentPart, Message, ProviderName } from '../ai/types.js';
+import type { AIRouter } from '../ai/router.js';
+import { contentLength, contentText } from '../ai/content.js';
+import { auditEvent } from '../audit/logger.js';
+
+const TOOL_OUTPUT_DIR = '.data/tool-outputs';
+
+/**
+ * Approximate context window per provider (tokens)
+ */
+export const DEFAULT_CONTEXT_BUDGETS: Record<string, number> = {
+  openai: 128000,
+  anthropic: 200000,
+  perplexity: 127000,
+  gemini: 1000000,
+  // Self-hosted models commonly run with small windows; override via budgets
+  'openai-compatible': 32000,
+  'cli-claude': 200000,
+  'cli-gemini': 1000000,
+  'cli-codex': 128000,
+};
+
+const FALLBACK_BUDGET = 100000;
+
+export interface ContextConfig {
+  /** Token budget overrides per provider */
+  budgets?: Partial<Record<ProviderName | string, number>>;
+  /** Tool outputs longer than this are truncated and stored behind a handle */
+  maxToolOutputChars?: number;
+  /** Fraction of the budget at which older turns are summarized (0-1) */
+  compactThreshold?: number;
+  /** Number of most recent messages kept verbatim when compacting */
+  keepRecent?: number;
+}
+
+const SUMMARY_PROMPT = `You are compressing the working history of an autonomous agent so it can keep going with less context.
+
+Summarize the conversation below. Keep:
+- Decisions made and why
+- Files, paths, URLs, IDs and other concrete references
+- Tool results that later steps depend on
+- Errors encountered and how they were handled
+- What remains to be done
+
+Be concise and factual. Do not invent information.`;
+
+/**
+ * Rough token estimate (~4 characters per token)
+ */
+export function estimateTokens(messages: Message[]): number {
+  let chars = 0;
+  for (const m of messages) {
+    chars += contentLength(m.content);
+    for (const tc of m.tool_calls || []) {
+      chars += tc.function.name.length + tc.function.arguments.length;
+    }
+  }
+  return Math.ceil(chars / 4);
+}
+
+export class ContextManager {
+  private router: AIRouter;
+  private config: Required<Omit<ContextConfig, 'budgets'>> & { budgets: Record<string, number> };
+  private handleCounter = 0;
+
+  constructor(router: AIRouter, config?: ContextConfig) {
+    this.router = router;
+    this.config = {
+      maxToolOutputChars: 8000,
+      compactThreshold: 0.75,
+      keepRecent: 10,
+      ...config,
+      budgets: { ...DEFAULT_CONTEXT_BUDGETS, ...(config?.budgets as Record<string, number>) },
+    };
+  }
+
+  /**
+   * Token budget for a provider
+   */
+  getBudget(provider: ProviderName | string): number {
+    return this.config.budgets[provider] ?? FALLBACK_BUDGET;
+  }
+
+  /**
+   * Truncate a large tool output, storing the full content behind a retrievable handle
+   */
+  async prepareToolResult(ctx: RunContext, toolName: string, content: string): Promise<string> {
+    const limit = this.config.maxToolOutputChars;
+    // Reads from a stored output were explicitly requested at that size
+    if (content.length <= limit || toolName === 'retrieve_output') return content;
+
+    const handle = `out-${Date.now()}-${++this.handleCounter}`;
+    await storeToolOutput(ctx.runId, handle, content);
+
+    await auditEvent(ctx, 'CONTEXT_TRUNCATE', {
+      tool: toolName,
+      handle,
+      originalChars: content.length,
+      keptChars: limit,
+    });
+
+    return JSON.stringify({
+      truncated: true,
+      handle,
+      totalChars: content.length,
+      preview: content.slice(0, limit),
+      note: `Output truncated. Use retrieve_output with handle "${handle}" and an offset to read the rest.`,
+    });
+  }
+
+  /**
+   * retrieve_output arguments with the slice length clamped to the truncation budget,
+   * since what it returns is passed on without truncating again
+   */
+  clampRetrieve(args: Record<string, any>): Record<string, any> {
+    const limit = this.config.maxToolOutputChars;
+    const length = Number(args.length);
+    return { ...args, length: Number.isFinite(length) && length > 0 ? Math.min(length, limit) : limit };
+  }
+
+  /**
+   * Store tool media behind handles so it reaches the model once rather than riding along in
+   * every later request and checkpoint. retrieve_output with a handle attaches it again.
+   */
+  async storeMedia(ctx: RunContext, parts: ContentPart[]): Promise<{ handle: string; part: ContentPart }[]> {
+    const stored: { handle: string; part: ContentPart }[] = [];
+    for (const part of parts) {
+      const handle = `media-${Date.now()}-${++this.handleCounter}`;
+      await storeToolOutput(ctx.runId, handle, JSON.stringify(part), 'json');
+      stored.push({ handle, part });
+    }
+    return stored;
+  }
+
+  /**
+   * Summarize older turns once the history crosses the compaction threshold.
+   * Returns the original array when no compaction was needed.
+   */
+  async compact(ctx: RunContext, messages: Message[], provider: ProviderName | string): Promise<Message[]> {
+    const budget = this.getBudget(provider);
+    const before = estimateTokens(messages);
+    if (before < budget * this.config.compactThreshold) return messages;
+
+    // Keep the system prompt and objective, summarize the middle, keep recent turns verbatim.
+    // Never start the recent window on a tool result, it must follow its assistant tool call.
+    const head = messages.slice(0, 2);
+    let cut = Math.max(2, messages.length - this.config.keepRecent);
+    while (cut < messages.length && messages[cut].role === 'tool') cut++;
+
+    const middle = messages.slice(2, cut);
+    if (middle.length === 0) return messages;
+    const recent = messages.slice(cut);
+
+    // Summarizing cannot get under the threshold when the messages it keeps are already over it
+    const kept = estimateTokens([...head, ...recent]);
+    if (kept >= budget * this.config.compactThreshold) {
+      await auditEvent(ctx, 'CONTEXT_COMPACT_SKIP', { provider, budget, tokensBefore: before, tokensKept: kept });
+      return messages;
+    }
+
+    let summary: string;
+    let summarizedBy: string;
+    try {
+      const response = await this.router.complete({
+        messages: [
+          { role: 'system', content: SUMMARY_PROMPT },
+          { role: 'user', content: this.renderTranscript(middle) },
+        ],
+        temperature: 0.2,
+      }, ctx);
+      summary = response.message.content;
+      summarizedBy = response.provider;
+    } catch (error: any) {
+      // Summarization failed - drop the middle turns but leave a marker
+      summary = `[${middle.length} earlier messages were removed to fit the context window]`;
+      summarizedBy = 'none';
+    }
+
+    const compacted: Message[] = [
+      ...head,
+      { role: 'user', content: `Summary of earlier work on this objective:\n\n${summary}` },
+      ...recent,
+    ];
+
+    await auditEvent(ctx, 'CONTEXT_COMPACT', {
+      provider,
+      budget,
+      tokensBefore: before,
+      tokensAfter: estimateTokens(compacted),
+      summarizedMessages: middle.length,
+      summarizedBy,
+    });
+
+    return compacted;
+  }
+
+  private renderTranscript(messages: Message[]): string {
+    return messages.map(m => {
+      if (m.role === 'tool') return `[tool result ${m.tool_call_id || ''}]\n${contentText(m.content)}`;
+      const calls = m.tool_calls?.map(tc => `[call ${tc.function.name} ${tc.function.arguments}]`).join('\n');
+      return `[${m.role}]\n${contentText(m.content)}${calls ? '\n' + calls : ''}`;
+    }).join('\n\n');
+  }
+}
+
+/**
+ * Store a full tool output for later retrieval
+ */
+async function storeToolOutput(runId: string, handle: string, content: string, ext: 'txt' | 'json' = 'txt'): Promise<void> {
+  const dir = join(TOOL_OUTPUT_DIR, runId);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(join(dir, `${handle}.${ext}`), content);
+}
+
+/**
+ * Whether a handle refers to stored media rather than text output
+ */
+export function isMediaHandle(handle: string): boolean {
+  return /^media-[\w-]+$/.test(handle);
+}
+
+/**
+ * Load media stored by storeMedia
+ */
+export async function loadToolMedia(runId: string, handle: string): Promise<ContentPart> {
+  if (!isMediaHandle(handle)) {
+    throw new Error(`Invalid media handle: ${handle}`);
+  }
+  try {
+    return JSON.parse(await fs.readFile(join(TOOL_OUTPUT_DIR, runId, `${handle}.json`), 'utf-8'));
+  } catch {
+    throw new Error(`Media handle not found: ${handle}`);
+  }
+}
+
+/**
+ * A message with its images and files replaced by text placeholders, for history that
+ * should not carry the media itself
+ */
+export function withoutMedia(message: Message): Message {
+  if (typeof message.content === 'string' || message.content.every(p => p.type === 'text')) return message;
+  return { ...message, content: contentText(message.content) };
+}
+
+/**
+ * Read a slice of a stored tool output
+ */
+export async function loadToolOutput(
+  runId: string,
+  handle: string,
+  offset: number = 0,
+  length: number = 8000
+): Promise<{ handle: string; offset: number; content: string; totalChars: number; hasMore: boolean }> {
+  if (!/^[\w-]+$/.test(handle)) {
+    throw new Error(`Invalid output handle: ${handle}`);
+  }
+
+  let content: string;
+  try {
+    content = await fs.readFile(join(TOOL_OUTPUT_DIR, runId, `${handle}.txt`), 'utf-8');
+  } catch {
+    throw new Error(`Output handle not found: ${handle}`);
+  }
+
+  offset = Math.max(0, Math.floor(offset) || 0);
+  const slice = content.slice(offset, offset + Math.max(1, Math.floor(length) || 8000));
+  return {
+    handle,
+    offset,
+    content: slice,
+    totalChars: content.length,
+    hasMore: offset + slice.length < content.length,
+  };
+}
@@ -1,64 +1,189 @@
-import { RunContext, PlanStep } from './types.js';
+import { RunContext, PlanStep, StepId } from './types.js';
 import { execFilesystem, execTerminal, execEditor } from '../execution/index.js';
+import { execVerify, execPolicy, execAudit, execCustom } from '../execution/steps.js';
 import { preCheck, postValidate } from '../guardrails/hooks.js';
 import { auditEvent } from '../audit/logger.js';
 import { withRetry } from './retry.js';
 import { emitRunReport } from './report.js';
 
-function topoSort(steps: PlanStep[]): PlanStep[]{
-  const byId=new Map<string,PlanStep>(); steps.forEach(s=>byId.set(s.id,s));
-  const indeg=new Map<string,number>(); steps.forEach(s=>indeg.set(s.id,0));
-  steps.forEach(s=> (s.deps||[]).forEach(d=> indeg.set(s.id, (indeg.get(s.id)||0)+1)) );
-  const q:PlanStep[]=[]; indeg.forEach((deg,id)=>{ if(deg===0) q.push(byId.get(id)!); });
-  const out:PlanStep[]=[]; while(q.length){ const n=q.shift()!; out.push(n); (n.deps||[]).forEach(()=>{}); steps.forEach(s=>{ if((s.deps||[]).includes(n.id)){ const nd=(indeg.get(s.id)||0)-1; indeg.set(s.id,nd); if(nd===0) q.push(s); } }); }
-  return out.length?out:steps; // fallback to given order
+const DEFAULT_STEP_CONCURRENCY = 4;
+
+export class StepValidationError extends Error {
+  code = 'VALIDATION_FAIL';
+  constructor(public issues: string[]) {
+    super(`Invalid steps: ${issues.join('; ')}`);
+    this.name = 'StepValidationError';
+  }
 }
 
-export async function runSteps(ctx: RunContext, steps: PlanStep[]) {
-  const ordered = topoSort(steps);
-  let ok=0, retries=0, fallbacks=0; const startedAt=Date.now();
-  for (const step of ordered) {
-    await auditEvent(ctx, 'STEP_START', { step });
-    const runner = async () => {
-      await preCheck(ctx, step);
-      let result: any;
-      if (step.type === 'filesystem') result = await execFilesystem(ctx, step.params);
-      else if (step.type === 'terminal') result = await execTerminal(ctx, step.params);
-      else if (step.type === 'editor') result = await execEditor(ctx, step.params);
-      else result = { ok: true };
-      await postValidate(ctx, step, result);
-      return result;
-    };
+/**
+ * Structural problems that make a step graph unrunnable: duplicate ids,
+ * dependencies on unknown steps, and dependency cycles
+ */
+export function validateSteps(steps: PlanStep[]): string[] {
+  const issues: string[] = [];
+  const ids = new Set<StepId>();
+  for (const step of steps) {
+    if (ids.has(step.id)) issues.push(`Duplicate step id: ${step.id}`);
+    ids.add(step.id);
+  }
+  for (const step of steps) {
+    for (const dep of step.deps || []) {
+      if (!ids.has(dep)) issues.push(`Step ${step.id} depends on unknown step: ${dep}`);
+    }
+  }
+  const cycle = findCycle(steps);
+  if (cycle) issues.push(`Circular dependency: ${cycle.join(' -> ')}`);
+  return issues;
+}
+
+/**
+ * First dependency cycle found among the steps, as a path of step ids
+ */
+function findCycle(steps: PlanStep[]): StepId[] | null {
+  const deps = new Map(steps.map(s => [s.id, s.deps || []]));
+  const state = new Map<StepId, 'visiting' | 'done'>();
+  const path: StepId[] = [];
+
+  const visit = (id: StepId): StepId[] | null => {
+    if (state.get(id) === 'done' || !deps.has(id)) return null;
+    if (state.get(id) === 'visiting') return [...path.slice(path.indexOf(id)), id];
+    state.set(id, 'visiting');
+    path.push(id);
+    for (const dep of deps.get(id)!) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+export interface StepResult {
+  stepId: StepId;
+  status: 'ok'|'failed'|'skipped';
+  result?: any;
+  error?: string;
+  /** Succeeded with fallbackParams */
+  fallback?: boolean;
+  /** Start relative to the beginning of the run; absent for skipped steps */
+  startedAtMs?: number;
+  durationMs?: number;
+}
 
+export interface StepsOutcome {
+  ok: boolean;
+  results: StepResult[];
+}
+
+async function executeStep(ctx: RunContext, step: PlanStep): Promise<any> {
+  await preCheck(ctx, step);
+  let result: any;
+  if (step.type === 'filesystem') result = await execFilesystem(ctx, step.params);
+  else if (step.type === 'terminal') result = await execTerminal(ctx, step.params);
+  else if (step.type === 'editor') result = await execEditor(ctx, step.params);
+  else if (step.type === 'verify') result = await execVerify(ctx, step.params);
+  else if (step.type === 'policy') result = await execPolicy(ctx, step.params);
+  else if (step.type === 'audit') result = await execAudit(ctx, step.params, step.id);
+  else if (step.type === 'custom') result = await execCustom(ctx, step.params);
+  else throw Object.assign(new Error(`Unknown step type: ${step.type}`), { code: 'VALIDATION_FAIL' });
+  // Executors report failures in the envelope rather than throwing; a step that declares
+  // an exit_code validator decides for itself which exit codes count as success
+  const judgesExitCode = typeof result?.exitCode === 'number' && step.validate?.some(v => v.type === 'exit_code');
+  if (result?.ok === false && !judgesExitCode) throw Object.assign(new Error(`${result.code}: ${result.error?.message || 'step failed'}`), { code: result.code });
+  await postValidate(ctx, step, result);
+  return result;
+}
+
+/**
+ * Execute the step DAG: steps whose dependencies have all succeeded run concurrently up
+ * to the limit. A failed step does not stop the run: steps that depend on it (directly
+ * or not) are skipped, independent branches still execute. Throws StepValidationError
+ * before running anything if the graph has duplicate ids, unknown dependencies or cycles.
+ */
+export async function runSteps(ctx: RunContext, steps: PlanStep[], options?: { concurrency?: number }): Promise<StepsOutcome> {
+  const issues = validateSteps(steps);
+  if (issues.length) {
+    await auditEvent(ctx, 'STEP_VALIDATION_FAIL', { issues });
+    throw new StepValidationError(issues);
+  }
+
+  const limit = Math.max(1, options?.concurrency ?? DEFAULT_STEP_CONCURRENCY);
+  let fallbacks=0; const startedAt=Date.now();
+  const done = new Map<StepId, StepResult>();
+  const pending = new Map(steps.map(s => [s.id, s]));
+  const running = new Set<Promise<void>>();
+
+  const runOne = async (step: PlanStep): Promise<StepResult> => {
+    const t0 = Date.now();
+    const timing = () => ({ startedAtMs: t0 - startedAt, durationMs: Date.now() - t0 });
+    await auditEvent(ctx, 'STEP_START', { step });
+    const retry = { attempts: step.retry?.attempts ?? 1, baseMs: step.retry?.baseMs, factor: step.retry?.factor, jitterPct: step.retry?.jitterPct };
     try{
-      const attempts = step.retry?.attempts ?? 1;
-      const res = await withRetry(runner, { attempts, baseMs: step.retry?.baseMs, factor: step.retry?.factor, jitterPct: step.retry?.jitterPct });
-      if(res?.ok) ok++;
+      const res = await withRetry(() => executeStep(ctx, step), retry);
+      await auditEvent(ctx, 'STEP_END', { step });
+      return { stepId: step.id, status: 'ok', result: res, ...timing() };
     }catch(e:any){
       // If denied and we have fallback params, try once more with fallback
       if(step.fallbackParams){
         await auditEvent(ctx,'FALLBACK_APPLY',{ stepId: step.id });
-        const original = step.params; step.params = step.fallbackParams; fallbacks++;
-        const attempts = step.retry?.attempts ?? 1;
+        fallbacks++;
+        const fallbackStep = { ...step, params: step.fallbackParams };
         try{
-          const res2 = await withRetry(async()=>{
-            await preCheck(ctx, step);
-            let result: any;
-            if (step.type === 'filesystem') result = await execFilesystem(ctx, step.params);
-            else if (step.type === 'terminal') result = await execTerminal(ctx, step.params);
-            else if (step.type === 'editor') result = await execEditor(ctx, step.params);
-            else result = { ok: true };
-            await postValidate(ctx, step, result);
-            return result;
-          }, { attempts, baseMs: step.retry?.baseMs, factor: step.retry?.factor, jitterPct: step.retry?.jitterPct });
-          if(res2?.ok) ok++;
-        }catch(e2){ await auditEvent(ctx,'STEP_FAIL',{ step, error: String(e2)}); throw e2; }
-        finally{ step.params = original; }
-      } else {
-        await auditEvent(ctx,'STEP_FAIL',{ step, error: String(e)}); throw e;
+          const res2 = await withRetry(() => executeStep(ctx, fallbackStep), retry);
+          await auditEvent(ctx, 'STEP_END', { step: fallbackStep });
+          return { stepId: step.id, status: 'ok', result: res2, fallback: true, ...timing() };
+        }catch(e2:any){
+          await auditEvent(ctx,'STEP_FAIL',{ step, error: String(e2)});
+          return { stepId: step.id, status: 'failed', error: e2?.message ?? String(e2), ...timing() };
+        }
       }
+      await auditEvent(ctx,'STEP_FAIL',{ step, error: String(e)});
+      return { stepId: step.id, status: 'failed', error: e?.message ?? String(e), ...timing() };
     }
-    await auditEvent(ctx, 'STEP_END', { step });
+  };
+
+  while (pending.size > 0 || running.size > 0) {
+    // Skip steps with a dependency that failed or was itself skipped; repeat so skips propagate
+    let skipped = true;
+    while (skipped) {
+      skipped = false;
+      for (const step of pending.values()) {
+        const blockedBy = (step.deps||[]).filter(d => done.has(d) && done.get(d)!.status !== 'ok');
+        if (!blockedBy.length) continue;
+        pending.delete(step.id);
+        done.set(step.id, { stepId: step.id, status: 'skipped', error: `Dependencies did not complete: ${blockedBy.join(', ')}` });
+        await auditEvent(ctx, 'STEP_SKIP', { stepId: step.id, blockedBy });
+        skipped = true;
+      }
+    }
+
+    // Start every step whose dependencies have succeeded, up to the limit
+    for (const step of [...pending.values()]) {
+      if (running.size >= limit) break;
+      if (!(step.deps||[]).every(d => done.get(d)?.status === 'ok')) continue;
+      pending.delete(step.id);
+      const task: Promise<void> = runOne(step)
+        .then(result => { done.set(step.id, result); })
+        .finally(() => { running.delete(task); });
+      running.add(task);
+    }
+
+    if (running.size === 0) break;
+    await Promise.race(running);
   }
-  await emitRunReport(ctx, ordered.length, ok, retries, fallbacks, startedAt);
+
+  // Report in plan order, whatever order steps finished in
+  const results = steps.map(s => done.get(s.id)!);
+  const ok = results.filter(r => r.status === 'ok').length;
+  const timings = results.map(r => ({ stepId: r.stepId, status: r.status, startedAtMs: r.startedAtMs, durationMs: r.durationMs }));
+  await emitRunReport(ctx, steps.length, ok, 0, fallbacks, startedAt, undefined, timings);
+  return { ok: ok === steps.length, results };
 }
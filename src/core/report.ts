@@ -1,8 +1,10 @@
 import { auditEvent } from '../audit/logger.js';
 import type { RunContext } from './types.js';
-export interface RunReport { summary: string; timings: Record<string,number>; stats: Record<string,number>; generatedAt: string }
-export async function emitRunReport(ctx:RunContext, steps:number, ok:number, retries:number, fallbacks:number, startedAt:number){
-  const report: RunReport = { summary: 'Run completed', timings: { totalMs: Date.now()-startedAt }, stats: { steps, ok, retries, fallbacks }, generatedAt: new Date().toISOString() };
+import type { RunUsage } from '../ai/pricing.js';
+export interface StepTiming { stepId: string; status: string; startedAtMs?: number; durationMs?: number }
+export interface RunReport { summary: string; timings: Record<string,number>; stats: Record<string,number>; usage?: RunUsage; steps?: StepTiming[]; generatedAt: string }
+export async function emitRunReport(ctx:RunContext, steps:number, ok:number, retries:number, fallbacks:number, startedAt:number, usage?:RunUsage, stepTimings?:StepTiming[]){
+  const report: RunReport = { summary: 'Run completed', timings: { totalMs: Date.now()-startedAt }, stats: { steps, ok, retries, fallbacks }, usage, steps: stepTimings, generatedAt: new Date().toISOString() };
   await auditEvent(ctx,'RUN_REPORT', { report });
   console.log(JSON.stringify({ runId: ctx.runId, report }, null, 2));
 }
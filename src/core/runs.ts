@@ -0,0 +1,283 @@
+/**
+ * Run Registry
+ * Tracks in-flight agent runs and lets them be paused, resumed or cancelled,
+ * from this process or from another one (CLI) via control files in .data
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync, readdirSync, unlinkSync, renameSync } from 'fs';
+import { join } from 'path';
+import type { RunContext, RunId } from './types.js';
+import { auditEvent } from '../audit/logger.js';
+
+// One file per run, written only by the process that owns the run
+const STATE_DIR = '.data/runs';
+const CONTROL_DIR = '.data/run-control';
+const POLL_MS = 1000;
+// Finished runs are kept this long, and at most this many
+const FINISHED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_FINISHED_RUNS = 200;
+
+export type RunState = 'running' | 'paused' | 'cancelled' | 'completed' | 'failed';
+export type RunAction = 'cancel' | 'pause' | 'resume';
+
+export interface RunInfo {
+  runId: RunId;
+  objective: string;
+  state: RunState;
+  pid: number;
+  startedAt: number;
+  updatedAt: number;
+}
+
+export interface RunControlResult {
+  ok: boolean;
+  runId: RunId;
+  state?: RunState;
+  /** True when the request was queued for the process that owns the run */
+  queued?: boolean;
+  error?: string;
+}
+
+interface LocalRun {
+  ctx: RunContext;
+  info: RunInfo;
+  controller: AbortController;
+  resumeWaiters: Array<() => void>;
+}
+
+const TRANSITIONS: Record<RunAction, { from: RunState[]; to: RunState }> = {
+  pause: { from: ['running'], to: 'paused' },
+  resume: { from: ['paused'], to: 'running' },
+  cancel: { from: ['running', 'paused'], to: 'cancelled' },
+};
+
+/**
+ * Whether a run is running or paused in a process that still exists
+ */
+export function isRunActive(info: RunInfo): boolean {
+  if (info.state !== 'running' && info.state !== 'paused') return false;
+  if (info.pid === process.pid) return true;
+  try {
+    process.kill(info.pid, 0);
+    return true;
+  } catch (e: any) {
+    // EPERM means the process exists but belongs to another user
+    return e?.code === 'EPERM';
+  }
+}
+
+function statePath(runId: RunId): string | null {
+  return /^[\w.-]+$/.test(runId) ? join(STATE_DIR, `${runId}.json`) : null;
+}
+
+function loadRun(runId: RunId): RunInfo | undefined {
+  const path = statePath(runId);
+  if (!path) return undefined;
+  try { return JSON.parse(readFileSync(path, 'utf8')); } catch { return undefined; }
+}
+
+function loadRuns(): RunInfo[] {
+  if (!existsSync(STATE_DIR)) return [];
+  const runs: RunInfo[] = [];
+  for (const file of readdirSync(STATE_DIR)) {
+    if (!file.endsWith('.json')) continue;
+    try { runs.push(JSON.parse(readFileSync(join(STATE_DIR, file), 'utf8'))); } catch {}
+  }
+  return runs;
+}
+
+function saveRun(info: RunInfo) {
+  const path = statePath(info.runId);
+  if (!path) return;
+  mkdirSync(STATE_DIR, { recursive: true });
+  // Write then rename so readers never see a half-written file
+  writeFileSync(`${path}.tmp`, JSON.stringify(info, null, 2));
+  renameSync(`${path}.tmp`, path);
+}
+
+/**
+ * Delete the state of finished runs past the retention period or beyond the newest MAX_FINISHED_RUNS
+ */
+function pruneRuns() {
+  const cutoff = Date.now() - FINISHED_RETENTION_MS;
+  const finished = loadRuns()
+    .filter(info => !isRunActive(info))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+  for (const [i, info] of finished.entries()) {
+    if (i < MAX_FINISHED_RUNS && info.updatedAt >= cutoff) continue;
+    try { unlinkSync(statePath(info.runId)!); } catch {}
+  }
+}
+
+export class RunRegistry {
+  private runs: Map<RunId, LocalRun> = new Map();
+  private poller: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  /**
+   * Register a run and get the signal that aborts it on cancel
+   */
+  register(ctx: RunContext): AbortSignal {
+    const now = Date.now();
+    const run: LocalRun = {
+      ctx,
+      info: { runId: ctx.runId, objective: ctx.objective.text, state: 'running', pid: process.pid, startedAt: now, updatedAt: now },
+      controller: new AbortController(),
+      resumeWaiters: [],
+    };
+    this.runs.set(ctx.runId, run);
+    this.persist(run.info);
+    try { pruneRuns(); } catch {}
+    this.startPolling();
+    return run.controller.signal;
+  }
+
+  /**
+   * Mark a run as finished and stop tracking it
+   */
+  async finish(runId: RunId, state: 'completed' | 'failed' | 'cancelled'): Promise<void> {
+    const run = this.runs.get(runId);
+    if (!run) return;
+    if (run.info.state !== state) {
+      await this.transition(run, state, 'finish', 'agent');
+    }
+    this.runs.delete(runId);
+    if (this.runs.size === 0) this.stopPolling();
+  }
+
+  /**
+   * Apply a control action. Runs owned by another process get a queued request.
+   */
+  async control(runId: RunId, action: RunAction, source: string = 'api'): Promise<RunControlResult> {
+    const local = this.runs.get(runId);
+    if (local) {
+      return this.applyLocal(local, action, source);
+    }
+
+    const info = loadRun(runId);
+    if (!info) {
+      return { ok: false, runId, error: 'Run not found' };
+    }
+    if (!TRANSITIONS[action].from.includes(info.state)) {
+      return { ok: false, runId, state: info.state, error: `Cannot ${action} a run that is ${info.state}` };
+    }
+    if (!isRunActive(info)) {
+      return { ok: false, runId, state: info.state, error: `Run is no longer active (process ${info.pid} exited); restore it from its checkpoint instead` };
+    }
+
+    mkdirSync(CONTROL_DIR, { recursive: true });
+    // Write then rename so the owning process never reads a half-written request
+    const path = join(CONTROL_DIR, `${runId}.json`);
+    writeFileSync(`${path}.tmp`, JSON.stringify({ action, source, requestedAt: Date.now() }));
+    renameSync(`${path}.tmp`, path);
+    return { ok: true, runId, state: info.state, queued: true };
+  }
+
+  /**
+   * Block while a run is paused. Resolves immediately for unknown or running runs.
+   */
+  async waitIfPaused(runId: RunId): Promise<void> {
+    const run = this.runs.get(runId);
+    if (!run || run.info.state !== 'paused') return;
+    await new Promise<void>(resolve => run.resumeWaiters.push(resolve));
+  }
+
+  get(runId: RunId): RunInfo | undefined {
+    return this.runs.get(runId)?.info || loadRun(runId);
+  }
+
+  /**
+   * All known runs, most recent first
+   */
+  list(): RunInfo[] {
+    const state = new Map(loadRuns().map(info => [info.runId, info]));
+    for (const run of this.runs.values()) state.set(run.info.runId, run.info);
+    return [...state.values()].sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  private async applyLocal(run: LocalRun, action: RunAction, source: string): Promise<RunControlResult> {
+    const { from, to } = TRANSITIONS[action];
+    if (!from.includes(run.info.state)) {
+      return { ok: false, runId: run.info.runId, state: run.info.state, error: `Cannot ${action} a run that is ${run.info.state}` };
+    }
+
+    await this.transition(run, to, action, source);
+
+    if (action === 'cancel') {
+      run.controller.abort(new Error('Run cancelled'));
+    }
+    if (action === 'cancel' || action === 'resume') {
+      // Wake the loop so it can continue or observe the cancellation
+      run.resumeWaiters.splice(0).forEach(resolve => resolve());
+    }
+
+    return { ok: true, runId: run.info.runId, state: to };
+  }
+
+  private async transition(run: LocalRun, to: RunState, action: string, source: string) {
+    const from = run.info.state;
+    run.info = { ...run.info, state: to, updatedAt: Date.now() };
+    this.persist(run.info);
+    await auditEvent(run.ctx, 'RUN_STATE', { from, to, action, source });
+  }
+
+  private persist(info: RunInfo) {
+    try { saveRun(info); } catch {}
+  }
+
+  private startPolling() {
+    if (this.poller) return;
+    // Not unref'd: a paused run has nothing else keeping the process alive
+    this.poller = setInterval(() => { this.pollControlRequests(); }, POLL_MS);
+  }
+
+  private stopPolling() {
+    if (this.poller) clearInterval(this.poller);
+    this.poller = null;
+  }
+
+  /**
+   * Apply control requests queued by other processes. A request is removed once it has been
+   * applied or rejected, and a rejected or unreadable one is audited rather than dropped silently.
+   */
+  private async pollControlRequests() {
+    // A slow tick must not overlap the next one and apply a request twice
+    if (this.polling || !existsSync(CONTROL_DIR)) return;
+    this.polling = true;
+    try {
+      for (const file of readdirSync(CONTROL_DIR)) {
+        if (!file.endsWith('.json')) continue;
+        const run = this.runs.get(file.replace(/\.json$/, ''));
+        if (!run) continue;
+
+        const path = join(CONTROL_DIR, file);
+        let request: { action?: unknown; source?: unknown } | undefined;
+        try {
+          request = JSON.parse(readFileSync(path, 'utf8'));
+          const action = request?.action as RunAction;
+          const result = Object.hasOwn(TRANSITIONS, action)
+            ? await this.applyLocal(run, action, typeof request?.source === 'string' ? request.source : 'cli')
+            : { ok: false, error: `Unknown action: ${String(request?.action)}` };
+          if (!result.ok) {
+            await auditEvent(run.ctx, 'RUN_CONTROL_FAILED', { request, error: result.error });
+          }
+        } catch (e: any) {
+          await auditEvent(run.ctx, 'RUN_CONTROL_FAILED', { request, error: e.message });
+        }
+        try { unlinkSync(path); } catch {}
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+}
+
+// Singleton
+let runRegistry: RunRegistry | null = null;
+
+export function getRunRegistry(): RunRegistry {
+  if (!runRegistry) {
+    runRegistry = new RunRegistry();
+  }
+  return runRegistry;
+}
@@ -3,6 +3,15 @@ export type StepId = string;
 
 export interface Objective { text: string }
 
+/**
+ * Post-step check, resolved by type in the validator registry (guardrails/validators.ts).
+ * Built-in: exit_code, stdout_matches, json_path, file_hash, http_status.
+ */
+export interface ValidatorSpec {
+  type: string;
+  [option: string]: unknown;
+}
+
 export interface PlanStep {
   id: StepId;
   type: 'filesystem'|'terminal'|'editor'|'verify'|'policy'|'audit'|'custom';
@@ -10,6 +19,8 @@ export interface PlanStep {
   deps?: StepId[];
   fallbackParams?: Record<string, unknown>;
   retry?: { attempts: number; baseMs?: number; factor?: number; jitterPct?: number };
+  /** Checks the step's result must pass; all must hold for the step to succeed */
+  validate?: ValidatorSpec[];
   description?: string;
 }
 
@@ -17,4 +28,12 @@ export interface RunContext {
   runId: RunId;
   objective: Objective;
   createdAt: number;
+  /** Run that delegated this one, for sub-agent runs */
+  parentRunId?: RunId;
+  /** Top-level run of a delegation tree; pausing it pauses every sub-agent */
+  rootRunId?: RunId;
+  /** Domain whose policy plan steps run under */
+  domain?: string;
+  /** Autonomy level plan steps are gated at; steps without one are held to 0 */
+  autonomyLevel?: number;
 }
@@ -170,6 +170,7 @@ export class DomainManager {
       } else {
         prompt += '\n\n🚀 **High Autonomy Mode**: Execute tasks independently, report results.';
       }
+      prompt += '\nTool calls riskier than this level wait for human approval automatically, and the riskiest are refused.';
     }
     
     return prompt;
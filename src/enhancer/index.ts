@@ -4,6 +4,7 @@
  * best practices, and useful details that users typically forget to mention.
  */
 
+import { z } from 'zod/v3';
 import { createRouterFromEnv } from '../ai/router.js';
 import type { RunContext } from '../core/types.js';
 
@@ -219,6 +220,13 @@ export async function enhancePrompt(
   };
 }
 
+const enhancementSchema = z.object({
+  enhanced: z.string().min(1),
+  additions: z.array(z.string()).default([]),
+  domain: z.string().default('general'),
+  reasoning: z.string().optional(),
+});
+
 /**
  * AI-powered prompt enhancement for complex tasks
  */
@@ -234,39 +242,30 @@ export async function enhancePromptWithAI(
 3. Clarifying ambiguities
 4. Adding helpful constraints
 
-Return ONLY a JSON object with:
-{
-  "enhanced": "the improved prompt",
-  "additions": ["list of things you added"],
-  "domain": "detected domain",
-  "reasoning": "brief explanation"
-}
+Fields:
+- enhanced: the improved prompt
+- additions: list of things you added
+- domain: detected domain
+- reasoning: brief explanation
 
 Keep the original intent intact. Add 3-5 implicit requirements that make sense for the task.`;
 
   try {
-    const response = await router.complete({
+    const { data } = await router.completeStructured({
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: `Enhance this prompt:\n\n"${prompt}"` },
       ],
       temperature: 0.3,
-    }, ctx || { runId: 'enhance', objective: { text: prompt }, createdAt: Date.now() });
-    
-    // Parse JSON response
-    const content = response.message.content;
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    
-    if (jsonMatch) {
-      const result = JSON.parse(jsonMatch[0]);
-      return {
-        original: prompt,
-        enhanced: result.enhanced || prompt,
-        additions: result.additions || [],
-        domain: result.domain || 'general',
-        confidence: 0.95,
-      };
-    }
+    }, enhancementSchema, ctx || { runId: 'enhance', objective: { text: prompt }, createdAt: Date.now() }, { name: 'enhancement' });
+
+    return {
+      original: prompt,
+      enhanced: data.enhanced,
+      additions: data.additions,
+      domain: data.domain,
+      confidence: 0.95,
+    };
   } catch (error) {
     console.warn('[Enhancer] AI enhancement failed, using rule-based:', error);
   }
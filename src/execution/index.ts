@@ -2,13 +2,15 @@ import { z } from 'zod';
 import { auditEvent } from '../audit/logger.js';
 import type { RunContext } from '../core/types.js';
 import { ensureUnderAllowed } from '../config/sandbox.js';
+import { getSandbox } from '../guardrails/policy.js';
 import { ok, err, ResultEnvelope } from '../core/errors.js';
+import { effectiveMode, resolveTerminalSandbox, runSandboxed, type TerminalSandboxConfig } from './terminal-sandbox.js';
 
 const FSParams = z.object({ op: z.enum(['write','mkdir','chmod']), path: z.string(), content: z.string().optional(), mode: z.string().optional() });
-export async function execFilesystem(ctx: RunContext, params: any): Promise<ResultEnvelope>{ const t0=Date.now(); try{ const p = FSParams.parse(params); ensureUnderAllowed(p.path); await auditEvent(ctx,'FS_EXEC',{p}); const { promises: fs } = await import('fs'); if(p.op==='mkdir'){ await fs.mkdir(p.path,{ recursive:true }); } else if(p.op==='write'){ await fs.writeFile(p.path, p.content||''); } else if(p.op==='chmod'){ await fs.chmod(p.path, p.mode||'755'); } return ok(Date.now()-t0); }catch(e:any){ return err(e?.code==='DENIED'?'DENIED':'EXEC_ERROR', Date.now()-t0, e); } }
+export async function execFilesystem(ctx: RunContext, params: any): Promise<ResultEnvelope>{ const t0=Date.now(); try{ const p = FSParams.parse(params); ensureUnderAllowed(p.path, getSandbox().allowedRoot); await auditEvent(ctx,'FS_EXEC',{p}); const { promises: fs } = await import('fs'); if(p.op==='mkdir'){ await fs.mkdir(p.path,{ recursive:true }); } else if(p.op==='write'){ await fs.writeFile(p.path, p.content||''); } else if(p.op==='chmod'){ await fs.chmod(p.path, p.mode||'755'); } return ok(Date.now()-t0); }catch(e:any){ return err(e?.code==='DENIED'?'DENIED':'EXEC_ERROR', Date.now()-t0, e); } }
 
-const TermParams = z.object({ cmd: z.string(), cwd: z.string().optional() });
-export async function execTerminal(ctx: RunContext, params: any): Promise<ResultEnvelope>{ const t0=Date.now(); try{ const p = TermParams.parse(params); await auditEvent(ctx,'TERM_EXEC',{p}); const { exec } = await import('child_process'); const { promisify } = await import('util'); const ex = promisify(exec); const res = await ex(p.cmd, { cwd: p.cwd }); return { ok:true, code:'OK', timingMs: Date.now()-t0, stdout: res.stdout, stderr: res.stderr, exitCode: 0 }; }catch(e:any){ return err('EXEC_ERROR', Date.now()-t0, e); } }
+const TermParams = z.object({ cmd: z.string(), cwd: z.string().optional(), timeoutMs: z.number().positive().optional() });
+export async function execTerminal(ctx: RunContext, params: any, signal?: AbortSignal, sandbox: TerminalSandboxConfig = resolveTerminalSandbox()): Promise<ResultEnvelope>{ const t0=Date.now(); try{ const p = TermParams.parse(params); const config = { ...sandbox, timeoutMs: Math.min(p.timeoutMs ?? sandbox.timeoutMs, sandbox.timeoutMs) }; const mode = effectiveMode(config); if(!mode){ await auditEvent(ctx,'TERM_SANDBOX_UNAVAILABLE',{ cmd: p.cmd, reason: 'bwrap unavailable' }); return err('DENIED', Date.now()-t0, new Error('No terminal sandbox available: install bubblewrap, or set TERMINAL_SANDBOX=host to run commands without isolation')); } await auditEvent(ctx,'TERM_EXEC',{p, sandbox: mode}); const r = await runSandboxed(p.cmd, config, { cwd: p.cwd, signal }); const out = { timingMs: Date.now()-t0, stdout: r.stdout, stderr: r.stderr, exitCode: r.exitCode ?? undefined, signal: r.signal ?? undefined, timedOut: r.timedOut || undefined, truncated: r.truncated || undefined }; if(r.exitCode===0) return { ok:true, code:'OK', ...out }; const why = r.timedOut ? `timed out after ${config.timeoutMs}ms` : r.signal ? `killed by ${r.signal}` : `exit code ${r.exitCode}`; return { ...err('EXEC_ERROR', out.timingMs, new Error(`Command failed (${why}): ${p.cmd}`)), ...out }; }catch(e:any){ return err('EXEC_ERROR', Date.now()-t0, e); } }
 
 const EditParams = z.object({ path: z.string(), patch: z.string().optional(), content: z.string().optional() });
-export async function execEditor(ctx: RunContext, params: any): Promise<ResultEnvelope>{ const t0=Date.now(); try{ const p = EditParams.parse(params); ensureUnderAllowed(p.path); await auditEvent(ctx,'EDIT_EXEC',{p}); const { promises: fs } = await import('fs'); if(typeof p.content==='string'){ await fs.writeFile(p.path, p.content); } return ok(Date.now()-t0); }catch(e:any){ return err(e?.code==='DENIED'?'DENIED':'EXEC_ERROR', Date.now()-t0, e); } }
+export async function execEditor(ctx: RunContext, params: any): Promise<ResultEnvelope>{ const t0=Date.now(); try{ const p = EditParams.parse(params); ensureUnderAllowed(p.path, getSandbox().allowedRoot); await auditEvent(ctx,'EDIT_EXEC',{p}); const { promises: fs } = await import('fs'); if(typeof p.content==='string'){ await fs.writeFile(p.path, p.content); } return ok(Date.now()-t0); }catch(e:any){ return err(e?.code==='DENIED'?'DENIED':'EXEC_ERROR', Date.now()-t0, e); } }
@@ -0,0 +1,110 @@
+/**
+ * Step Executors
+ * verify, policy, audit and custom plan steps; filesystem, terminal and editor steps
+ * run through the executors in ./index.ts
+ */
+
+import { z } from 'zod';
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { auditEvent } from '../audit/logger.js';
+import type { RunContext } from '../core/types.js';
+import { ok, err, ResultEnvelope } from '../core/errors.js';
+import { evaluatePolicy } from '../guardrails/policy.js';
+import { executeTool } from '../tools/executor.js';
+import { execTerminal } from './index.js';
+
+const VerifyParams = z.object({
+  type: z.enum(['file_exists', 'command_succeeds', 'contains']),
+  target: z.string(),
+  expected: z.string().optional(),
+});
+
+/**
+ * Assert an outcome: a file exists, a command exits 0 (and prints expected, if given),
+ * or a file contains expected text
+ */
+export async function execVerify(ctx: RunContext, params: any): Promise<ResultEnvelope> {
+  const t0 = Date.now();
+  try {
+    const p = VerifyParams.parse(params);
+    await auditEvent(ctx, 'VERIFY_EXEC', { p });
+
+    let failure: string | null = null;
+    if (p.type === 'file_exists') {
+      if (!existsSync(p.target)) failure = `File does not exist: ${p.target}`;
+    } else if (p.type === 'command_succeeds') {
+      const res = await execTerminal(ctx, { cmd: p.target });
+      if (!res.ok) failure = `Command failed: ${p.target}: ${res.error?.message}`;
+      else if (p.expected !== undefined && !(res.stdout || '').includes(p.expected)) failure = `Command output does not contain "${p.expected}"`;
+    } else {
+      if (p.expected === undefined) throw new Error('expected is required for contains');
+      const content = existsSync(p.target) ? await readFile(p.target, 'utf-8') : null;
+      if (content === null) failure = `File does not exist: ${p.target}`;
+      else if (!content.includes(p.expected)) failure = `${p.target} does not contain "${p.expected}"`;
+    }
+
+    return failure ? err('VALIDATION_FAIL', Date.now() - t0, new Error(failure)) : ok(Date.now() - t0, { check: p.type, target: p.target });
+  } catch (e: any) {
+    return err('EXEC_ERROR', Date.now() - t0, e);
+  }
+}
+
+const PolicyParams = z.object({
+  step: z.object({ type: z.string(), params: z.record(z.unknown()).optional() }),
+});
+
+/**
+ * Assert that the described step would be allowed by policy, without running it
+ */
+export async function execPolicy(ctx: RunContext, params: any): Promise<ResultEnvelope> {
+  const t0 = Date.now();
+  try {
+    const p = PolicyParams.parse(params);
+    const decision = evaluatePolicy(p.step, { dryRun: true }, ctx);
+    await auditEvent(ctx, 'POLICY_CHECK', { step: p.step, decision });
+    return decision.verdict === 'ALLOW'
+      ? ok(Date.now() - t0, decision)
+      : err('DENIED', Date.now() - t0, Object.assign(new Error(`Denied: ${decision.reason || 'policy'}`), { code: 'DENIED' }));
+  } catch (e: any) {
+    return err('EXEC_ERROR', Date.now() - t0, e);
+  }
+}
+
+const AuditParams = z.object({
+  message: z.string(),
+  data: z.record(z.unknown()).optional(),
+});
+
+/**
+ * Record a note in the audit log; the event name is fixed so plans cannot forge other events
+ */
+export async function execAudit(ctx: RunContext, params: any, stepId?: string): Promise<ResultEnvelope> {
+  const t0 = Date.now();
+  try {
+    const p = AuditParams.parse(params);
+    await auditEvent(ctx, 'STEP_AUDIT', { stepId, message: p.message, data: p.data });
+    return ok(Date.now() - t0);
+  } catch (e: any) {
+    return err('EXEC_ERROR', Date.now() - t0, e);
+  }
+}
+
+const CustomParams = z.object({
+  action: z.string(),
+  params: z.record(z.unknown()).optional(),
+});
+
+/**
+ * Run any registered tool (built-in, integration or MCP) by name
+ */
+export async function execCustom(ctx: RunContext, params: any, signal?: AbortSignal): Promise<ResultEnvelope> {
+  const t0 = Date.now();
+  try {
+    const p = CustomParams.parse(params);
+    const result = await executeTool(ctx, p.action, p.params || {}, { signal, domain: ctx.domain });
+    return result.success ? ok(Date.now() - t0, result.output) : err('EXEC_ERROR', Date.now() - t0, new Error(result.error || `${p.action} failed`));
+  } catch (e: any) {
+    return err('EXEC_ERROR', Date.now() - t0, e);
+  }
+}
@@ -0,0 +1,316 @@
+/**
+ * Terminal Sandbox
+ * Runs terminal commands in a child process with a time limit, an output cap and,
+ * depending on the mode, bubblewrap namespaces or a throwaway container
+ */
+
+import { spawn, spawnSync } from 'child_process';
+import { randomBytes } from 'crypto';
+import { existsSync, readdirSync, statSync } from 'fs';
+import { join, relative, resolve, sep } from 'path';
+import { getActivePolicy, policyConfigCandidates } from '../guardrails/policy-config.js';
+
+/** 'auto' is bwrap where it works; without it commands are refused rather than run on the host */
+export type TerminalSandboxMode = 'auto' | 'host' | 'bwrap' | 'docker';
+
+export interface SandboxMount {
+  /** Host path, relative to the working directory unless absolute */
+  path: string;
+  /** Path inside the sandbox (default: same as the resolved host path) */
+  target?: string;
+  readOnly?: boolean;
+}
+
+export interface TerminalSandboxConfig {
+  mode: TerminalSandboxMode;
+  /** Allow network access (bwrap and docker; host mode always has it) */
+  network: boolean;
+  /** Wall-clock limit; the process group is killed when it runs out */
+  timeoutMs: number;
+  /** Kept per stream; the rest is dropped and the result marked truncated */
+  maxOutputBytes: number;
+  /** Address space (host, bwrap) or container memory (docker) */
+  memoryMb?: number;
+  /** CPU time limit */
+  cpuSeconds?: number;
+  /** CPU share (docker only) */
+  cpus?: number;
+  /** Writable or read-only paths visible to the command (bwrap, docker) */
+  mounts: SandboxMount[];
+  /** Image for docker mode, e.g. one built from the repo Dockerfile */
+  image: string;
+}
+
+export const DEFAULT_TERMINAL_SANDBOX: TerminalSandboxConfig = {
+  mode: 'auto',
+  network: true,
+  timeoutMs: 120_000,
+  maxOutputBytes: 1_000_000,
+  mounts: [{ path: '.' }],
+  image: 'agentic-employee',
+};
+
+// System directories bound read-only into bwrap sandboxes so commands can find their tools
+const BWRAP_SYSTEM_DIRS = ['/usr', '/bin', '/sbin', '/lib', '/lib64', '/etc'];
+
+// Hidden inside mounts: secrets, and the state behind the guardrails (audit log, approvals,
+// run state, checkpoints) that lives in .data
+const MASKED_DIRS = ['.data', '.ssh'];
+const MASKED_FILES = /^\.env(\..*)?$/;
+
+// After SIGTERM, how long a timed-out command gets before SIGKILL
+const KILL_GRACE_MS = 2000;
+
+export interface SandboxRunResult {
+  /** Mode the command ran in ('auto' resolved) */
+  mode: Exclude<TerminalSandboxMode, 'auto'>;
+  /** Null when the process was killed by a signal */
+  exitCode: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  truncated: boolean;
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+}
+
+/**
+ * Sandbox settings for a domain: built-in defaults, then TERMINAL_SANDBOX (mode only),
+ * then the policy file's terminalSandbox section, then its per-domain overrides
+ */
+export function resolveTerminalSandbox(domain?: string): TerminalSandboxConfig {
+  const config: TerminalSandboxConfig = { ...DEFAULT_TERMINAL_SANDBOX };
+  const envMode = process.env.TERMINAL_SANDBOX;
+  if (envMode === 'auto' || envMode === 'host' || envMode === 'bwrap' || envMode === 'docker') config.mode = envMode;
+
+  const section = getActivePolicy().config?.terminalSandbox;
+  if (!section) return config;
+  const { domains, ...base } = section;
+  return { ...config, ...base, ...(domain ? domains?.[domain] : undefined) };
+}
+
+let bwrapWorks: boolean | undefined;
+
+/**
+ * Whether bubblewrap is installed and can create namespaces here (some kernels and
+ * containers forbid unprivileged user namespaces). Checked once per process.
+ */
+export function bwrapAvailable(): boolean {
+  if (bwrapWorks === undefined) {
+    const probe = spawnSync('bwrap', ['--ro-bind', '/', '/', '--unshare-all', '--die-with-parent', 'true'], { stdio: 'ignore', timeout: 5000 });
+    bwrapWorks = probe.status === 0;
+  }
+  return bwrapWorks;
+}
+
+/**
+ * The mode a config runs commands in, or null when it is 'auto' and no sandbox backend works
+ */
+export function effectiveMode(config: TerminalSandboxConfig): SandboxRunResult['mode'] | null {
+  if (config.mode !== 'auto') return config.mode;
+  return bwrapAvailable() ? 'bwrap' : null;
+}
+
+export interface ProtectedMounts {
+  /** Sandbox paths replaced by an empty directory (tmpfs) */
+  emptyDirs: string[];
+  /** Sandbox paths replaced by an empty file (/dev/null) */
+  emptyFiles: string[];
+  /** Host path and sandbox path of files bound read-only over a writable mount */
+  readOnly: Array<{ source: string; target: string }>;
+}
+
+/**
+ * What bwrap and docker lay over the configured mounts so commands cannot read secrets or
+ * change the guardrails: .data and .ssh become empty, .env files empty, the policy file read-only
+ */
+export function protectedMounts(mounts: SandboxMount[]): ProtectedMounts {
+  const result: ProtectedMounts = { emptyDirs: [], emptyFiles: [], readOnly: [] };
+  const policyFiles = policyConfigCandidates().filter(p => existsSync(p));
+
+  for (const mount of mounts) {
+    const source = resolve(mount.path);
+    if (!existsSync(source) || !statSync(source).isDirectory()) continue;
+    const target = mount.target || source;
+    const inSandbox = (path: string) => join(target, relative(source, path));
+
+    for (const name of MASKED_DIRS) {
+      if (existsSync(join(source, name))) result.emptyDirs.push(inSandbox(join(source, name)));
+    }
+    for (const entry of readdirSync(source, { withFileTypes: true })) {
+      if (entry.isFile() && MASKED_FILES.test(entry.name)) result.emptyFiles.push(inSandbox(join(source, entry.name)));
+    }
+    if (!mount.readOnly) {
+      for (const file of policyFiles.filter(p => p.startsWith(source + sep))) {
+        result.readOnly.push({ source: file, target: inSandbox(file) });
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Run a shell command under the given sandbox. Never rejects for command failures:
+ * non-zero exits, signals and timeouts are reported in the result. Rejects when the
+ * sandbox itself cannot start (e.g. bwrap or docker missing).
+ */
+export function runSandboxed(
+  cmd: string,
+  config: TerminalSandboxConfig,
+  options: { cwd?: string; signal?: AbortSignal } = {},
+): Promise<SandboxRunResult> {
+  const t0 = Date.now();
+  const cwd = resolve(options.cwd || '.');
+  const mode = effectiveMode(config);
+  if (!mode) {
+    return Promise.reject(new Error('No terminal sandbox available: bubblewrap is missing or cannot create namespaces. Install it, or set TERMINAL_SANDBOX=host to run commands without isolation.'));
+  }
+  const containerName = `agent-term-${randomBytes(4).toString('hex')}`;
+  const [file, args] = buildCommand(cmd, { ...config, mode }, cwd, containerName);
+
+  return new Promise((resolvePromise, reject) => {
+    const child = spawn(file, args, {
+      // Docker gets its working directory from -w
+      cwd: mode === 'docker' ? undefined : cwd,
+      // Own process group so a timeout takes the command's children with it
+      detached: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    const stdout = new OutputBuffer(config.maxOutputBytes);
+    const stderr = new OutputBuffer(config.maxOutputBytes);
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+
+    let timedOut = false;
+    let killTimer: NodeJS.Timeout | undefined;
+    const stop = () => {
+      if (mode === 'docker') {
+        // Killing the docker client leaves the container running
+        spawn('docker', ['kill', containerName], { stdio: 'ignore' }).on('error', () => {});
+      }
+      killGroup(child.pid, 'SIGTERM');
+      killTimer = setTimeout(() => killGroup(child.pid, 'SIGKILL'), KILL_GRACE_MS);
+    };
+    const timer = setTimeout(() => { timedOut = true; stop(); }, config.timeoutMs);
+    const onAbort = () => stop();
+    options.signal?.addEventListener('abort', onAbort);
+    if (options.signal?.aborted) stop();
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      clearTimeout(killTimer);
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+
+    child.on('error', (e: any) => {
+      cleanup();
+      if (e.code === 'ENOENT') {
+        reject(new Error(`${file} not found: install it or use a different terminal sandbox mode (currently ${mode})`));
+      } else {
+        reject(e);
+      }
+    });
+
+    child.on('close', (code, signal) => {
+      cleanup();
+      resolvePromise({
+        mode,
+        exitCode: code,
+        signal,
+        timedOut,
+        truncated: stdout.dropped > 0 || stderr.dropped > 0,
+        stdout: stdout.toString(),
+        stderr: stderr.toString(),
+        durationMs: Date.now() - t0,
+      });
+    });
+  });
+}
+
+function buildCommand(cmd: string, config: TerminalSandboxConfig, cwd: string, containerName: string): [string, string[]] {
+  const limited = withLimits(cmd, config);
+
+  if (config.mode === 'bwrap') {
+    const args = ['--unshare-all', '--die-with-parent', '--new-session'];
+    if (config.network) args.push('--share-net');
+    for (const dir of BWRAP_SYSTEM_DIRS) args.push('--ro-bind-try', dir, dir);
+    args.push('--proc', '/proc', '--dev', '/dev', '--tmpfs', '/tmp');
+    for (const mount of config.mounts) {
+      const source = resolve(mount.path);
+      args.push(mount.readOnly ? '--ro-bind' : '--bind', source, mount.target || source);
+    }
+    // Later binds cover earlier ones
+    const masks = protectedMounts(config.mounts);
+    for (const dir of masks.emptyDirs) args.push('--tmpfs', dir);
+    for (const file of masks.emptyFiles) args.push('--ro-bind', '/dev/null', file);
+    for (const { source, target } of masks.readOnly) args.push('--ro-bind', source, target);
+    args.push('--chdir', cwd, 'sh', '-c', limited);
+    return ['bwrap', args];
+  }
+
+  if (config.mode === 'docker') {
+    const args = ['run', '--rm', '--name', containerName, '--network', config.network ? 'bridge' : 'none'];
+    if (config.memoryMb) args.push('--memory', `${config.memoryMb}m`);
+    if (config.cpus) args.push('--cpus', String(config.cpus));
+    for (const mount of config.mounts) {
+      const source = resolve(mount.path);
+      args.push('-v', `${source}:${mount.target || source}${mount.readOnly ? ':ro' : ''}`);
+    }
+    const masks = protectedMounts(config.mounts);
+    for (const dir of masks.emptyDirs) args.push('--tmpfs', dir);
+    for (const file of masks.emptyFiles) args.push('-v', `/dev/null:${file}:ro`);
+    for (const { source, target } of masks.readOnly) args.push('-v', `${source}:${target}:ro`);
+    // The repo image's entrypoint is the CLI, so go through sh instead
+    args.push('-w', cwd, '--entrypoint', 'sh', config.image, '-c', limited);
+    return ['docker', args];
+  }
+
+  return ['sh', ['-c', limited]];
+}
+
+/**
+ * Prefix the command with ulimits for the CPU and memory limits. Docker enforces
+ * memory itself, so only the CPU limit is added there.
+ */
+function withLimits(cmd: string, config: TerminalSandboxConfig): string {
+  const limits: string[] = [];
+  if (config.cpuSeconds) limits.push(`ulimit -t ${Math.ceil(config.cpuSeconds)}`);
+  if (config.memoryMb && config.mode !== 'docker') limits.push(`ulimit -v ${Math.floor(config.memoryMb * 1024)}`);
+  return limits.length ? `${limits.join(' && ')} && ${cmd}` : cmd;
+}
+
+function killGroup(pid: number | undefined, signal: NodeJS.Signals) {
+  if (!pid) return;
+  try {
+    process.kill(-pid, signal);
+  } catch {
+    // Already exited
+  }
+}
+
+/**
+ * Keeps the first maxBytes of a stream and counts the rest
+ */
+class OutputBuffer {
+  private chunks: Buffer[] = [];
+  private size = 0;
+  dropped = 0;
+
+  constructor(private maxBytes: number) {}
+
+  push(chunk: Buffer) {
+    const room = this.maxBytes - this.size;
+    if (room > 0) {
+      const kept = chunk.length > room ? chunk.subarray(0, room) : chunk;
+      this.chunks.push(kept);
+      this.size += kept.length;
+    }
+    this.dropped += Math.max(0, chunk.length - Math.max(room, 0));
+  }
+
+  toString(): string {
+    const text = Buffer.concat(this.chunks).toString('utf8');
+    return this.dropped ? `${text}\n[... ${this.dropped} more bytes truncated]` : text;
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Shell Command Inspection
+ * Splits terminal commands into words the way sh would (quotes, escapes, ~ and $HOME
+ * expansion) so guardrails judge the arguments a command actually receives
+ */
+
+import { homedir } from 'os';
+import { basename, resolve } from 'path';
+
+// Characters that end a simple command: ; & | newline, and the edges of subshells and substitutions
+const SEPARATORS = new Set([';', '&', '|', '\n', '(', ')', '`']);
+
+/**
+ * The simple commands in a command line, each as its words after quote removal.
+ * `~`, `~/…`, `$HOME` and `${HOME}` are expanded to `home`; other variables are left as written.
+ */
+export function shellCommands(cmd: string, home: string = homedir()): string[][] {
+  const commands: string[][] = [];
+  let words: string[] = [];
+  let word = '';
+  let inWord = false;
+  let quote: "'" | '"' | null = null;
+
+  const endWord = () => {
+    if (inWord) words.push(word);
+    word = '';
+    inWord = false;
+  };
+  const endCommand = () => {
+    endWord();
+    if (words.length) commands.push(words);
+    words = [];
+  };
+  // $HOME or ${HOME} at i: the length consumed, or 0
+  const homeVar = (i: number) => cmd.startsWith('$HOME', i) && !/\w/.test(cmd[i + 5] ?? '') ? 5 : cmd.startsWith('${HOME}', i) ? 7 : 0;
+
+  for (let i = 0; i < cmd.length; i++) {
+    const c = cmd[i];
+
+    if (quote === "'") {
+      if (c === "'") quote = null; else word += c;
+      continue;
+    }
+    if (quote === '"') {
+      if (c === '"') { quote = null; continue; }
+      if (c === '\\' && i + 1 < cmd.length) { word += cmd[++i]; continue; }
+      const len = homeVar(i);
+      if (len) { word += home; i += len - 1; continue; }
+      word += c;
+      continue;
+    }
+
+    if (c === "'" || c === '"') { quote = c; inWord = true; continue; }
+    if (c === '\\' && i + 1 < cmd.length) { word += cmd[++i]; inWord = true; continue; }
+    if (c === ' ' || c === '\t') { endWord(); continue; }
+    if (SEPARATORS.has(c)) { endCommand(); continue; }
+    if (c === '$' && cmd[i + 1] === '(') { endCommand(); i++; continue; }
+
+    const len = homeVar(i);
+    if (len) { word += home; inWord = true; i += len - 1; continue; }
+    if (c === '~' && !inWord && (i + 1 === cmd.length || /[\s/;&|)]/.test(cmd[i + 1]))) {
+      word += home;
+      inWord = true;
+      continue;
+    }
+    word += c;
+    inWord = true;
+  }
+  endCommand();
+  return commands;
+}
+
+/**
+ * Whether the command line runs rm on the filesystem root or a home directory (or
+ * everything directly inside them), whatever the flags, quoting or spelling of the path.
+ * `cd` earlier in the line is followed, so `cd / && rm -rf *` counts too.
+ */
+export function deletesRootOrHome(cmd: string, cwd: string = process.cwd()): boolean {
+  const homes = [homedir(), process.env.HOME].filter((h): h is string => !!h).map(h => resolve(h));
+  const protectedDirs = new Set(['/', ...homes]);
+  let dir = resolve(cwd);
+
+  for (const words of shellCommands(cmd, homes[0])) {
+    if (words[0] === 'cd') {
+      dir = resolve(dir, words[1] || homes[0] || '/');
+      continue;
+    }
+    // The rm may come after sudo, env, xargs, a full path...
+    const rmAt = words.findIndex(w => basename(w) === 'rm');
+    if (rmAt === -1) continue;
+
+    let options = true;
+    for (const arg of words.slice(rmAt + 1)) {
+      if (options && arg === '--') { options = false; continue; }
+      if (options && arg.startsWith('-') && arg !== '-') continue;
+      // dir/* and * empty the directory itself
+      const target = arg === '*' ? '.' : arg.replace(/\/+\*$/, '/') || '/';
+      if (protectedDirs.has(resolve(dir, target))) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Paths the arguments and redirections of a command line may refer to, resolved against the
+ * directory each command runs in (`cd` is followed). `--opt=value` and `>file` contribute the
+ * value; the command name itself counts only when written as a path.
+ */
+export function commandPaths(cmd: string, cwd: string = process.cwd(), home: string = homedir()): string[] {
+  let dir = resolve(cwd);
+  const paths: string[] = [];
+
+  for (const words of shellCommands(cmd, home)) {
+    words.forEach((word, i) => {
+      const arg = word.replace(/^\d*[<>]+&?/, '').replace(/^--?[\w-]+=/, '');
+      if (!arg || arg.startsWith('-') || (i === 0 && !arg.includes('/'))) return;
+      paths.push(resolve(dir, arg));
+    });
+    if (words[0] === 'cd') dir = resolve(dir, words[1] || home);
+  }
+  return paths;
+}
@@ -1,4 +1,28 @@
 import { evaluatePolicy } from './policy.js';
 import type { RunContext, PlanStep } from '../core/types.js';
-export async function preCheck(_ctx: RunContext, step: PlanStep){ const dec = evaluatePolicy(step); if(dec.verdict==='DENY') { const e = new Error('Denied: '+(dec.reason||'policy')); (e as any).code='DENIED'; throw e; } }
-export async function postValidate(_ctx: RunContext, step: PlanStep, result: any){ if(step.type==='terminal'){ if(!(result?.stdout||'').includes('Agent OK')) throw new Error('VERIFY_FAIL: missing Agent OK'); } }
+import { auditEvent } from '../audit/logger.js';
+import { getValidatorRegistry } from './validators.js';
+import { getNotificationManager, approvalKey } from '../integrations/index.js';
+export async function preCheck(ctx: RunContext, step: PlanStep){
+  const dec = evaluatePolicy(step, undefined, ctx);
+  if(dec.verdict==='REQUIRE_APPROVAL'){
+    // Steps needing approval wait for a human, like agent tool calls
+    const outcome = await getNotificationManager().requestApproval(`${step.type} step ${step.id}`, dec.reason||'policy', 'high', undefined, ctx,
+      { key: approvalKey(ctx.runId, step.type, step.params, step.id), tool: step.type, args: step.params, rule: dec.rule });
+    if(outcome.approved) return;
+    const e = new Error('Denied: '+(dec.reason||'policy')+(outcome.timedOut ? ' (approval timed out)' : ' (not approved)')); (e as any).code='DENIED'; throw e;
+  }
+  if(dec.verdict==='DENY') { const e = new Error('Denied: '+(dec.reason||'policy')); (e as any).code='DENIED'; throw e; }
+}
+export async function postValidate(ctx: RunContext, step: PlanStep, result: any){
+  const failures: string[] = [];
+  for (const spec of step.validate || []) {
+    const validator = getValidatorRegistry().get(spec.type);
+    let outcome;
+    try { outcome = validator ? await validator(ctx, step, result, spec) : { ok: false, message: `unknown validator: ${spec.type}` }; }
+    catch (e: any) { outcome = { ok: false, message: `invalid ${spec.type} validator: ${e.message}` }; }
+    await auditEvent(ctx, 'STEP_VALIDATE', { stepId: step.id, validator: spec.type, ok: outcome.ok, message: outcome.message });
+    if (!outcome.ok) failures.push(`${spec.type}: ${outcome.message}`);
+  }
+  if (failures.length) { const e = new Error('VERIFY_FAIL: '+failures.join('; ')); (e as any).code='VALIDATION_FAIL'; throw e; }
+}
@@ -0,0 +1,189 @@
+/**
+ * Policy Configuration
+ * Loads guardrail rules from a versioned YAML or JSON file, reloading it when it changes
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import { extname, resolve } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+const DEFAULT_PATHS = ['policy.yaml', 'policy.yml', 'policy.json'];
+
+/** Schema versions this loader understands */
+const SUPPORTED_VERSIONS = [1] as const;
+
+const VERDICTS = ['ALLOW', 'DENY', 'REQUIRE_APPROVAL'] as const;
+const DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+const regex = z.string().refine(p => {
+  try { new RegExp(p); return true; } catch { return false; }
+}, 'Invalid regular expression');
+
+const clock = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+const oneOrMany = <T extends z.ZodTypeAny>(item: T) => z.union([item, z.array(item)]);
+
+const matchSchema = z.object({
+  tools: oneOrMany(z.string()).optional(),
+  domains: oneOrMany(z.string()).optional(),
+  source: z.enum(['agent', 'plan']).optional(),
+  args: z.record(oneOrMany(z.union([z.string(), z.number(), z.boolean()]))).optional(),
+  paths: oneOrMany(z.string()).optional(),
+  commands: oneOrMany(regex).optional(),
+  hosts: oneOrMany(z.string()).optional(),
+  autonomyBelow: z.number().min(0).max(1).optional(),
+  time: z.object({
+    days: z.array(z.enum(DAYS)).min(1).optional(),
+    from: clock.optional(),
+    to: clock.optional(),
+    timezone: z.string().refine(tz => {
+      try { new Intl.DateTimeFormat('en-US', { timeZone: tz }); return true; } catch { return false; }
+    }, 'Unknown time zone').optional(),
+  }).refine(t => !t.from === !t.to, 'from and to go together').optional(),
+});
+
+const ruleSchema = z.object({
+  id: z.string().regex(/^[\w.-]+$/, 'Use letters, digits, _ . and -'),
+  description: z.string().optional(),
+  verdict: z.enum(VERDICTS),
+  reason: z.string().optional(),
+  match: matchSchema.default({}),
+  except: matchSchema.optional(),
+  rateLimit: z.object({
+    max: z.number().int().nonnegative(),
+    windowSec: z.number().positive(),
+    per: z.enum(['global', 'domain', 'tool']).default('global'),
+  }).optional(),
+});
+
+const terminalSandboxSchema = z.object({
+  mode: z.enum(['auto', 'host', 'bwrap', 'docker']),
+  network: z.boolean(),
+  timeoutMs: z.number().int().positive(),
+  maxOutputBytes: z.number().int().positive(),
+  memoryMb: z.number().positive(),
+  cpuSeconds: z.number().positive(),
+  cpus: z.number().positive(),
+  mounts: z.array(z.object({
+    path: z.string().min(1),
+    target: z.string().startsWith('/', 'Use an absolute path').optional(),
+    readOnly: z.boolean().optional(),
+  })),
+  image: z.string().min(1),
+}).partial();
+
+const policyFileSchema = z.object({
+  version: z.number().int(),
+  name: z.string().optional(),
+  builtinRules: z.boolean().default(true),
+  default: z.enum(VERDICTS).default('ALLOW'),
+  sandbox: z.object({
+    root: z.string().min(1).optional(),
+    terminal: z.array(regex).optional(),
+  }).optional(),
+  /** Risk score overrides by tool or tool.op (see risk.ts) */
+  risk: z.record(z.number().min(0).max(1)).optional(),
+  /** How terminal commands run (see terminal-sandbox.ts), with per-domain overrides */
+  terminalSandbox: terminalSandboxSchema.extend({
+    domains: z.record(terminalSandboxSchema).optional(),
+  }).optional(),
+  rules: z.array(ruleSchema).default([]),
+});
+
+export type PolicyMatch = z.infer<typeof matchSchema>;
+export type PolicyRule = z.infer<typeof ruleSchema>;
+export type PolicyFile = z.infer<typeof policyFileSchema>;
+
+/**
+ * Path of the policy file: POLICY_CONFIG, or policy.yaml/.yml/.json in the working directory
+ */
+export function findPolicyConfig(): string | null {
+  if (process.env.POLICY_CONFIG) return process.env.POLICY_CONFIG;
+  return DEFAULT_PATHS.find(p => existsSync(p)) ?? null;
+}
+
+/**
+ * Every file that is or could become the policy in force, resolved: the configured file
+ * plus the default names in the working directory (creating one would activate it)
+ */
+export function policyConfigCandidates(): string[] {
+  const paths = DEFAULT_PATHS.map(p => resolve(p));
+  if (process.env.POLICY_CONFIG) paths.push(resolve(process.env.POLICY_CONFIG));
+  return paths;
+}
+
+/**
+ * Load and validate a policy file. Returns null when no file is configured.
+ */
+export function loadPolicyConfig(path: string | null = findPolicyConfig()): PolicyFile | null {
+  if (!path) return null;
+  if (!existsSync(path)) {
+    throw new Error(`Policy config not found: ${path}`);
+  }
+
+  const text = readFileSync(path, 'utf8');
+  let raw: unknown;
+  try {
+    raw = extname(path) === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (e: any) {
+    throw new Error(`Could not parse policy config ${path}: ${e.message}`);
+  }
+
+  const parsed = policyFileSchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+    throw new Error(`Invalid policy config ${path}: ${issues}`);
+  }
+
+  const config = parsed.data;
+  if (!(SUPPORTED_VERSIONS as readonly number[]).includes(config.version)) {
+    throw new Error(`Invalid policy config ${path}: unsupported version ${config.version} (supported: ${SUPPORTED_VERSIONS.join(', ')})`);
+  }
+
+  const seen = new Set<string>();
+  for (const rule of config.rules) {
+    if (seen.has(rule.id)) {
+      throw new Error(`Invalid policy config ${path}: duplicate rule id "${rule.id}"`);
+    }
+    seen.add(rule.id);
+  }
+
+  return config;
+}
+
+export interface ActivePolicy {
+  path: string | null;
+  config: PolicyFile | null;
+  /** Set when the file is invalid; config then holds the last valid version, if any */
+  error?: string;
+}
+
+let active: (ActivePolicy & { mtimeMs: number }) | null = null;
+
+/**
+ * The policy currently in force. The file is re-read whenever its path or modification time
+ * changes, so edits apply to the next tool call without a restart. An edit that does not
+ * validate keeps the previous version in force.
+ */
+export function getActivePolicy(): ActivePolicy {
+  const path = findPolicyConfig();
+  let mtimeMs = -1;
+  try {
+    if (path) mtimeMs = statSync(path).mtimeMs;
+  } catch {
+    // Missing file: loadPolicyConfig reports it below
+  }
+
+  if (active && active.path === path && active.mtimeMs === mtimeMs) return active;
+
+  const previous = active?.path === path ? active.config : null;
+  try {
+    active = { path, config: loadPolicyConfig(path), mtimeMs };
+    if (previous) console.log(`[Policy] Reloaded ${path}`);
+  } catch (e: any) {
+    console.warn(`[Policy] ${e.message}${previous ? '; keeping the previous version' : ''}`);
+    active = { path, config: previous, error: e.message, mtimeMs };
+  }
+  return active;
+}
@@ -1,14 +1,382 @@
-import { SANDBOX } from '../config/sandbox.js';
-export type PolicyVerdict = 'ALLOW'|'DENY';
-export interface PolicyDecision { verdict: PolicyVerdict; reason?: string }
-export function evaluatePolicy(step: any): PolicyDecision {
-  if(step.type==='filesystem'){
-    const p = step.params?.path as string;
-    if(!p || !p.startsWith(SANDBOX.allowedRoot)) return { verdict:'DENY', reason:'path_outside_sandbox' };
-  }
-  if(step.type==='terminal'){
-    const cmd = String(step.params?.cmd||'');
-    if(!SANDBOX.allowedTerminal.some(rx=>rx.test(cmd))) return { verdict:'DENY', reason:'terminal_cmd_not_whitelisted' };
-  }
-  return { verdict:'ALLOW' };
+/**
+ * Guardrail Policy
+ * One rule set for plan steps and agent tool calls. Plan steps are confined to the
+ * demo sandbox; agent tool calls to the workspace, and gated by comparing the
+ * action's risk (risk.ts) with the domain's autonomy level. Rules from the policy
+ * file (policy-config.ts) are checked before the built-in ones.
+ */
+
+import { isAbsolute, relative, resolve } from 'path';
+import { SANDBOX, agentWorkspaceRoots } from '../config/sandbox.js';
+import { getActivePolicy, policyConfigCandidates, type PolicyMatch, type PolicyRule } from './policy-config.js';
+import { getActionRisk, riskVerdict } from './risk.js';
+import { commandPaths, deletesRootOrHome } from './commands.js';
+
+export type PolicyVerdict = 'ALLOW'|'DENY'|'REQUIRE_APPROVAL';
+export interface PolicyDecision {
+  verdict: PolicyVerdict;
+  reason?: string;
+  rule?: string;
+  /** Where the deciding rule came from */
+  source?: 'builtin'|'file'|'default';
+}
+
+export interface PolicyInput {
+  tool: string;
+  args: Record<string, any>;
+  domain?: string;
+  /** 0-1, from the active domain brain */
+  autonomyLevel?: number;
+  /** 'plan' applies the demo sandbox rules used by the orchestrator */
+  source?: 'agent'|'plan';
+}
+
+// Never run, whatever the domain (rm of / or home is checked on the parsed command)
+const BLOCKED_COMMANDS: Array<[RegExp, string]> = [
+  [/\bmkfs(\.\w+)?\b/, 'mkfs'],
+  [/\bdd\b.*\bof=\/dev\//, 'dd_to_device'],
+  [/\b(shutdown|reboot|halt|poweroff)\b/, 'power_control'],
+  [/:\(\)\s*\{\s*:\|:&\s*\};:/, 'fork_bomb'],
+  [/\b(curl|wget)\b[^|]*\|\s*(sudo\s+)?(ba|z)?sh\b/, 'pipe_to_shell'],
+  [/\bchmod\s+(-R\s+)?777\s+\/(\s|$)/, 'chmod_root'],
+];
+
+// Secrets, the audit trail and the state behind the guardrails (approvals, run control)
+// are off limits to agent file operations; so is the policy file, checked separately
+const PROTECTED_PATHS: Array<[RegExp, string]> = [
+  [/(^|\/)\.env(\.|$)/, 'env_file'],
+  [/(^|\/)\.ssh(\/|$)/, 'ssh_dir'],
+  [/(^|\/)\.data\/audit\.sqlite/, 'audit_log'],
+  [/(^|\/)\.data\/approvals(\.|\/|$)/, 'approval_state'],
+  [/(^|\/)\.data\/run(s|-control)(\/|$)/, 'run_control'],
+];
+
+const allow: PolicyDecision = { verdict: 'ALLOW' };
+
+export interface PolicyEvalOptions {
+  /** Evaluate without counting the call against rate limits, e.g. for `policy test` */
+  dryRun?: boolean;
+  /** Clock for time-window rules (default: now) */
+  now?: Date;
+}
+
+export interface PolicyRuleTrace {
+  rule: string;
+  source: 'builtin'|'file';
+  matched: boolean;
+  detail: string;
+}
+
+export interface PolicyExplanation {
+  /** Policy file in force, if any */
+  config: string|null;
+  decision: PolicyDecision;
+  /** Rules checked, in evaluation order, up to the one that decided */
+  rules: PolicyRuleTrace[];
+}
+
+// Call timestamps per rate-limited rule (and domain or tool, when limited per either)
+const rateWindows = new Map<string, number[]>();
+
+/**
+ * Decide whether a plan step may run, in the domain and at the autonomy level of its run
+ */
+export function evaluatePolicy(step: any, options?: PolicyEvalOptions, scope?: Pick<PolicyInput, 'domain' | 'autonomyLevel'>): PolicyDecision {
+  const plan = { domain: scope?.domain, autonomyLevel: scope?.autonomyLevel, source: 'plan' as const };
+  // Steps that run a tool indirectly get the same rules as the direct step
+  if(step.type==='custom' && typeof step.params?.action==='string'){
+    return evaluateToolPolicy({ tool: step.params.action, args: step.params.params || {}, ...plan }, options);
+  }
+  if(step.type==='verify' && step.params?.type==='command_succeeds'){
+    return evaluateToolPolicy({ tool: 'terminal', args: { cmd: step.params.target }, ...plan }, options);
+  }
+  return evaluateToolPolicy({ tool: step.type, args: step.params || {}, ...plan }, options);
+}
+
+/**
+ * Decide whether a tool call may run, from its name, arguments, domain and autonomy level
+ */
+export function evaluateToolPolicy(input: PolicyInput, options?: PolicyEvalOptions): PolicyDecision {
+  return explainToolPolicy(input, options).decision;
+}
+
+/**
+ * Evaluate a tool call and report which rules were checked and which one decided.
+ * Order: built-in hard limits, then the policy file's rules (first match wins), then the
+ * built-in rules (unless the file turns them off), then the file's default verdict.
+ */
+export function explainToolPolicy(input: PolicyInput, options?: PolicyEvalOptions): PolicyExplanation {
+  const policy = getActivePolicy();
+  const rules: PolicyRuleTrace[] = [];
+  const done = (decision: PolicyDecision): PolicyExplanation => ({ config: policy.path, decision, rules });
+
+  // A broken policy file with no earlier valid version fails closed
+  if (policy.error && !policy.config) {
+    rules.push({ rule: 'policy_config_invalid', source: 'file', matched: true, detail: policy.error });
+    return done({ verdict: 'DENY', reason: 'policy file is invalid', rule: 'policy_config_invalid', source: 'file' });
+  }
+
+  const hard = hardLimits(input);
+  rules.push({ rule: 'hard_limits', source: 'builtin', matched: !!hard, detail: hard ? hard.reason! : 'no blocked command, protected path or forbidden URL' });
+  if (hard) return done({ ...hard, source: 'builtin' });
+
+  const config = policy.config;
+  const now = options?.now ?? new Date();
+  for (const rule of config?.rules ?? []) {
+    const result = matchRule(rule, input, now);
+    if (result.matched && rule.rateLimit) {
+      const limit = rule.rateLimit;
+      const key = `${rule.id}|${limit.per === 'domain' ? input.domain ?? '' : limit.per === 'tool' ? input.tool : ''}`;
+      const recent = (rateWindows.get(key) ?? []).filter(t => t > now.getTime() - limit.windowSec * 1000);
+      if (recent.length < limit.max) {
+        if (!options?.dryRun) recent.push(now.getTime());
+        rateWindows.set(key, recent);
+        rules.push({ rule: rule.id, source: 'file', matched: false, detail: `within rate limit (${recent.length}/${limit.max} per ${limit.windowSec}s)` });
+        continue;
+      }
+      rateWindows.set(key, recent);
+      result.detail = `rate limit exceeded (${limit.max} per ${limit.windowSec}s)`;
+    }
+    rules.push({ rule: rule.id, source: 'file', matched: result.matched, detail: result.detail });
+    if (result.matched) {
+      return done({ verdict: rule.verdict, reason: rule.reason || rule.description || result.detail, rule: rule.id, source: 'file' });
+    }
+  }
+
+  if (config?.builtinRules !== false) {
+    const builtin = builtinPolicy(input);
+    rules.push({ rule: builtin.rule || 'builtin', source: 'builtin', matched: builtin.verdict !== 'ALLOW', detail: builtin.reason || 'built-in rules raise no objection' });
+    if (builtin.verdict !== 'ALLOW') return done({ ...builtin, source: 'builtin' });
+  }
+
+  const verdict = config?.default ?? 'ALLOW';
+  return done(verdict === 'ALLOW' ? { ...allow, source: 'default' } : { verdict, reason: 'no rule allows this call', rule: 'default', source: 'default' });
+}
+
+/**
+ * Plan step sandbox: the policy file's `sandbox` section, or the defaults in config/sandbox.ts
+ */
+export function getSandbox(): { allowedRoot: string; allowedTerminal: RegExp[] } {
+  const sandbox = getActivePolicy().config?.sandbox;
+  return {
+    allowedRoot: sandbox?.root ?? SANDBOX.allowedRoot,
+    allowedTerminal: sandbox?.terminal ? sandbox.terminal.map(p => new RegExp(p)) : SANDBOX.allowedTerminal,
+  };
+}
+
+/**
+ * Checks no policy file can override: destructive commands, secrets and the audit trail,
+ * non-http URLs and cloud metadata endpoints
+ */
+function hardLimits(input: PolicyInput): PolicyDecision | null {
+  const { tool, args } = input;
+  if (tool === 'terminal') {
+    const cmd = String(args.cmd||'');
+    const blocked = BLOCKED_COMMANDS.find(([rx]) => rx.test(cmd));
+    if (blocked) return { verdict: 'DENY', reason: `command blocked (${blocked[1]})`, rule: blocked[1] };
+    if (deletesRootOrHome(cmd, typeof args.cwd === 'string' ? args.cwd : undefined)) {
+      return { verdict: 'DENY', reason: 'command blocked (rm_root_or_home)', rule: 'rm_root_or_home' };
+    }
+  }
+  const policyFiles = policyConfigCandidates();
+  for (const p of callPaths(input)) {
+    const normalized = resolve(p).replace(/\\/g, '/');
+    const protectedPath = PROTECTED_PATHS.find(([rx]) => rx.test(normalized));
+    if (protectedPath) return { verdict: 'DENY', reason: `protected path: ${p}`, rule: protectedPath[1] };
+    // The agent must not be able to rewrite its own guardrails
+    if (policyFiles.includes(resolve(p))) return { verdict: 'DENY', reason: `protected path: ${p}`, rule: 'policy_file' };
+  }
+  if ((tool === 'web_fetch' || tool === 'http' || tool === 'browser') && typeof args.url === 'string') {
+    return checkUrl(args.url);
+  }
+  return null;
+}
+
+/**
+ * Built-in rules: the sandbox for plan steps, the workspace for agent calls, and the
+ * action's risk against the domain's autonomy level
+ */
+function builtinPolicy(input: PolicyInput): PolicyDecision {
+  const { tool, args } = input;
+  const source = input.source ?? 'agent';
+
+  if (tool === 'filesystem' || tool === 'editor') {
+    const paths = [args.path, args.destination].filter((p): p is string => typeof p === 'string');
+    if (source === 'plan') {
+      const { allowedRoot } = getSandbox();
+      if(!paths.length || paths.some(p => !p.startsWith(allowedRoot))) return { verdict:'DENY', reason:'path_outside_sandbox', rule: 'sandbox_root' };
+      return allow;
+    }
+    for (const p of paths) {
+      const denied = checkWorkspacePath(p);
+      if (denied) return denied;
+    }
+  }
+
+  if (tool === 'terminal') {
+    const cmd = String(args.cmd||'');
+    if (source === 'plan') {
+      if(!getSandbox().allowedTerminal.some(rx=>rx.test(cmd))) return { verdict:'DENY', reason:'terminal_cmd_not_whitelisted', rule: 'sandbox_terminal' };
+      return allow;
+    }
+    if (typeof args.cwd === 'string') {
+      const denied = checkWorkspacePath(args.cwd);
+      if (denied) return denied;
+    }
+  }
+
+  // Direct agent-side calls without a domain have no autonomy level to compare against.
+  // Plan steps without one are held to 0: only risk-free actions run without asking.
+  if (input.autonomyLevel === undefined && source !== 'plan') return allow;
+  const autonomyLevel = input.autonomyLevel ?? 0;
+
+  const { action, risk } = getActionRisk(tool, args, getActivePolicy().config?.risk);
+  const verdict = riskVerdict(risk, autonomyLevel);
+  if (verdict === 'ALLOW') return allow;
+  const domain = input.domain ? `${input.domain} ` : '';
+  return {
+    verdict,
+    reason: `${action} (risk ${risk}) exceeds ${domain}autonomy ${autonomyLevel}`,
+    rule: 'autonomy_gate',
+  };
+}
+
+/**
+ * A file rule applies when every condition in `match` holds and `except` (if any) does not
+ */
+function matchRule(rule: PolicyRule, input: PolicyInput, now: Date): { matched: boolean; detail: string } {
+  const miss = matchConditions(rule.match, input, now);
+  if (miss) return { matched: false, detail: miss };
+  if (rule.except && matchConditions(rule.except, input, now) === null) {
+    return { matched: false, detail: 'excepted' };
+  }
+  return { matched: true, detail: 'all conditions hold' };
+}
+
+/**
+ * Returns the first condition that does not hold, or null when all do. Lists within a
+ * condition are alternatives.
+ */
+function matchConditions(m: PolicyMatch, input: PolicyInput, now: Date): string | null {
+  const { tool, args } = input;
+  if (m.tools && !list(m.tools).some(t => wildcard(t).test(tool))) return `tool ${tool} not in tools`;
+  if (m.domains && !(input.domain && list(m.domains).some(d => wildcard(d).test(input.domain!)))) return `domain ${input.domain ?? '(none)'} not in domains`;
+  if (m.source && m.source !== (input.source ?? 'agent')) return `source is not ${m.source}`;
+  if (m.autonomyBelow !== undefined && !(input.autonomyLevel !== undefined && input.autonomyLevel < m.autonomyBelow)) {
+    return `autonomy ${input.autonomyLevel ?? '(unknown)'} not below ${m.autonomyBelow}`;
+  }
+
+  for (const [key, expected] of Object.entries(m.args ?? {})) {
+    if (!list(expected).some(v => String(v) === String(args[key]))) return `args.${key} does not match`;
+  }
+
+  if (m.paths) {
+    const globs = list(m.paths).map(pathGlob);
+    if (!callPaths(input).some(p => globs.some(g => g(p)))) return 'no path matches paths';
+  }
+
+  if (m.commands) {
+    const cmd = typeof args.cmd === 'string' ? args.cmd : null;
+    if (cmd === null || !list(m.commands).some(rx => new RegExp(rx).test(cmd))) return 'command does not match commands';
+  }
+
+  if (m.hosts) {
+    let host: string | null = null;
+    try { host = typeof args.url === 'string' ? new URL(args.url).hostname : null; } catch { /* not a URL */ }
+    if (host === null || !list(m.hosts).some(h => wildcard(h).test(host!))) return `host ${host ?? '(none)'} not in hosts`;
+  }
+
+  if (m.time && !inTimeWindow(m.time, now)) return 'outside time window';
+  return null;
+}
+
+function list<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * `*` matches anything, e.g. "github_*" or "*.example.com"
+ */
+function wildcard(pattern: string): RegExp {
+  return new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`, 'i');
+}
+
+/**
+ * Path glob (`*`, `**`, `?`). Absolute globs match the resolved path; relative ones match
+ * the path relative to the working directory.
+ */
+function pathGlob(glob: string): (path: string) => boolean {
+  const tokens = new Map([['**/', '(.*/)?'], ['**', '.*'], ['*', '[^/]*'], ['?', '[^/]']]);
+  const source = glob.replace(/\\/g, '/').split(/(\*\*\/?|\*|\?)/).map(part => tokens.get(part) ?? escapeRegExp(part)).join('');
+  const rx = new RegExp(`^${source}$`);
+  const absolute = isAbsolute(glob);
+  return path => {
+    const abs = resolve(path);
+    return rx.test((absolute ? abs : relative(process.cwd(), abs)).replace(/\\/g, '/'));
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Paths a call touches: filesystem/editor path and destination; for the terminal, its cwd
+ * and every path the command line refers to
+ */
+function callPaths({ tool, args }: PolicyInput): string[] {
+  if (tool === 'terminal') {
+    const cwd = typeof args.cwd === 'string' ? args.cwd : undefined;
+    return [...(cwd ? [cwd] : []), ...(typeof args.cmd === 'string' ? commandPaths(args.cmd, cwd) : [])];
+  }
+  return ['path', 'destination'].map(k => args[k]).filter((p): p is string => typeof p === 'string');
+}
+
+function inTimeWindow(window: NonNullable<PolicyMatch['time']>, now: Date): boolean {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: window.timezone, weekday: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+  const day = part('weekday').toLowerCase().slice(0, 3);
+  if (window.days && !window.days.includes(day as any)) return false;
+  if (!window.from || !window.to) return true;
+
+  const minutes = (hhmm: string) => Number(hhmm.slice(0, 2)) * 60 + Number(hhmm.slice(3, 5));
+  const current = Number(part('hour')) * 60 + Number(part('minute'));
+  const from = minutes(window.from);
+  const to = minutes(window.to);
+  // A window like 22:00-06:00 wraps past midnight
+  return from <= to ? current >= from && current < to : current >= from || current < to;
+}
+
+/**
+ * Agent file access must stay inside the workspace roots
+ */
+function checkWorkspacePath(path: string): PolicyDecision | null {
+  const abs = resolve(path);
+  const inside = agentWorkspaceRoots().some(root => {
+    const rel = relative(root, abs);
+    return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
+  });
+  if (!inside) return { verdict: 'DENY', reason: `path_outside_workspace: ${path}`, rule: 'workspace_root' };
+  return null;
+}
+
+/**
+ * Only http(s) URLs, and never cloud metadata endpoints
+ */
+function checkUrl(url: string): PolicyDecision | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { verdict: 'DENY', reason: `invalid URL: ${url}`, rule: 'url_invalid' };
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return { verdict: 'DENY', reason: `URL scheme not allowed: ${parsed.protocol}`, rule: 'url_scheme' };
+  }
+  if (['169.254.169.254', 'metadata.google.internal', '[fd00:ec2::254]'].includes(parsed.hostname)) {
+    return { verdict: 'DENY', reason: 'cloud metadata endpoint', rule: 'url_metadata' };
+  }
+  return null;
 }
@@ -0,0 +1,146 @@
+/**
+ * Action Risk
+ * Risk scores (0-1) per tool and operation, compared against the calling domain's
+ * autonomy level: actions within it run, somewhat riskier ones need approval and the
+ * rest are denied
+ */
+
+import type { PolicyVerdict } from './policy.js';
+import { ALL_BRAINS } from '../domains/brains/index.js';
+import type { DomainId } from '../domains/types.js';
+
+// Actions up to this much riskier than the domain's autonomy level can be approved
+export const APPROVAL_BAND = 0.4;
+
+// Tools without a score (integrations, MCP)
+const DEFAULT_RISK = 0.5;
+
+// Keyed by tool, or tool.op where op is the call's op, action or method argument
+export const ACTION_RISK: Record<string, number> = {
+  'think': 0,
+  'report': 0,
+  'request_approval': 0,
+  'retrieve_output': 0,
+  // Plan-only step types; command_succeeds checks are scored as terminal commands
+  'verify': 0,
+  'policy': 0,
+  'audit': 0,
+  'search': 0.1,
+  'web_search': 0.1,
+  'web_fetch': 0.1,
+  'image_analyze': 0.1,
+  'memory': 0.1,
+  'memory.store': 0.2,
+  'tts': 0.2,
+  'delegate': 0.3,
+  'filesystem.read': 0,
+  'filesystem.list': 0,
+  'filesystem.mkdir': 0.2,
+  'filesystem.write': 0.3,
+  'filesystem.copy': 0.3,
+  'filesystem.chmod': 0.5,
+  'filesystem.move': 0.5,
+  'filesystem.delete': 0.6,
+  'editor': 0.3,
+  'terminal': 0.5,
+  'terminal.recursive_delete': 0.7,
+  'terminal.git_push': 0.7,
+  'terminal.git_reset_hard': 0.7,
+  'terminal.infrastructure': 0.8,
+  'terminal.sudo': 0.9,
+  'terminal.package_publish': 0.9,
+  'http.get': 0.2,
+  'http.post': 0.5,
+  'http.put': 0.5,
+  'http.patch': 0.5,
+  'http.delete': 0.6,
+  'browser': 0.3,
+  'browser.evaluate': 0.5,
+  'computer': 0.6,
+  'computer.screenshot': 0.2,
+  'computer.screenshot_region': 0.2,
+  'computer.screenshot_window': 0.2,
+  'computer.get_mouse_position': 0.1,
+  'computer.get_screen_info': 0.1,
+  'computer.window_list': 0.1,
+  'computer.window_info': 0.1,
+  'computer.window_find': 0.1,
+  'computer.clipboard_get': 0.4,
+  'journal': 0.1,
+  'journal.rollback_entry': 0.6,
+  'journal.rollback_run': 0.7,
+  'email': 0.6,
+  'email.send': 0.6,
+  'email.send_template': 0.6,
+  'calendar': 0.1,
+  'calendar.create': 0.4,
+  'calendar.delete': 0.5,
+  'slack': 0.1,
+  'slack.notify': 0.4,
+  'slack.send': 0.5,
+  'notify': 0.3,
+};
+
+// Terminal commands scored above a plain command, as terminal.<name>
+const RISKY_COMMANDS: Array<[RegExp, string]> = [
+  [/\bsudo\b/, 'sudo'],
+  [/\b(npm|yarn|pnpm)\s+publish\b/, 'package_publish'],
+  [/\b(kubectl|terraform|helm)\b/, 'infrastructure'],
+  [/\brm\s+-[a-zA-Z]*r/, 'recursive_delete'],
+  [/\bgit\s+push\b/, 'git_push'],
+  [/\bgit\s+reset\s+--hard\b/, 'git_reset_hard'],
+];
+
+export interface ActionRisk {
+  /** Most specific key that has a score, e.g. "email.send" or "email" */
+  action: string;
+  risk: number;
+}
+
+/**
+ * Risk of a tool call. `overrides` (from the policy file) take precedence over the built-in scores.
+ */
+export function getActionRisk(tool: string, args: Record<string, any>, overrides?: Record<string, number>): ActionRisk {
+  const scores = { ...ACTION_RISK, ...overrides };
+  let op: string | undefined;
+  if (tool === 'delegate') {
+    // A sub-agent acts on its own up to the target domain's autonomy level, so handing it
+    // work is at least as risky as anything that domain may do without asking
+    const target = ALL_BRAINS[args.domain as DomainId];
+    const risk = Math.max(scores.delegate ?? DEFAULT_RISK, target ? target.autonomyLevel ?? 0.7 : 0);
+    return { action: 'delegate', risk };
+  }
+  if (tool === 'terminal') {
+    const cmd = String(args.cmd || '');
+    const risky = RISKY_COMMANDS.filter(([rx]) => rx.test(cmd)).map(([, name]) => `terminal.${name}`);
+    // Several risky parts in one command: the riskiest counts
+    const key = risky.sort((a, b) => (scores[b] ?? 0) - (scores[a] ?? 0))[0];
+    op = key?.slice('terminal.'.length);
+  } else {
+    const value = args.op ?? args.action ?? args.method;
+    op = typeof value === 'string' ? value.toLowerCase() : undefined;
+  }
+
+  for (const action of op ? [`${tool}.${op}`, tool] : [tool]) {
+    if (scores[action] !== undefined) return { action, risk: scores[action] };
+  }
+  return { action: op ? `${tool}.${op}` : tool, risk: DEFAULT_RISK };
+}
+
+/**
+ * Within the autonomy level: run; up to APPROVAL_BAND above it: ask; beyond: deny
+ */
+export function riskVerdict(risk: number, autonomyLevel: number): PolicyVerdict {
+  if (risk <= autonomyLevel) return 'ALLOW';
+  if (risk <= autonomyLevel + APPROVAL_BAND) return 'REQUIRE_APPROVAL';
+  return 'DENY';
+}
+
+/**
+ * Verdict for every scored action at an autonomy level, lowest risk first
+ */
+export function decisionMatrix(autonomyLevel: number, overrides?: Record<string, number>): Array<ActionRisk & { verdict: PolicyVerdict }> {
+  return Object.entries({ ...ACTION_RISK, ...overrides })
+    .map(([action, risk]) => ({ action, risk, verdict: riskVerdict(risk, autonomyLevel) }))
+    .sort((a, b) => a.risk - b.risk || a.action.localeCompare(b.action));
+}
@@ -0,0 +1,171 @@
+/**
+ * Step Validators
+ * Post-step checks declared on PlanStep.validate, looked up by type in a registry
+ * so integrations can add their own
+ */
+
+import { z } from 'zod';
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import type { PlanStep, RunContext, ValidatorSpec } from '../core/types.js';
+import { evaluateToolPolicy, type PolicyInput } from './policy.js';
+
+export interface ValidationOutcome {
+  ok: boolean;
+  message?: string;
+}
+
+export type StepValidator = (ctx: RunContext, step: PlanStep, result: any, spec: ValidatorSpec) => Promise<ValidationOutcome>;
+
+export class ValidatorRegistry {
+  private validators: Map<string, StepValidator> = new Map();
+
+  register(type: string, validator: StepValidator): void {
+    this.validators.set(type, validator);
+  }
+
+  get(type: string): StepValidator | undefined {
+    return this.validators.get(type);
+  }
+
+  list(): string[] {
+    return [...this.validators.keys()];
+  }
+}
+
+/**
+ * Validators that read files or make requests are held to the same policy as the plan
+ * step that would do it: a filesystem read or an http call
+ */
+function policyDenial(ctx: RunContext, input: Pick<PolicyInput, 'tool' | 'args'>): ValidationOutcome | null {
+  const decision = evaluateToolPolicy({ ...input, domain: ctx.domain, autonomyLevel: ctx.autonomyLevel, source: 'plan' });
+  return decision.verdict === 'ALLOW' ? null : { ok: false, message: `blocked by policy: ${decision.reason}` };
+}
+
+const ExitCodeSpec = z.object({ equals: z.number().int().default(0) });
+
+/**
+ * Exit code of a terminal step (default: 0)
+ */
+const exitCode: StepValidator = async (_ctx, _step, result, spec) => {
+  const { equals } = ExitCodeSpec.parse(spec);
+  const actual = result?.exitCode;
+  return actual === equals ? { ok: true } : { ok: false, message: `exit code ${actual ?? 'unknown'}, expected ${equals}` };
+};
+
+const StdoutSpec = z.object({ pattern: z.string(), flags: z.string().optional() });
+
+/**
+ * Stdout matches a regular expression
+ */
+const stdoutMatches: StepValidator = async (_ctx, _step, result, spec) => {
+  const { pattern, flags } = StdoutSpec.parse(spec);
+  return new RegExp(pattern, flags).test(result?.stdout || '')
+    ? { ok: true }
+    : { ok: false, message: `stdout does not match /${pattern}/${flags || ''}` };
+};
+
+const JsonPathSpec = z.object({
+  path: z.string(),
+  equals: z.unknown().optional(),
+  exists: z.boolean().optional(),
+  source: z.enum(['stdout', 'data']).optional(),
+});
+
+/**
+ * Value at a path ("$.items[0].id" or "items.0.id") in the step's JSON stdout or result data
+ * equals a value, or exists (the default check)
+ */
+const jsonPath: StepValidator = async (_ctx, _step, result, spec) => {
+  const p = JsonPathSpec.parse(spec);
+  const source = p.source ?? (typeof result?.stdout === 'string' ? 'stdout' : 'data');
+
+  let root: unknown = result?.data;
+  if (source === 'stdout') {
+    try {
+      root = JSON.parse(result?.stdout || '');
+    } catch {
+      return { ok: false, message: 'stdout is not JSON' };
+    }
+  }
+
+  const keys = p.path.replace(/^\$\.?/, '').split(/\.|\[(\d+)\]/).filter(k => k !== undefined && k !== '');
+  let value: any = root;
+  for (const key of keys) {
+    value = value !== null && typeof value === 'object' ? value[key] : undefined;
+  }
+
+  if (p.equals !== undefined) {
+    return JSON.stringify(value) === JSON.stringify(p.equals)
+      ? { ok: true }
+      : { ok: false, message: `${p.path} is ${JSON.stringify(value)}, expected ${JSON.stringify(p.equals)}` };
+  }
+  const shouldExist = p.exists ?? true;
+  return (value !== undefined) === shouldExist
+    ? { ok: true }
+    : { ok: false, message: `${p.path} ${shouldExist ? 'does not exist' : 'exists'}` };
+};
+
+const FileHashSpec = z.object({
+  path: z.string(),
+  hash: z.string(),
+  algorithm: z.enum(['sha256', 'sha1', 'md5']).default('sha256'),
+});
+
+/**
+ * File content hashes to the expected hex digest
+ */
+const fileHash: StepValidator = async (ctx, _step, _result, spec) => {
+  const p = FileHashSpec.parse(spec);
+  const denied = policyDenial(ctx, { tool: 'filesystem', args: { op: 'read', path: p.path } });
+  if (denied) return denied;
+
+  let actual: string;
+  try {
+    actual = createHash(p.algorithm).update(await readFile(p.path)).digest('hex');
+  } catch (e: any) {
+    return { ok: false, message: `cannot read ${p.path}: ${e.message}` };
+  }
+  return actual === p.hash.toLowerCase()
+    ? { ok: true }
+    : { ok: false, message: `${p.algorithm} of ${p.path} is ${actual}, expected ${p.hash}` };
+};
+
+const HttpStatusSpec = z.object({
+  url: z.string().url(),
+  status: z.number().int().default(200),
+  method: z.string().default('GET'),
+  timeoutMs: z.number().int().positive().default(10000),
+});
+
+/**
+ * A URL responds with the expected status, e.g. a service a step deployed is up
+ */
+const httpStatus: StepValidator = async (ctx, _step, _result, spec) => {
+  const p = HttpStatusSpec.parse(spec);
+  const denied = policyDenial(ctx, { tool: 'http', args: { url: p.url, method: p.method } });
+  if (denied) return denied;
+
+  try {
+    const response = await fetch(p.url, { method: p.method, signal: AbortSignal.timeout(p.timeoutMs) });
+    return response.status === p.status
+      ? { ok: true }
+      : { ok: false, message: `${p.method} ${p.url} returned ${response.status}, expected ${p.status}` };
+  } catch (e: any) {
+    return { ok: false, message: `${p.method} ${p.url} failed: ${e.message}` };
+  }
+};
+
+let registry: ValidatorRegistry | null = null;
+
+export function getValidatorRegistry(): ValidatorRegistry {
+  if (!registry) {
+    registry = new ValidatorRegistry();
+    registry.register('exit_code', exitCode);
+    registry.register('stdout_matches', stdoutMatches);
+    registry.register('json_path', jsonPath);
+    registry.register('file_hash', fileHash);
+    registry.register('http_status', httpStatus);
+  }
+  return registry;
+}
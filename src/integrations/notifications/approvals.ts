@@ -0,0 +1,221 @@
+/**
+ * Approval Store
+ * Persists approval requests in SQLite (.data/approvals.sqlite) so they survive restarts
+ * and can be answered from another process (CLI, web server) while the requesting run
+ * waits. Every change re-reads the row inside an immediate transaction, so concurrent
+ * writers from different processes cannot overwrite each other's answers.
+ */
+
+import Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync } from 'fs';
+import type { RunId } from '../../core/types.js';
+
+const DB_PATH = '.data/approvals.sqlite';
+// Decided and expired approvals kept for the history listing
+const MAX_HISTORY = 200;
+
+export type ApprovalStatus = 'pending' | 'approved' | 'denied' | 'expired';
+export type ApprovalImpact = 'low' | 'medium' | 'high' | 'critical';
+
+export interface ApprovalRecord {
+  id: string;
+  /**
+   * Identifies the request within a run; asking again with the same key (e.g. after a
+   * restart) returns the existing approval instead of creating another
+   */
+  key?: string;
+  runId?: RunId;
+  action: string;
+  reason: string;
+  impact: ApprovalImpact;
+  /** Tool call awaiting the answer, for policy-triggered approvals */
+  tool?: string;
+  args?: Record<string, any>;
+  /** Policy rule that required the approval */
+  rule?: string;
+  status: ApprovalStatus;
+  createdAt: number;
+  expiresAt: number;
+  decidedAt?: number;
+  /** Where the answer came from: api, cli, slack... */
+  decidedBy?: string;
+  comment?: string;
+  /** When the requester acted on the answer */
+  consumedAt?: number;
+}
+
+export interface ApprovalDecisionResult {
+  ok: boolean;
+  approval?: ApprovalRecord;
+  error?: string;
+}
+
+/**
+ * Key for ApprovalRecord.key: the same tool call from the same run gets the same key.
+ * `scope` (call or step id) tells apart identical calls made at different points of the run.
+ */
+export function approvalKey(runId: RunId, tool: string, args: unknown, ...scope: unknown[]): string {
+  return `${runId}:${createHash('sha256').update(JSON.stringify([tool, args ?? null, ...scope])).digest('hex').slice(0, 16)}`;
+}
+
+interface ApprovalRow {
+  id: string;
+  record: string;
+}
+
+export class ApprovalStore {
+  private db: Database.Database;
+
+  constructor(path: string = DB_PATH) {
+    if (!existsSync('.data')) mkdirSync('.data');
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    // Writers in other processes hold the lock only briefly
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(`CREATE TABLE IF NOT EXISTS approvals (
+      id TEXT PRIMARY KEY,
+      key TEXT,
+      status TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL,
+      record TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS approvals_key ON approvals (key);
+    CREATE INDEX IF NOT EXISTS approvals_status ON approvals (status, created_at);`);
+  }
+
+  /**
+   * Approvals, newest first. Pending approvals past their deadline are marked expired.
+   */
+  list(status?: ApprovalStatus): ApprovalRecord[] {
+    this.expireStale();
+    const rows = (status
+      ? this.db.prepare('SELECT id, record FROM approvals WHERE status = ? ORDER BY created_at DESC').all(status)
+      : this.db.prepare('SELECT id, record FROM approvals ORDER BY created_at DESC').all()) as ApprovalRow[];
+    return rows.map(r => JSON.parse(r.record));
+  }
+
+  get(id: string): ApprovalRecord | undefined {
+    this.expireStale();
+    return this.read(id);
+  }
+
+  /**
+   * The approval as stored, without expiring stale ones first. Cheap enough to poll: it
+   * takes no write lock, so waiting runs do not hold up writers in other processes.
+   */
+  peek(id: string): ApprovalRecord | undefined {
+    return this.read(id);
+  }
+
+  /**
+   * Latest approval with this key that is still pending or was answered and not yet used
+   */
+  findByKey(key: string): ApprovalRecord | undefined {
+    this.expireStale();
+    const rows = this.db.prepare('SELECT id, record FROM approvals WHERE key = ? ORDER BY created_at DESC').all(key) as ApprovalRow[];
+    return rows.map(r => JSON.parse(r.record) as ApprovalRecord).find(a => a.status !== 'expired' && !a.consumedAt);
+  }
+
+  create(request: Omit<ApprovalRecord, 'id' | 'status' | 'createdAt'>): ApprovalRecord {
+    const now = Date.now();
+    const record: ApprovalRecord = {
+      ...request,
+      id: `approval-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      status: 'pending',
+      createdAt: now,
+    };
+    this.db.transaction(() => {
+      this.db.prepare('INSERT INTO approvals (id, key, status, created_at, expires_at, record) VALUES (?, ?, ?, ?, ?, ?)')
+        .run(record.id, record.key ?? null, record.status, record.createdAt, record.expiresAt, JSON.stringify(record));
+      this.prune();
+    }).immediate();
+    return record;
+  }
+
+  /**
+   * Answer a pending approval
+   */
+  decide(id: string, approved: boolean, decidedBy: string, comment?: string): ApprovalDecisionResult {
+    return this.db.transaction((): ApprovalDecisionResult => {
+      this.expireStale();
+      const record = this.read(id);
+      if (!record) {
+        return { ok: false, error: 'Approval not found' };
+      }
+      if (record.status !== 'pending') {
+        return { ok: false, approval: record, error: `Approval is already ${record.status}` };
+      }
+      const decided: ApprovalRecord = { ...record, status: approved ? 'approved' : 'denied', decidedAt: Date.now(), decidedBy, comment };
+      this.write(decided);
+      return { ok: true, approval: decided };
+    }).immediate();
+  }
+
+  /**
+   * Mark a pending approval expired (its requester stopped waiting). Returns the approval
+   * as it stands, which may have been answered in the meantime.
+   */
+  expire(id: string): ApprovalRecord | undefined {
+    return this.db.transaction(() => {
+      const record = this.read(id);
+      if (record?.status !== 'pending') return record;
+      const expired: ApprovalRecord = { ...record, status: 'expired', decidedAt: Date.now() };
+      this.write(expired);
+      return expired;
+    }).immediate();
+  }
+
+  /**
+   * Record that the requester acted on the answer, so asking again with the same key
+   * creates a new approval instead of reusing this one
+   */
+  consume(id: string): void {
+    this.db.transaction(() => {
+      const record = this.read(id);
+      if (record && record.status !== 'pending' && !record.consumedAt) {
+        this.write({ ...record, consumedAt: Date.now() });
+      }
+    }).immediate();
+  }
+
+  private read(id: string): ApprovalRecord | undefined {
+    const row = this.db.prepare('SELECT id, record FROM approvals WHERE id = ?').get(id) as ApprovalRow | undefined;
+    return row ? JSON.parse(row.record) : undefined;
+  }
+
+  private write(record: ApprovalRecord): void {
+    this.db.prepare('UPDATE approvals SET status = ?, record = ? WHERE id = ?').run(record.status, JSON.stringify(record), record.id);
+  }
+
+  private expireStale(): void {
+    const now = Date.now();
+    this.db.transaction(() => {
+      const rows = this.db.prepare("SELECT id, record FROM approvals WHERE status = 'pending' AND expires_at <= ?").all(now) as ApprovalRow[];
+      for (const row of rows) {
+        const record: ApprovalRecord = JSON.parse(row.record);
+        this.write({ ...record, status: 'expired', decidedAt: record.expiresAt });
+      }
+    }).immediate();
+  }
+
+  /**
+   * Keep every pending approval and the most recent of the rest
+   */
+  private prune(): void {
+    this.db.prepare(`DELETE FROM approvals WHERE status != 'pending' AND id NOT IN (
+      SELECT id FROM approvals WHERE status != 'pending' ORDER BY created_at DESC LIMIT ?
+    )`).run(MAX_HISTORY);
+  }
+}
+
+// Singleton
+let approvalStore: ApprovalStore | null = null;
+
+export function getApprovalStore(): ApprovalStore {
+  if (!approvalStore) {
+    approvalStore = new ApprovalStore();
+  }
+  return approvalStore;
+}
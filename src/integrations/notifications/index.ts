@@ -7,6 +7,9 @@ import { getEmailClient } from '../email/index.js';
 import { getSlackClient } from '../slack/index.js';
 import { auditEvent } from '../../audit/logger.js';
 import type { RunContext } from '../../core/types.js';
+import { getApprovalStore, type ApprovalDecisionResult, type ApprovalImpact, type ApprovalRecord } from './approvals.js';
+
+export * from './approvals.js';
 
 export type NotificationChannel = 'email' | 'slack' | 'desktop' | 'webhook' | 'all';
 export type NotificationPriority = 'low' | 'medium' | 'high' | 'urgent';
@@ -34,11 +37,35 @@ export interface Notification {
   channels?: NotificationChannel[];
 }
 
+export interface ApprovalDetails {
+  /** Stable id of the request within its run, so a restarted run finds its earlier approval */
+  key?: string;
+  /** Tool call the approval is for */
+  tool?: string;
+  args?: Record<string, any>;
+  /** Policy rule that required it */
+  rule?: string;
+  /** Stop waiting (the approval stays pending) */
+  signal?: AbortSignal;
+}
+
+export interface ApprovalOutcome {
+  approved: boolean;
+  timedOut: boolean;
+  approvalId: string;
+  decidedBy?: string;
+  comment?: string;
+}
+
 export interface NotificationResult {
   success: boolean;
   results: Record<NotificationChannel, { success: boolean; error?: string }>;
 }
 
+const DEFAULT_APPROVAL_TIMEOUT_MS = Number(process.env.APPROVAL_TIMEOUT_MS) || 5 * 60 * 1000;
+// How often a waiting run checks for answers given by another process
+const APPROVAL_POLL_MS = 1000;
+
 // Default config from env
 const defaultConfig: NotificationConfig = {
   channels: ['slack', 'email'],
@@ -60,7 +87,7 @@ export class NotificationManager {
     reason: string;
     impact: string;
     createdAt: number;
-    resolve: (approved: boolean) => void;
+    resolve: (approved: boolean, decidedBy?: string, comment?: string) => void;
   }> = new Map();
 
   constructor(config?: Partial<NotificationConfig>) {
@@ -220,68 +247,131 @@ export class NotificationManager {
   }
 
   // Approval system
+  /**
+   * Ask a human to approve an action and wait for the answer, the timeout or the signal.
+   * The request is persisted, so it can be answered from another process (CLI, web
+   * server) and, when details.key is given, picked up again after a restart.
+   */
   async requestApproval(
     action: string,
     reason: string,
-    impact: 'low' | 'medium' | 'high' | 'critical',
-    timeoutMs: number = 5 * 60 * 1000, // 5 min default
-    ctx?: RunContext
-  ): Promise<{ approved: boolean; timedOut: boolean }> {
-    const approvalId = `approval-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-
-    // Send notification
-    await this.notify({
-      type: 'approval',
-      title: `Approval Needed: ${action}`,
-      message: reason,
-      priority: impact === 'critical' ? 'urgent' : impact === 'high' ? 'high' : 'medium',
-      data: { action, reason, impact, approvalId },
-    }, ctx);
-
-    // Also send Slack with buttons if configured
-    const slack = getSlackClient();
-    if (slack.isConfigured()) {
-      await slack.sendApprovalRequest(action, reason, approvalId, this.config.slack?.channel);
+    impact: ApprovalImpact,
+    timeoutMs: number = DEFAULT_APPROVAL_TIMEOUT_MS,
+    ctx?: RunContext,
+    details?: ApprovalDetails
+  ): Promise<ApprovalOutcome> {
+    const store = getApprovalStore();
+    const existing = details?.key ? store.findByKey(details.key) : undefined;
+    if (existing && existing.status !== 'pending') {
+      // An answer given while this run was down applies once
+      store.consume(existing.id);
+      return {
+        approved: existing.status === 'approved',
+        timedOut: false,
+        approvalId: existing.id,
+        decidedBy: existing.decidedBy,
+        comment: existing.comment,
+      };
     }
 
-    // Wait for approval (with timeout)
-    return new Promise((resolve) => {
-      const timeout = setTimeout(() => {
+    const approval = existing || store.create({
+      key: details?.key,
+      runId: ctx?.runId,
+      action,
+      reason,
+      impact,
+      tool: details?.tool,
+      args: details?.args,
+      rule: details?.rule,
+      expiresAt: Date.now() + timeoutMs,
+    });
+    const approvalId = approval.id;
+
+    // A pending approval picked up after a restart was already announced
+    if (!existing) {
+      await this.notify({
+        type: 'approval',
+        title: `Approval Needed: ${action}`,
+        message: reason,
+        priority: impact === 'critical' ? 'urgent' : impact === 'high' ? 'high' : 'medium',
+        data: { action, reason, impact, approvalId },
+      }, ctx);
+
+      // Also send Slack with buttons if configured
+      const slack = getSlackClient();
+      if (slack.isConfigured()) {
+        await slack.sendApprovalRequest(action, reason, approvalId, this.config.slack?.channel);
+      }
+    }
+
+    // Wait for an answer from this process, another one (via the store) or the timeout
+    const outcome = await new Promise<ApprovalOutcome>((resolve) => {
+      const finish = (result: ApprovalOutcome) => {
+        clearTimeout(timeout);
+        clearInterval(poller);
+        details?.signal?.removeEventListener('abort', onAbort);
         this.pendingApprovals.delete(approvalId);
-        resolve({ approved: false, timedOut: true });
-      }, timeoutMs);
+        resolve(result);
+      };
+
+      const settle = (current: ApprovalRecord) => finish({
+        approved: current.status === 'approved',
+        timedOut: current.status === 'expired',
+        approvalId,
+        decidedBy: current.decidedBy,
+        comment: current.comment,
+      });
+
+      const timeout = setTimeout(() => {
+        // An answer that landed just before the deadline still counts
+        const current = store.expire(approvalId);
+        if (current) settle(current);
+        else finish({ approved: false, timedOut: true, approvalId });
+      }, Math.max(0, approval.expiresAt - Date.now()));
+
+      const poller = setInterval(() => {
+        const current = store.peek(approvalId);
+        if (current && current.status !== 'pending') settle(current);
+      }, APPROVAL_POLL_MS);
+
+      // Cancelling the run stops the wait; the approval stays pending for a resumed run
+      const onAbort = () => finish({ approved: false, timedOut: false, approvalId, comment: 'Run cancelled' });
+      if (details?.signal?.aborted) return onAbort();
+      details?.signal?.addEventListener('abort', onAbort, { once: true });
 
       this.pendingApprovals.set(approvalId, {
         action,
         reason,
         impact,
-        createdAt: Date.now(),
-        resolve: (approved: boolean) => {
-          clearTimeout(timeout);
-          this.pendingApprovals.delete(approvalId);
-          resolve({ approved, timedOut: false });
+        createdAt: approval.createdAt,
+        resolve: (approved: boolean, decidedBy?: string, comment?: string) => {
+          finish({ approved, timedOut: false, approvalId, decidedBy, comment });
         },
       });
     });
+
+    // The answer covers this call only; an approval left pending by a cancel stays available to a resumed run
+    store.consume(approvalId);
+    if (ctx) {
+      await auditEvent(ctx, 'APPROVAL_RESOLVED', { action, ...outcome });
+    }
+    return outcome;
   }
 
-  // Handle approval response (called from webhook or Slack action)
-  handleApprovalResponse(approvalId: string, approved: boolean): boolean {
-    const pending = this.pendingApprovals.get(approvalId);
-    if (pending) {
-      pending.resolve(approved);
-      return true;
+  /**
+   * Answer an approval (web API, CLI, Slack action). Works for approvals requested by
+   * any process; a run waiting in this one resumes immediately.
+   */
+  handleApprovalResponse(approvalId: string, approved: boolean, decidedBy: string = 'api', comment?: string): ApprovalDecisionResult {
+    const result = getApprovalStore().decide(approvalId, approved, decidedBy, comment);
+    if (result.ok) {
+      this.pendingApprovals.get(approvalId)?.resolve(approved, decidedBy, comment);
     }
-    return false;
+    return result;
   }
 
-  getPendingApprovals(): Array<{ id: string; action: string; reason: string; createdAt: number }> {
-    return Array.from(this.pendingApprovals.entries()).map(([id, data]) => ({
-      id,
-      action: data.action,
-      reason: data.reason,
-      createdAt: data.createdAt,
-    }));
+  getPendingApprovals(): ApprovalRecord[] {
+    return getApprovalStore().list('pending');
   }
 }
 
@@ -316,8 +406,9 @@ export async function notifyError(title: string, message: string, ctx?: RunConte
 export async function requestApproval(
   action: string,
   reason: string,
-  impact: 'low' | 'medium' | 'high' | 'critical',
-  ctx?: RunContext
-): Promise<{ approved: boolean; timedOut: boolean }> {
-  return getNotificationManager().requestApproval(action, reason, impact, undefined, ctx);
+  impact: ApprovalImpact,
+  ctx?: RunContext,
+  details?: ApprovalDetails
+): Promise<ApprovalOutcome> {
+  return getNotificationManager().requestApproval(action, reason, impact, undefined, ctx, details);
 }
@@ -33,7 +33,8 @@ export type ActionType =
   | 'browser_action'
   | 'email_send'
   | 'calendar_event'
-  | 'slack_message';
+  | 'slack_message'
+  | 'subagent_run';
 
 const JOURNAL_DIR = join(homedir(), '.agentic-employee', 'journal');
 const BACKUPS_DIR = join(homedir(), '.agentic-employee', 'backups');
@@ -249,6 +250,35 @@ export async function journalEmailSend(
   return entryId;
 }
 
+/**
+ * Record a delegated sub-agent run; rolling this entry back rolls back the child's journal
+ */
+export async function journalSubagentRun(
+  runId: string,
+  childRunId: string,
+  domain: string,
+  objective: string
+): Promise<string> {
+  const entryId = generateEntryId();
+  
+  const entry: JournalEntry = {
+    id: entryId,
+    timestamp: new Date().toISOString(),
+    runId,
+    action: 'subagent_run',
+    target: childRunId,
+    description: `Delegated to ${domain} sub-agent: ${objective.substring(0, 100)}`,
+    canRollback: true,
+    rolledBack: false,
+    metadata: { domain }
+  };
+  
+  journalEntries.push(entry);
+  await saveJournalEntry(entry);
+  
+  return entryId;
+}
+
 /**
  * Save journal entry to disk
  */
@@ -354,6 +384,16 @@ export async function rollbackEntry(entryId: string, runId: string): Promise<{
         }
         break;
         
+      case 'subagent_run': {
+        // Undo everything the sub-agent (and its own sub-agents) journaled
+        const child = await rollbackRun(entry.target);
+        const failed = child.results.filter(r => !r.success);
+        if (failed.length > 0) {
+          return { success: false, message: `Sub-agent run ${entry.target}: ${failed.length} of ${child.results.length} entries could not be rolled back` };
+        }
+        break;
+      }
+        
       default:
         return { success: false, message: `Rollback not supported for ${entry.action}` };
     }
@@ -456,6 +496,7 @@ export default {
   journalTerminalCommand,
   journalDirectoryCreate,
   journalEmailSend,
+  journalSubagentRun,
   loadJournal,
   listRecentRuns,
   rollbackEntry,
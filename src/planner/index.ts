@@ -3,10 +3,13 @@
  * Converts high-level objectives into structured execution plans
  */
 
+import { z } from 'zod/v3';
 import type { PlanStep, RunContext } from '../core/types.js';
 import type { Message } from '../ai/types.js';
 import { AIRouter, createRouterFromEnv } from '../ai/router.js';
+import { StructuredOutputError } from '../ai/errors.js';
 import { auditEvent } from '../audit/logger.js';
+import { validateSteps } from '../core/orchestrator.js';
 
 export interface Plan {
   objective: string;
@@ -16,6 +19,30 @@ export interface Plan {
   risks?: string[];
 }
 
+const planStepSchema = z.object({
+  id: z.string().optional(),
+  type: z.enum(['filesystem', 'terminal', 'editor', 'verify', 'policy', 'audit', 'custom']).optional(),
+  description: z.string().optional(),
+  params: z.record(z.unknown()).optional(),
+  deps: z.array(z.string()).optional(),
+  fallbackParams: z.record(z.unknown()).optional(),
+  retry: z.object({
+    attempts: z.number().int().positive(),
+    baseMs: z.number().optional(),
+    factor: z.number().optional(),
+    jitterPct: z.number().optional(),
+  }).optional(),
+  validate: z.array(z.object({ type: z.string() }).passthrough()).optional(),
+});
+
+const planSchema = z.object({
+  objective: z.string(),
+  steps: z.array(planStepSchema).min(1),
+  estimatedDuration: z.string().optional(),
+  requiredResources: z.array(z.string()).optional(),
+  risks: z.array(z.string()).optional(),
+});
+
 const PLANNER_SYSTEM_PROMPT = `You are a task planning AI. Your job is to break down objectives into concrete, executable steps.
 
 ## Output Format
@@ -26,11 +53,12 @@ Respond with a JSON object:
   "steps": [
     {
       "id": "s1",
-      "type": "filesystem|terminal|editor|verify|custom",
+      "type": "filesystem|terminal|editor|verify|policy|audit|custom",
       "description": "human-readable description",
       "params": { ... },
       "deps": ["s0"],  // optional: step dependencies
-      "retry": { "attempts": 3, "baseMs": 1000 }  // optional
+      "retry": { "attempts": 3, "baseMs": 1000 },  // optional
+      "validate": [{ "type": "exit_code" }]  // optional: checks on the step's result
     }
   ],
   "estimatedDuration": "5 minutes",
@@ -43,13 +71,24 @@ Respond with a JSON object:
 - **filesystem**: { op: "read|write|mkdir|chmod|list|delete", path: "...", content?: "..." }
 - **terminal**: { cmd: "...", cwd?: "..." }
 - **editor**: { path: "...", op: "replace|insert", search?: "...", replace?: "...", content?: "..." }
-- **verify**: { type: "file_exists|command_succeeds|contains", target: "...", expected?: "..." }
-- **custom**: { action: "...", params: { ... } }
+- **verify**: { type: "file_exists|command_succeeds|contains", target: "...", expected?: "..." } (target is a path, or the command for command_succeeds; expected is required for contains)
+- **policy**: { step: { type: "filesystem|terminal|...", params: { ... } } } (fails if that step would be denied, without running it)
+- **audit**: { message: "...", data?: { ... } } (records a note in the audit log)
+- **custom**: { action: "<tool name>", params: { ... } } (runs any available tool, e.g. web_fetch, memory, http)
+
+## Validators
+
+Any step can list checks its result must pass in "validate":
+- { "type": "exit_code", "equals": 0 }
+- { "type": "stdout_matches", "pattern": "regex", "flags"?: "i" }
+- { "type": "json_path", "path": "$.items[0].id", "equals"?: value, "exists"?: true, "source"?: "stdout|data" }
+- { "type": "file_hash", "path": "...", "hash": "hex digest", "algorithm"?: "sha256|sha1|md5" }
+- { "type": "http_status", "url": "...", "status"?: 200, "method"?: "GET" }
 
 ## Guidelines
 
 1. Be specific - each step should be executable without interpretation
-2. Order steps by dependencies
+2. Declare every ordering requirement in deps - steps without a dependency between them may run in parallel
 3. Include verification steps where appropriate
 4. Consider error cases and add fallbacks when possible
 5. Keep steps atomic - one clear action per step
@@ -73,24 +112,9 @@ export class Planner {
       { role: 'user', content: `Create an execution plan for: ${objective}` },
     ];
 
-    const response = await this.router.complete({ messages }, ctx);
-    
     try {
-      // Extract JSON from response
-      const jsonMatch = response.message.content.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in planner response');
-      }
-
-      const plan = JSON.parse(jsonMatch[0]) as Plan;
-      
-      // Validate and normalize steps
-      plan.steps = plan.steps.map((step, idx) => ({
-        ...step,
-        id: step.id || `s${idx}`,
-        type: step.type || 'custom',
-        params: step.params || {},
-      }));
+      const { data } = await this.router.completeStructured({ messages }, planSchema, ctx, { name: 'plan' });
+      const plan = normalizePlan(data);
 
       await auditEvent(ctx, 'PLAN_COMPLETE', { 
         stepCount: plan.steps.length,
@@ -101,6 +125,8 @@ export class Planner {
 
     } catch (error: any) {
       await auditEvent(ctx, 'PLAN_ERROR', { error: error.message });
+      // Provider failures propagate; only an unusable reply falls back to a manual plan
+      if (!(error instanceof StructuredOutputError)) throw error;
       
       // Return a simple fallback plan
       return {
@@ -109,7 +135,7 @@ export class Planner {
           id: 's0',
           type: 'custom',
           params: { action: 'manual', note: 'Could not auto-generate plan' },
-          description: response.message.content,
+          description: error.content,
         }],
         risks: ['Automatic planning failed, manual review required'],
       };
@@ -125,21 +151,17 @@ export class Planner {
       { role: 'user', content: `Original objective: ${plan.objective}\n\nCurrent plan:\n${JSON.stringify(plan, null, 2)}\n\nFeedback: ${feedback}\n\nPlease refine the plan.` },
     ];
 
-    const response = await this.router.complete({ messages }, ctx);
-    
     try {
-      const jsonMatch = response.message.content.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in planner response');
-      }
-      return JSON.parse(jsonMatch[0]) as Plan;
+      const { data } = await this.router.completeStructured({ messages }, planSchema, ctx, { name: 'plan' });
+      return normalizePlan(data);
     } catch {
       return plan; // Return original if refinement fails
     }
   }
 
   /**
-   * Validate a plan for completeness
+   * Validate a plan for completeness: unique ids, known step types, and dependencies
+   * that exist and do not form a cycle
    */
   validatePlan(plan: Plan): { valid: boolean; issues: string[] } {
     const issues: string[] = [];
@@ -148,30 +170,21 @@ export class Planner {
       issues.push('Plan has no steps');
     }
 
-    const stepIds = new Set<string>();
     for (const step of plan.steps) {
       if (!step.id) {
         issues.push(`Step missing id`);
-      } else if (stepIds.has(step.id)) {
-        issues.push(`Duplicate step id: ${step.id}`);
       }
-      stepIds.add(step.id);
 
       if (!step.type) {
         issues.push(`Step ${step.id} missing type`);
-      }
-
-      // Check dependencies exist
-      if (step.deps) {
-        for (const dep of step.deps) {
-          if (!stepIds.has(dep)) {
-            // Dependency might be later in the list, that's ok
-            // But we should check circular deps
-          }
-        }
+      } else if (!STEP_TYPES.includes(step.type)) {
+        issues.push(`Step ${step.id} has unknown type: ${step.type}`);
       }
     }
 
+    // Duplicate ids, unknown dependencies and cycles, as the orchestrator would reject them
+    issues.push(...validateSteps(plan.steps));
+
     return {
       valid: issues.length === 0,
       issues,
@@ -179,6 +192,23 @@ export class Planner {
   }
 }
 
+const STEP_TYPES: PlanStep['type'][] = ['filesystem', 'terminal', 'editor', 'verify', 'policy', 'audit', 'custom'];
+
+/**
+ * Fill in step ids, types and params the model left out
+ */
+function normalizePlan(data: z.infer<typeof planSchema>): Plan {
+  return {
+    ...data,
+    steps: data.steps.map((step, idx) => ({
+      ...step,
+      id: step.id || `s${idx}`,
+      type: step.type || 'custom',
+      params: step.params || {},
+    })),
+  };
+}
+
 /**
  * Create planner from environment
  */
@@ -9,7 +9,10 @@ export async function startDemoE2E(){
     { id:'s1', type:'filesystem', params:{ op:'mkdir', path:'demo_v2' }, deps:['s0'] },
     { id:'s2', type:'filesystem', params:{ op:'write', path:'demo_v2/main.sh', content:'#!/usr/bin/env bash\necho "Agent OK $(date -Iseconds)"\n' }, deps:['s1'] },
     { id:'s3', type:'filesystem', params:{ op:'chmod', path:'demo_v2/main.sh', mode:'755' }, deps:['s2'] },
-    { id:'s4', type:'terminal', params:{ cmd:'./demo_v2/main.sh' }, deps:['s3'], retry:{ attempts:2, baseMs:200, factor:2, jitterPct:0.1 } }
+    { id:'s4', type:'terminal', params:{ cmd:'./demo_v2/main.sh' }, deps:['s3'], retry:{ attempts:2, baseMs:200, factor:2, jitterPct:0.1 },
+      validate:[{ type:'exit_code', equals:0 }, { type:'stdout_matches', pattern:'^Agent OK ' }] }
   ];
-  await runSteps(ctx, steps);
+  const outcome = await runSteps(ctx, steps);
+  const failed = outcome.results.find(r => r.status === 'failed');
+  if (failed) throw new Error(`Step ${failed.stepId} failed: ${failed.error}`);
 }
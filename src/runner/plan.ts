@@ -0,0 +1,172 @@
+/**
+ * Plan Mode
+ * Plan → Validate → Approve → Execute → Replan: runs Planner output through the
+ * orchestrator instead of the agent loop, feeding failed steps back to the planner
+ */
+
+import type { PlanStep, RunContext, StepId } from '../core/types.js';
+import { runSteps, type StepResult } from '../core/orchestrator.js';
+import { Planner, type Plan } from '../planner/index.js';
+import { AIRouter, createRouterFromEnv } from '../ai/router.js';
+import { auditEvent } from '../audit/logger.js';
+import { initJournal } from '../journal/index.js';
+import { getBrain, type DomainId } from '../domains/index.js';
+
+export interface PlanRunOptions {
+  runId?: string;
+  router?: AIRouter;
+  /** Domain whose autonomy level gates the steps, as in an agent run (default general) */
+  domain?: DomainId;
+  /** Replans allowed after failed execution or failed validation (default 2) */
+  maxReplans?: number;
+  /**
+   * Called with each plan before it executes, including replans; returning false stops the run.
+   * Without it, plans execute unattended.
+   */
+  approve?: (plan: Plan, attempt: number) => Promise<boolean>;
+  /** Independent steps executed at once (default 4) */
+  concurrency?: number;
+  verbose?: boolean;
+}
+
+export interface PlanRunResult {
+  success: boolean;
+  /** invalid = no valid plan within the replan limit, rejected = a plan was not approved */
+  status: 'complete' | 'failed' | 'invalid' | 'rejected';
+  /** Last plan produced */
+  plan: Plan;
+  /** Outcome of every executed step, across all attempts */
+  steps: StepResult[];
+  /** Number of plans executed */
+  attempts: number;
+  errors: string[];
+  context: RunContext;
+}
+
+/**
+ * Plan an objective and execute it step by step, replanning the remainder when steps fail
+ */
+export async function runPlanObjective(objective: string, options?: PlanRunOptions): Promise<PlanRunResult> {
+  const brain = getBrain(options?.domain ?? 'general');
+  const ctx: RunContext = {
+    runId: options?.runId || `run-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    objective: { text: objective },
+    createdAt: Date.now(),
+    domain: brain.id,
+    autonomyLevel: brain.autonomyLevel ?? 0.7,
+  };
+  await initJournal(ctx.runId);
+
+  const router = options?.router || createRouterFromEnv();
+  const planner = new Planner(router);
+  const maxReplans = options?.maxReplans ?? 2;
+  const completed = new Map<StepId, PlanStep>();
+  const executed: StepResult[] = [];
+  const errors: string[] = [];
+  let replans = 0;
+  let attempts = 0;
+
+  await auditEvent(ctx, 'PLAN_MODE_START', { objective, maxReplans, domain: ctx.domain, autonomyLevel: ctx.autonomyLevel });
+  let plan = await planner.plan(ctx, objective);
+
+  const finish = async (status: PlanRunResult['status']): Promise<PlanRunResult> => {
+    await auditEvent(ctx, 'PLAN_MODE_END', { status, attempts, replans, completed: [...completed.keys()], errors });
+    router.releaseRun(ctx.runId);
+    return { success: status === 'complete', status, plan, steps: executed, attempts, errors, context: ctx };
+  };
+
+  while (true) {
+    const pruned = withoutCompleted(plan, completed);
+    plan = pruned.plan;
+    const issues = pruned.conflicts.length ? pruned.conflicts : planner.validatePlan(plan).issues;
+    if (issues.length) {
+      await auditEvent(ctx, 'PLAN_INVALID', { issues });
+      if (replans >= maxReplans) {
+        errors.push(...issues);
+        return finish('invalid');
+      }
+      replans++;
+      plan = await planner.refinePlan(ctx, plan, `The plan is invalid:\n${issues.map(i => `- ${i}`).join('\n')}`);
+      continue;
+    }
+
+    if (options?.approve) {
+      const approved = await options.approve(plan, attempts + 1);
+      await auditEvent(ctx, 'PLAN_APPROVAL', { attempt: attempts + 1, approved, stepCount: plan.steps.length });
+      if (!approved) {
+        errors.push('Plan was not approved');
+        return finish('rejected');
+      }
+    }
+
+    attempts++;
+    if (options?.verbose) {
+      console.log(`[Plan] Executing attempt ${attempts} with ${plan.steps.length} steps`);
+    }
+
+    const outcome = await runSteps(ctx, plan.steps, { concurrency: options?.concurrency });
+    executed.push(...outcome.results);
+    for (const r of outcome.results.filter(r => r.status === 'ok')) {
+      const step = plan.steps.find(s => s.id === r.stepId);
+      if (step) completed.set(r.stepId, step);
+    }
+    if (outcome.ok) {
+      return finish('complete');
+    }
+
+    const failed = outcome.results.filter(r => r.status === 'failed');
+    errors.push(...failed.map(r => `${r.stepId}: ${r.error}`));
+    if (replans >= maxReplans) {
+      return finish('failed');
+    }
+
+    replans++;
+    await auditEvent(ctx, 'PLAN_REPLAN', { attempt: attempts, failed: failed.map(r => ({ stepId: r.stepId, error: r.error })) });
+    plan = await planner.refinePlan(ctx, plan, replanFeedback(plan, outcome.results));
+  }
+}
+
+/**
+ * Feedback for refinePlan describing what ran, what failed and why
+ */
+function replanFeedback(plan: Plan, results: StepResult[]): string {
+  const describe = (id: StepId) => plan.steps.find(s => s.id === id)?.description || id;
+  const lines = ['Execution of the plan stopped short.'];
+  const done = results.filter(r => r.status === 'ok');
+  if (done.length) {
+    lines.push('', 'Completed (do not repeat these steps; later steps may still depend on their ids):');
+    done.forEach(r => lines.push(`- ${r.stepId}: ${describe(r.stepId)}`));
+  }
+  lines.push('', 'Failed:');
+  results.filter(r => r.status === 'failed').forEach(r => lines.push(`- ${r.stepId}: ${describe(r.stepId)} — ${r.error}`));
+  const skipped = results.filter(r => r.status === 'skipped');
+  if (skipped.length) {
+    lines.push('', 'Not run because a dependency failed:');
+    skipped.forEach(r => lines.push(`- ${r.stepId}: ${describe(r.stepId)}`));
+  }
+  lines.push('', 'Return a plan containing only the steps still needed, working around the failures. Give new steps ids not used by the completed steps.');
+  return lines.join('\n');
+}
+
+/**
+ * Drop steps that already succeeded and dependencies on them, so a replan that repeats
+ * or references finished steps does not run them again. A step that reuses a finished
+ * step's id for different work (e.g. a renumbered replan) is a conflict, not a repeat:
+ * the plan is returned unchanged with the conflicts so it can be sent back for new ids.
+ */
+function withoutCompleted(plan: Plan, completed: Map<StepId, PlanStep>): { plan: Plan; conflicts: string[] } {
+  if (completed.size === 0) return { plan, conflicts: [] };
+  const conflicts = plan.steps
+    .filter(s => completed.has(s.id) && !sameWork(s, completed.get(s.id)!))
+    .map(s => `Step ${s.id} reuses the id of completed step ${s.id} (${completed.get(s.id)!.description || completed.get(s.id)!.type}); give new steps ids not used by completed steps`);
+  if (conflicts.length) return { plan, conflicts };
+
+  const steps: PlanStep[] = plan.steps
+    .filter(s => !completed.has(s.id))
+    .map(s => s.deps ? { ...s, deps: s.deps.filter(d => !completed.has(d)) } : s);
+  return { plan: { ...plan, steps }, conflicts: [] };
+}
+
+function sameWork(a: PlanStep, b: PlanStep): boolean {
+  return a.type === b.type && JSON.stringify(a.params ?? {}) === JSON.stringify(b.params ?? {});
+}
@@ -94,6 +94,7 @@ class TaskScheduler {
       await auditEvent(ctx, 'SCHEDULED_TASK_END', {
         taskId: task.id,
         success: result.success,
+        status: result.status,
         iterations: result.iterations,
       });
 
@@ -111,7 +112,7 @@ class TaskScheduler {
         await getNotificationManager().notify({
           type: 'error',
           title: `Scheduled Task Failed: ${task.name}`,
-          message: result.errors.join('\n'),
+          message: `Status: ${result.status}\n${result.finalResponse.slice(0, 500)}${result.errors.length ? '\n' + result.errors.join('\n') : ''}`,
           priority: 'high',
         }, ctx);
       }
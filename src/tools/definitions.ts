@@ -39,7 +39,7 @@ export const filesystemTool: ToolDefinition = {
 
 export const terminalTool: ToolDefinition = {
   name: 'terminal',
-  description: 'Execute shell commands in the terminal',
+  description: 'Execute shell commands in the terminal. Commands have a time limit and capped output; depending on configuration they may run isolated, with limited filesystem and network access',
   parameters: {
     type: 'object',
     properties: {
@@ -53,7 +53,7 @@ export const terminalTool: ToolDefinition = {
       },
       timeout: {
         type: 'number',
-        description: 'Timeout in milliseconds (default 30000)',
+        description: 'Timeout in milliseconds (at most the sandbox limit, 120000 by default)',
       },
       background: {
         type: 'boolean',
@@ -228,6 +228,113 @@ export const reportTool: ToolDefinition = {
   },
 };
 
+export const completeTaskTool: ToolDefinition = {
+  name: 'complete_task',
+  description: 'Declare the final outcome of the objective. Call this exactly once, when you are done, blocked, or unable to continue. The run ends after this call.',
+  parameters: {
+    type: 'object',
+    properties: {
+      status: {
+        type: 'string',
+        enum: ['complete', 'blocked', 'failed'],
+        description: 'complete = objective achieved, blocked = needs human input or missing access, failed = cannot be achieved',
+      },
+      summary: {
+        type: 'string',
+        description: 'Final summary of what was done and the outcome',
+      },
+      deliverables: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            type: {
+              type: 'string',
+              enum: ['file', 'url', 'memory', 'message', 'other'],
+              description: 'Kind of deliverable',
+            },
+            ref: {
+              type: 'string',
+              description: 'Reference to the deliverable (path, URL, memory key, message id)',
+            },
+            description: {
+              type: 'string',
+              description: 'What the deliverable is',
+            },
+          },
+          required: ['type', 'ref'],
+        },
+        description: 'References to the artifacts produced by the run',
+      },
+    },
+    required: ['status', 'summary'],
+  },
+};
+
+export const delegateTool: ToolDefinition = {
+  name: 'delegate',
+  description: 'Hand a self-contained sub-task to a sub-agent running in another domain (e.g. research in one domain, drafting in another). The sub-agent works with its own budget and tools and returns its outcome, summary and deliverables. Its actions are rolled back together with this run.',
+  parameters: {
+    type: 'object',
+    properties: {
+      domain: {
+        type: 'string',
+        enum: ['general', 'developer', 'marketing', 'sales', 'operations', 'finance', 'hr', 'support'],
+        description: 'Domain brain the sub-agent runs in',
+      },
+      objective: {
+        type: 'string',
+        description: 'What the sub-agent should achieve; it does not see this conversation',
+      },
+      context: {
+        type: 'string',
+        description: 'Facts, findings or constraints from this run the sub-agent needs',
+      },
+      tools: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Names of the tools the sub-agent may use (default: all tools available here)',
+      },
+      maxIterations: {
+        type: 'number',
+        description: 'Iteration limit for the sub-agent (default: 20)',
+      },
+      maxCostUsd: {
+        type: 'number',
+        description: 'Spending limit in USD for the sub-agent, capped by what remains of this run\'s budget',
+      },
+      maxTokens: {
+        type: 'number',
+        description: 'Token limit for the sub-agent, capped by what remains of this run\'s budget',
+      },
+    },
+    required: ['domain', 'objective'],
+  },
+};
+
+export const retrieveOutputTool: ToolDefinition = {
+  name: 'retrieve_output',
+  description: 'Read more of a tool output that was truncated to save context, or attach a screenshot or image again by its media handle. Use the handle from the truncated result or attachment.',
+  parameters: {
+    type: 'object',
+    properties: {
+      handle: {
+        type: 'string',
+        description: 'Handle returned in the truncated tool result, or a media handle',
+      },
+      offset: {
+        type: 'number',
+        description: 'Character offset to start reading from (default: 0)',
+      },
+      length: {
+        type: 'number',
+        description: 'Number of characters to read (default and maximum: the truncation limit, 8000 unless configured)',
+      },
+    },
+    required: ['handle'],
+  },
+};
+
 export const computerTool: ToolDefinition = {
   name: 'computer',
   description: 'Control the computer like a human user: mouse movements, clicks, keyboard typing, screenshots, clipboard, and window management. Use this to interact with any GUI application.',
@@ -541,6 +648,9 @@ export function getBuiltinTools(): ToolDefinition[] {
     memoryTool,
     requestApprovalTool,
     reportTool,
+    completeTaskTool,
+    delegateTool,
+    retrieveOutputTool,
     computerTool,
     journalTool,
     webSearchTool,
@@ -577,8 +687,8 @@ export function getToolsByCategory(category: 'execution' | 'search' | 'memory' |
   const categories: Record<string, string[]> = {
     execution: ['filesystem', 'terminal', 'editor'],
     search: ['search'],
-    memory: ['memory'],
-    meta: ['think', 'request_approval', 'report'],
+    memory: ['memory', 'retrieve_output'],
+    meta: ['think', 'request_approval', 'report', 'complete_task', 'delegate'],
   };
   
   const toolNames = categories[category] || [];
@@ -5,18 +5,36 @@
 
 import { z } from 'zod';
 import { execFilesystem, execTerminal, execEditor } from '../execution/index.js';
+import { effectiveMode, resolveTerminalSandbox } from '../execution/terminal-sandbox.js';
 import type { RunContext } from '../core/types.js';
 import { auditEvent } from '../audit/logger.js';
 import { preCheck } from '../guardrails/hooks.js';
 import { getComputerControl } from '../computer/index.js';
 import { getMCPManager } from '../mcp/index.js';
-import { getEmailClient, getCalendarClient, getSlackClient, getNotificationManager } from '../integrations/index.js';
+import { getEmailClient, getCalendarClient, getSlackClient, getNotificationManager, approvalKey } from '../integrations/index.js';
 import * as journal from '../journal/index.js';
+import { loadToolOutput, loadToolMedia, isMediaHandle } from '../core/context.js';
+export { isReadOnlyToolCall } from './read-only.js';
+import { loadContentPart } from '../ai/content.js';
+import type { ContentPart } from '../ai/types.js';
+import type { PolicyDecision } from '../guardrails/policy.js';
+import type { AIRouter } from '../ai/router.js';
 
 export interface ToolResult {
   success: boolean;
   output: any;
   error?: string;
+  /** Images or files for the model to look at, sent alongside the JSON output */
+  attachments?: ContentPart[];
+  /** Set when the call was not executed because of a guardrail policy */
+  policy?: PolicyDecision;
+}
+
+/**
+ * Executor output that carries media besides its JSON-serializable result
+ */
+class MediaOutput {
+  constructor(public output: any, public attachments: ContentPart[]) {}
 }
 
 /**
@@ -25,8 +43,14 @@ export interface ToolResult {
 export async function executeTool(
   ctx: RunContext,
   toolName: string,
-  args: Record<string, any>
+  args: Record<string, any>,
+  options?: { signal?: AbortSignal; domain?: string; /** The run's router, for tools that call a model */ router?: AIRouter }
 ): Promise<ToolResult> {
+  const signal = options?.signal;
+  if (signal?.aborted) {
+    return { success: false, output: null, error: 'Run cancelled' };
+  }
+
   await auditEvent(ctx, 'TOOL_EXEC_START', { tool: toolName, args });
 
   try {
@@ -37,7 +61,7 @@ export async function executeTool(
         result = await executeFilesystem(ctx, args);
         break;
       case 'terminal':
-        result = await executeTerminal(ctx, args);
+        result = await executeTerminal(ctx, args, signal, options?.domain);
         break;
       case 'editor':
         result = await executeEditor(ctx, args);
@@ -53,11 +77,23 @@ export async function executeTool(
         result = await executeMemory(ctx, args);
         break;
       case 'request_approval':
-        result = await executeRequestApproval(ctx, args);
+        result = await executeRequestApproval(ctx, args, signal);
         break;
       case 'report':
         result = { reported: true, type: args.type, message: args.message };
         break;
+      case 'complete_task':
+        // The agent loop intercepts this call to end the run; outside the loop it is just acknowledged
+        result = { acknowledged: true, status: args.status, summary: args.summary };
+        break;
+      case 'delegate':
+        // Sub-agents need an agent loop to run in; the loop intercepts this call
+        throw new Error('delegate is only available inside an agent run');
+      case 'retrieve_output':
+        result = isMediaHandle(args.handle)
+          ? new MediaOutput({ handle: args.handle, note: 'Media attached again' }, [await loadToolMedia(ctx.runId, args.handle)])
+          : await loadToolOutput(ctx.runId, args.handle, args.offset, args.length);
+        break;
       case 'computer':
         result = await executeComputer(ctx, args);
         break;
@@ -77,22 +113,22 @@ export async function executeTool(
         result = await executeJournal(ctx, args);
         break;
       case 'web_search':
-        result = await executeWebSearch(ctx, args);
+        result = await executeWebSearch(ctx, args, signal);
         break;
       case 'web_fetch':
-        result = await executeWebFetch(ctx, args);
+        result = await executeWebFetch(ctx, args, signal);
         break;
       case 'browser':
         result = await executeBrowser(ctx, args);
         break;
       case 'image_analyze':
-        result = await executeImageAnalyze(ctx, args);
+        result = await executeImageAnalyze(ctx, args, signal, options?.router, options?.domain);
         break;
       case 'tts':
         result = await executeTTS(ctx, args);
         break;
       case 'http':
-        result = await executeHTTP(ctx, args);
+        result = await executeHTTP(ctx, args, signal);
         break;
       default:
         // Check if it's an MCP tool
@@ -105,6 +141,9 @@ export async function executeTool(
     }
 
     await auditEvent(ctx, 'TOOL_EXEC_END', { tool: toolName, success: true });
+    if (result instanceof MediaOutput) {
+      return { success: true, output: result.output, attachments: result.attachments };
+    }
     return { success: true, output: result };
 
   } catch (error: any) {
@@ -212,18 +251,24 @@ async function executeFilesystem(ctx: RunContext, args: any): Promise<any> {
 }
 
 /**
- * Terminal execution (with journal tracking)
+ * Terminal execution (with journal tracking), sandboxed per the calling domain
  */
-async function executeTerminal(ctx: RunContext, args: any): Promise<any> {
+async function executeTerminal(ctx: RunContext, args: any, signal?: AbortSignal, domain?: string): Promise<any> {
+  const sandbox = resolveTerminalSandbox(domain);
   const result = await execTerminal(ctx, {
     cmd: args.cmd,
     cwd: args.cwd,
-  });
+    timeoutMs: typeof args.timeout === 'number' ? args.timeout : undefined,
+  }, signal, sandbox);
   
   const output = {
     stdout: result.stdout || '',
-    stderr: result.stderr || '',
+    stderr: result.stderr || (result.ok ? '' : result.error?.message || ''),
     exitCode: result.exitCode ?? (result.ok ? 0 : 1),
+    ...(result.signal && { signal: result.signal }),
+    ...(result.timedOut && { timedOut: true }),
+    ...(result.truncated && { truncated: true }),
+    sandbox: effectiveMode(sandbox) ?? 'unavailable',
   };
   
   // Journal the terminal command (for audit, not rollbackable)
@@ -355,27 +400,30 @@ async function executeMemory(ctx: RunContext, args: any): Promise<any> {
 }
 
 /**
- * Request approval (placeholder - integrate with notification system)
+ * Request approval and wait for a human to answer (or the approval timeout).
+ * Low-impact requests are approved without asking.
  */
-async function executeRequestApproval(ctx: RunContext, args: any): Promise<any> {
+async function executeRequestApproval(ctx: RunContext, args: any, signal?: AbortSignal): Promise<any> {
   const { action, reason, impact } = args;
   
   await auditEvent(ctx, 'APPROVAL_REQUESTED', { action, reason, impact });
   
-  // In production, this would:
-  // 1. Send notification to user
-  // 2. Wait for approval or timeout
-  // 3. Return approval status
-  
-  // For now, auto-approve low impact, require manual for others
   if (impact === 'low') {
     return { approved: true, auto: true, reason: 'Low impact auto-approved' };
   }
   
+  const outcome = await getNotificationManager().requestApproval(action, reason, impact, undefined, ctx, {
+    key: approvalKey(ctx.runId, 'request_approval', args),
+    signal,
+  });
+
   return {
-    approved: false,
-    pending: true,
-    message: `Approval required for: ${action}. Reason: ${reason}. Impact: ${impact}`,
+    ...outcome,
+    message: outcome.approved
+      ? `Approved: ${action}${outcome.comment ? ` (${outcome.comment})` : ''}`
+      : outcome.timedOut
+        ? `No answer in time for: ${action}. Treat it as not approved.`
+        : `Not approved: ${action}${outcome.comment ? ` (${outcome.comment})` : ''}. Do not perform it.`,
   };
 }
 
@@ -390,19 +438,19 @@ async function executeComputer(ctx: RunContext, args: any): Promise<any> {
 
   switch (action) {
     // Screenshots
+    // The image itself is attached for the model rather than inlined as base64 in the output
     case 'screenshot': {
       const file = await computer.screenshot();
-      const base64 = await computer.screenshotBase64();
-      return { file, base64, note: 'Screenshot captured' };
+      return new MediaOutput({ file, note: 'Screenshot captured (attached)' }, [await loadContentPart(file)]);
     }
     case 'screenshot_region': {
       const { x, y, width, height } = args;
       const file = await computer.screenshotRegion(x, y, width, height);
-      return { file, note: 'Region screenshot captured' };
+      return new MediaOutput({ file, note: 'Region screenshot captured (attached)' }, [await loadContentPart(file)]);
     }
     case 'screenshot_window': {
       const file = await computer.screenshotWindow();
-      return { file, note: 'Window screenshot captured' };
+      return new MediaOutput({ file, note: 'Window screenshot captured (attached)' }, [await loadContentPart(file)]);
     }
 
     // Mouse
@@ -709,7 +757,7 @@ async function executeJournal(ctx: RunContext, args: any): Promise<any> {
 /**
  * Web Search using Brave Search API
  */
-async function executeWebSearch(ctx: RunContext, args: any): Promise<any> {
+async function executeWebSearch(ctx: RunContext, args: any, signal?: AbortSignal): Promise<any> {
   const { query, count = 5, country = 'US', freshness } = args;
   
   const apiKey = process.env.BRAVE_API_KEY;
@@ -729,6 +777,7 @@ async function executeWebSearch(ctx: RunContext, args: any): Promise<any> {
       'Accept': 'application/json',
       'X-Subscription-Token': apiKey,
     },
+    signal,
   });
 
   if (!response.ok) {
@@ -755,7 +804,7 @@ async function executeWebSearch(ctx: RunContext, args: any): Promise<any> {
 /**
  * Web Fetch - extract content from URL
  */
-async function executeWebFetch(ctx: RunContext, args: any): Promise<any> {
+async function executeWebFetch(ctx: RunContext, args: any, signal?: AbortSignal): Promise<any> {
   const { url, extractMode = 'markdown', maxChars = 50000 } = args;
 
   const response = await fetch(url, {
@@ -763,6 +812,7 @@ async function executeWebFetch(ctx: RunContext, args: any): Promise<any> {
       'User-Agent': 'Mozilla/5.0 (compatible; AgenticEmployee/1.0)',
       'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
     },
+    signal,
   });
 
   if (!response.ok) {
@@ -857,67 +907,34 @@ async function executeBrowser(ctx: RunContext, args: any): Promise<any> {
 }
 
 /**
- * Image Analysis using Vision AI
+ * Image Analysis using Vision AI, routed to a vision-capable provider. Goes through the
+ * run's router when there is one, so usage, budgets and routing overrides apply.
  */
-async function executeImageAnalyze(ctx: RunContext, args: any): Promise<any> {
+async function executeImageAnalyze(ctx: RunContext, args: any, signal?: AbortSignal, router?: AIRouter, domain?: string): Promise<any> {
   const { image, prompt = 'Describe this image in detail' } = args;
-  const { promises: fs } = await import('fs');
-  const path = await import('path');
-  
-  // Check if it's a local file or URL
-  let imageData: string;
-  let mimeType: string;
-  
-  if (image.startsWith('http://') || image.startsWith('https://')) {
-    // Fetch image from URL
-    const response = await fetch(image);
-    if (!response.ok) throw new Error(`Failed to fetch image: ${response.status}`);
-    const buffer = await response.arrayBuffer();
-    imageData = Buffer.from(buffer).toString('base64');
-    mimeType = response.headers.get('content-type') || 'image/jpeg';
-  } else {
-    // Read local file
-    const buffer = await fs.readFile(image);
-    imageData = buffer.toString('base64');
-    const ext = path.extname(image).toLowerCase();
-    mimeType = ext === '.png' ? 'image/png' : ext === '.gif' ? 'image/gif' : ext === '.webp' ? 'image/webp' : 'image/jpeg';
+  const part = await loadContentPart(image, signal);
+  if (part.type !== 'image') {
+    throw new Error(`Not an image: ${image} (${part.mimeType})`);
   }
 
-  // Use OpenAI Vision (most reliable for images)
-  const openaiKey = process.env.OPENAI_API_KEY;
-  if (!openaiKey) {
-    throw new Error('OPENAI_API_KEY required for image analysis');
+  if (!router) {
+    const { createRouterFromEnv } = await import('../ai/router.js');
+    router = createRouterFromEnv();
   }
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${openaiKey}`,
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o',
-      max_tokens: 1000,
-      messages: [{
-        role: 'user',
-        content: [
-          { type: 'text', text: prompt },
-          { type: 'image_url', image_url: { url: `data:${mimeType};base64,${imageData}` } },
-        ],
-      }],
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Vision API error: ${response.status} - ${error}`);
-  }
-
-  const data = await response.json();
+  const response = await router.complete({
+    messages: [{
+      role: 'user',
+      content: [{ type: 'text', text: prompt }, part],
+    }],
+    max_tokens: 1000,
+  }, ctx, { signal, domain });
+
+  // The analysis stands in for the image; attaching it as well would cost a vision turn for nothing
   return {
     image,
     prompt,
-    analysis: data.choices[0]?.message?.content || 'No analysis available',
+    analysis: response.message.content || 'No analysis available',
+    provider: response.provider,
   };
 }
 
@@ -968,11 +985,13 @@ async function executeTTS(ctx: RunContext, args: any): Promise<any> {
 /**
  * HTTP Request tool
  */
-async function executeHTTP(ctx: RunContext, args: any): Promise<any> {
+async function executeHTTP(ctx: RunContext, args: any, signal?: AbortSignal): Promise<any> {
   const { method, url, headers = {}, body, timeout = 30000 } = args;
 
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort);
 
   try {
     const options: RequestInit = {
@@ -1009,5 +1028,6 @@ async function executeHTTP(ctx: RunContext, args: any): Promise<any> {
     };
   } finally {
     clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
   }
 }
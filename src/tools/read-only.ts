@@ -0,0 +1,34 @@
+/**
+ * Read-only Tool Calls
+ * Which tool operations have no side effects. Used to run calls concurrently
+ * and to decide whether a conversation may be served from the response cache.
+ */
+
+/**
+ * Read-only operations per tool. A value of true means every call is read-only.
+ * Anything not listed is treated as mutating and executed in order.
+ */
+const READ_ONLY_OPS: Record<string, true | { arg: string; values: string[] }> = {
+  think: true,
+  search: true,
+  web_search: true,
+  web_fetch: true,
+  retrieve_output: true,
+  image_analyze: true,
+  filesystem: { arg: 'op', values: ['read', 'list'] },
+  memory: { arg: 'op', values: ['retrieve', 'search', 'list'] },
+  journal: { arg: 'op', values: ['list_runs', 'view', 'summary'] },
+  calendar: { arg: 'action', values: ['list', 'upcoming', 'find_slot'] },
+  http: { arg: 'method', values: ['GET'] },
+};
+
+/**
+ * Whether a tool call has no side effects and may run concurrently with others
+ */
+export function isReadOnlyToolCall(toolName: string, args: Record<string, any>): boolean {
+  const rule = READ_ONLY_OPS[toolName];
+  if (!rule) return false;
+  if (rule === true) return true;
+  const value = String(args?.[rule.arg] ?? '');
+  return rule.values.includes(rule.arg === 'method' ? value.toUpperCase() : value);
+}
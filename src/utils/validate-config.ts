@@ -4,6 +4,8 @@
  */
 
 import { config } from 'dotenv';
+import { findRoutingConfig, loadRoutingConfig } from '../ai/routing-config.js';
+import { findPolicyConfig, loadPolicyConfig } from '../guardrails/policy-config.js';
 
 config();
 
@@ -14,12 +16,15 @@ export interface ValidationResult {
     openai: { configured: boolean; valid: boolean; error?: string };
     perplexity: { configured: boolean; valid: boolean; error?: string };
     gemini: { configured: boolean; valid: boolean; error?: string };
+    openaiCompatible: { configured: boolean; valid: boolean; error?: string; models?: string[] };
   };
   integrations: {
     email: { configured: boolean };
     slack: { configured: boolean };
     calendar: { configured: boolean };
   };
+  routing: { path: string | null; valid: boolean; error?: string };
+  policy: { path: string | null; valid: boolean; error?: string };
   warnings: string[];
   errors: string[];
 }
@@ -92,6 +97,51 @@ async function validateGemini(): Promise<{ valid: boolean; error?: string }> {
   return { valid: true };
 }
 
+/**
+ * Validate a self-hosted OpenAI-compatible endpoint: reachable, and serving the configured models
+ */
+async function validateOpenAICompatible(quick?: boolean): Promise<{ valid: boolean; error?: string; models?: string[] }> {
+  const baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL;
+  if (!baseUrl) {
+    return { valid: false, error: 'Not configured' };
+  }
+  if (!/^https?:\/\//.test(baseUrl)) {
+    return { valid: false, error: 'Base URL must start with http:// or https://' };
+  }
+
+  const mode = process.env.OPENAI_COMPATIBLE_TOOL_CALLING;
+  if (mode && !['native', 'prompt', 'none'].includes(mode)) {
+    return { valid: false, error: `Invalid OPENAI_COMPATIBLE_TOOL_CALLING "${mode}" (native, prompt or none)` };
+  }
+
+  const configured = (process.env.OPENAI_COMPATIBLE_MODELS || '').split(',').map(m => m.trim()).filter(Boolean);
+  if (quick) {
+    return { valid: true, models: configured };
+  }
+
+  try {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/models`, {
+      headers: process.env.OPENAI_COMPATIBLE_API_KEY ? { Authorization: `Bearer ${process.env.OPENAI_COMPATIBLE_API_KEY}` } : {},
+      signal: AbortSignal.timeout(5000),
+    });
+    if (!response.ok) {
+      return { valid: false, error: `Endpoint returned ${response.status} for /models` };
+    }
+    const data = await response.json();
+    const served: string[] = (data.data || data.models || []).map((m: any) => m.id || m.name).filter(Boolean);
+    const missing = configured.filter(m => !served.includes(m));
+    if (missing.length > 0) {
+      return { valid: false, error: `Models not served by endpoint: ${missing.join(', ')}`, models: served };
+    }
+    if (configured.length === 0 && served.length === 0) {
+      return { valid: false, error: 'No models configured or reported by the endpoint' };
+    }
+    return { valid: true, models: configured.length ? configured : served };
+  } catch (e: any) {
+    return { valid: false, error: `Endpoint unreachable: ${e.message}` };
+  }
+}
+
 /**
  * Check integration configuration
  */
@@ -119,6 +169,32 @@ function checkIntegrations() {
   };
 }
 
+/**
+ * Check the routing config file, if one is present
+ */
+function checkRouting(): ValidationResult['routing'] {
+  const path = findRoutingConfig();
+  try {
+    loadRoutingConfig(path);
+    return { path, valid: true };
+  } catch (e: any) {
+    return { path, valid: false, error: e.message };
+  }
+}
+
+/**
+ * Check the guardrail policy file, if one is present
+ */
+function checkPolicy(): ValidationResult['policy'] {
+  const path = findPolicyConfig();
+  try {
+    loadPolicyConfig(path);
+    return { path, valid: true };
+  } catch (e: any) {
+    return { path, valid: false, error: e.message };
+  }
+}
+
 /**
  * Full configuration validation
  */
@@ -133,8 +209,11 @@ export async function validateConfig(options: {
       openai: { configured: false, valid: false },
       perplexity: { configured: false, valid: false },
       gemini: { configured: false, valid: false },
+      openaiCompatible: { configured: false, valid: false },
     },
     integrations: checkIntegrations(),
+    routing: checkRouting(),
+    policy: checkPolicy(),
     warnings: [],
     errors: [],
   };
@@ -181,12 +260,22 @@ export async function validateConfig(options: {
     result.providers.gemini.error = validation.error;
   }
 
+  // Check self-hosted OpenAI-compatible endpoint
+  result.providers.openaiCompatible.configured = !!process.env.OPENAI_COMPATIBLE_BASE_URL;
+  if (result.providers.openaiCompatible.configured) {
+    const validation = await validateOpenAICompatible(options.quick);
+    result.providers.openaiCompatible.valid = validation.valid;
+    result.providers.openaiCompatible.error = validation.error;
+    result.providers.openaiCompatible.models = validation.models;
+  }
+
   // Determine overall validity
   const hasValidProvider = 
     result.providers.anthropic.valid ||
     result.providers.openai.valid ||
     result.providers.perplexity.valid ||
-    result.providers.gemini.valid;
+    result.providers.gemini.valid ||
+    result.providers.openaiCompatible.valid;
 
   if (!hasValidProvider) {
     result.errors.push('No valid AI provider configured. Please add at least one API key.');
@@ -201,7 +290,15 @@ export async function validateConfig(options: {
     result.warnings.push('Perplexity not configured. Web search will use fallback.');
   }
 
-  result.valid = hasValidProvider;
+  if (result.routing.error) {
+    result.errors.push(result.routing.error);
+  }
+
+  if (result.policy.error) {
+    result.errors.push(result.policy.error);
+  }
+
+  result.valid = hasValidProvider && result.routing.valid && result.policy.valid;
 
   return result;
 }
@@ -220,12 +317,22 @@ export function printValidationResult(result: ValidationResult): void {
   console.log(`  ${check(result.providers.openai.valid)} OpenAI (GPT-4)${result.providers.openai.error ? ` - ${result.providers.openai.error}` : ''}`);
   console.log(`  ${check(result.providers.perplexity.valid)} Perplexity (Search)${result.providers.perplexity.error ? ` - ${result.providers.perplexity.error}` : ''}`);
   console.log(`  ${check(result.providers.gemini.valid)} Gemini${result.providers.gemini.error ? ` - ${result.providers.gemini.error}` : ''}`);
+  if (result.providers.openaiCompatible.configured) {
+    const oc = result.providers.openaiCompatible;
+    console.log(`  ${check(oc.valid)} OpenAI-compatible${oc.error ? ` - ${oc.error}` : oc.models?.length ? ` (${oc.models.join(', ')})` : ''}`);
+  }
 
   console.log('\nIntegrations:');
   console.log(`  ${result.integrations.email.configured ? '✅' : '⬚'} Email (SMTP)`);
   console.log(`  ${result.integrations.slack.configured ? '✅' : '⬚'} Slack`);
   console.log(`  ${result.integrations.calendar.configured ? '✅' : '⬚'} Google Calendar`);
 
+  console.log('\nRouting:');
+  console.log(`  ${result.routing.path ? check(result.routing.valid) : '⬚'} ${result.routing.path || 'Built-in rules (no routing config)'}`);
+
+  console.log('\nGuardrail Policy:');
+  console.log(`  ${result.policy.path ? check(result.policy.valid) : '⬚'} ${result.policy.path || 'Built-in rules (no policy file)'}`);
+
   if (result.warnings.length > 0) {
     console.log('\n⚠️  Warnings:');
     result.warnings.forEach(w => console.log(`   ${w}`));
@@ -250,5 +357,5 @@ export function hasAnyProvider(): boolean {
     process.env.GEMINI_API_KEY,
   ];
   
-  return keys.some(k => k && k !== 'your_key_here' && k.length > 10);
+  return keys.some(k => k && k !== 'your_key_here' && k.length > 10) || !!process.env.OPENAI_COMPATIBLE_BASE_URL;
 }
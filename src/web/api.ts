@@ -6,13 +6,16 @@
 import { Router } from 'express';
 import { WebSocketServer, WebSocket } from 'ws';
 import { startDemoE2E } from '../runner/index.js';
-import { queryByRun, getAllRuns } from '../audit/query.js';
+import { queryByRun, getAllRuns, getCostReport } from '../audit/query.js';
 import { addSecret, listSecrets, revokeSecret } from '../vault/store.js';
-import { runObjective, createAgentLoop, AgentResult } from '../core/agent-loop.js';
+import { runObjective, resumeObjective, createAgentLoop, AgentResult } from '../core/agent-loop.js';
 import { generatePlan } from '../planner/index.js';
 import { getMemoryStore } from '../memory/index.js';
 import { listDomains, getBrain } from '../domains/index.js';
 import { listRecentRuns, loadJournal, exportJournalSummary, rollbackEntry, rollbackRun } from '../journal/index.js';
+import { getRunRegistry, isRunActive, type RunAction } from '../core/runs.js';
+import { loadCheckpoint } from '../core/checkpoint.js';
+import { getNotificationManager, getApprovalStore, type ApprovalStatus } from '../integrations/index.js';
 import type { RunContext } from '../core/types.js';
 import type { Message } from '../ai/types.js';
 
@@ -42,7 +45,7 @@ export function createAPIRouter(wss: WebSocketServer) {
    */
   router.post('/agent/run', async (req, res) => {
     try {
-      const { objective, verbose, maxIterations, maxToolCalls, domain } = req.body;
+      const { objective, verbose, maxIterations, maxToolCalls, domain, maxCostUsd, maxTokens } = req.body;
 
       if (!objective) {
         return res.status(400).json({ success: false, error: 'Objective is required' });
@@ -69,6 +72,9 @@ export function createAPIRouter(wss: WebSocketServer) {
           maxIterations: maxIterations ?? 50,
           maxToolCalls: maxToolCalls ?? 100,
           domain: domain as any,
+          budget: maxCostUsd !== undefined || maxTokens !== undefined ? { maxCostUsd, maxTokens } : undefined,
+          runId,
+          onStream: (delta, iteration) => broadcast({ type: 'agent_delta', runId, iteration, delta }),
         });
 
         // Collect tools used from the result
@@ -79,10 +85,13 @@ export function createAPIRouter(wss: WebSocketServer) {
           status: 'complete', 
           runId,
           success: result.success,
+          outcome: result.status,
+          deliverables: result.completion?.deliverables || [],
           response: result.finalResponse,
           domain: domain || 'general',
           iterations: result.iterations,
           toolCalls: result.toolCalls,
+          usage: result.usage,
           tools: toolsUsed,
           timestamp: new Date().toISOString() 
         });
@@ -101,6 +110,104 @@ export function createAPIRouter(wss: WebSocketServer) {
     }
   });
 
+  /**
+   * GET /api/agent/runs
+   * List tracked runs and their state
+   */
+  router.get('/agent/runs', (req, res) => {
+    try {
+      res.json({ success: true, runs: getRunRegistry().list() });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  /**
+   * POST /api/agent/run/:runId/restore
+   * Continue an interrupted run from its last checkpoint
+   */
+  router.post('/agent/run/:runId/restore', async (req, res) => {
+    const { runId } = req.params;
+    try {
+      const checkpoint = await loadCheckpoint(runId);
+      if (!checkpoint) {
+        return res.status(404).json({ success: false, error: 'No checkpoint for this run' });
+      }
+      if (checkpoint.status === 'finished') {
+        return res.status(409).json({ success: false, error: 'Run already finished' });
+      }
+      // Checked here as well as in resumeObjective, which only fails after the response is sent
+      const live = getRunRegistry().get(runId);
+      if (live && isRunActive(live)) {
+        return res.status(409).json({ success: false, error: `Run is still ${live.state} in process ${live.pid}` });
+      }
+
+      broadcast({ 
+        type: 'agent', 
+        status: 'resuming', 
+        runId,
+        fromIteration: checkpoint.iterations,
+        timestamp: new Date().toISOString() 
+      });
+
+      res.json({ success: true, runId, fromIteration: checkpoint.iterations, message: 'Run resumed' });
+
+      try {
+        const result = await resumeObjective(runId, {
+          onStream: (delta, iteration) => broadcast({ type: 'agent_delta', runId, iteration, delta }),
+        });
+        broadcast({ 
+          type: 'agent', 
+          status: 'complete', 
+          runId,
+          success: result.success,
+          outcome: result.status,
+          deliverables: result.completion?.deliverables || [],
+          response: result.finalResponse,
+          iterations: result.iterations,
+          toolCalls: result.toolCalls,
+          usage: result.usage,
+          timestamp: new Date().toISOString() 
+        });
+      } catch (runError: any) {
+        broadcast({ type: 'agent', status: 'error', runId, error: runError.message, timestamp: new Date().toISOString() });
+      }
+    } catch (error: any) {
+      if (!res.headersSent) {
+        res.status(500).json({ success: false, error: error.message });
+      }
+    }
+  });
+
+  /**
+   * POST /api/agent/run/:runId/cancel|pause|resume
+   * Control an in-flight run
+   */
+  router.post('/agent/run/:runId/:action', async (req, res) => {
+    try {
+      const { runId, action } = req.params;
+      if (!['cancel', 'pause', 'resume'].includes(action)) {
+        return res.status(400).json({ success: false, error: `Unknown action: ${action}` });
+      }
+
+      const result = await getRunRegistry().control(runId, action as RunAction, 'api');
+      if (!result.ok) {
+        return res.status(result.error === 'Run not found' ? 404 : 409).json({ success: false, ...result });
+      }
+
+      broadcast({ 
+        type: 'agent', 
+        status: result.state, 
+        runId,
+        action,
+        timestamp: new Date().toISOString() 
+      });
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
   /**
    * POST /api/agent/chat
    * Send a message in chat mode
@@ -134,7 +241,9 @@ export function createAPIRouter(wss: WebSocketServer) {
 
       // Get response
       const agent = createAgentLoop();
-      const response = await agent.chat(session.ctx, session.messages);
+      const response = await agent.chat(session.ctx, session.messages, {
+        onStream: (delta) => broadcast({ type: 'chat_delta', sessionId: sid, delta }),
+      });
       
       // Add assistant message
       session.messages.push(response.message);
@@ -183,6 +292,7 @@ export function createAPIRouter(wss: WebSocketServer) {
   router.get('/agent/status', async (req, res) => {
     try {
       const { createRouterFromEnv } = await import('../ai/router.js');
+      const { getProviderHealth } = await import('../ai/health.js');
       const router = createRouterFromEnv();
       const providers = router.getAvailableProviders();
       const store = getMemoryStore();
@@ -192,6 +302,7 @@ export function createAPIRouter(wss: WebSocketServer) {
         success: true,
         status: {
           providers,
+          providerHealth: getProviderHealth().snapshot(),
           memory: memoryStats,
           activeSessions: chatSessions.size,
           timestamp: new Date().toISOString(),
@@ -202,6 +313,53 @@ export function createAPIRouter(wss: WebSocketServer) {
     }
   });
 
+  // ============ APPROVAL ENDPOINTS ============
+
+  /**
+   * GET /api/approvals
+   * List approvals (?status=pending|approved|denied|expired, default: all)
+   */
+  router.get('/approvals', (req, res) => {
+    try {
+      const status = req.query.status as ApprovalStatus | undefined;
+      if (status && !['pending', 'approved', 'denied', 'expired'].includes(status)) {
+        return res.status(400).json({ success: false, error: `Unknown status: ${status}` });
+      }
+      res.json({ success: true, approvals: getApprovalStore().list(status) });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  /**
+   * POST /api/approvals/:id
+   * Answer a pending approval: { approved: boolean, comment?: string }
+   */
+  router.post('/approvals/:id', (req, res) => {
+    try {
+      const { approved, comment } = req.body || {};
+      if (typeof approved !== 'boolean') {
+        return res.status(400).json({ success: false, error: 'approved (boolean) is required' });
+      }
+
+      const result = getNotificationManager().handleApprovalResponse(req.params.id, approved, 'api', comment);
+      if (!result.ok) {
+        return res.status(result.approval ? 409 : 404).json({ success: false, error: result.error, approval: result.approval });
+      }
+
+      broadcast({
+        type: 'approval',
+        status: result.approval!.status,
+        approvalId: req.params.id,
+        runId: result.approval!.runId,
+        timestamp: new Date().toISOString(),
+      });
+      res.json({ success: true, approval: result.approval });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
   // ============ LEGACY RUNNER ENDPOINTS ============
 
   router.post('/runner/start', async (req, res) => {
@@ -241,6 +399,16 @@ export function createAPIRouter(wss: WebSocketServer) {
     }
   });
 
+  router.get('/costs', (req, res) => {
+    try {
+      const days = req.query.days ? Number(req.query.days) : undefined;
+      const report = getCostReport({ days });
+      res.json({ success: true, ...report });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
   // ============ VAULT ENDPOINTS ============
 
   router.get('/vault/secrets', (req, res) => {
@@ -351,10 +519,14 @@ export function createAPIRouter(wss: WebSocketServer) {
     }
   });
 
-  router.get('/domains/:id', (req, res) => {
+  router.get('/domains/:id', async (req, res) => {
     try {
       const brain = getBrain(req.params.id as any);
-      res.json({ success: true, domain: brain });
+      const { decisionMatrix } = await import('../guardrails/risk.js');
+      const { getActivePolicy } = await import('../guardrails/policy-config.js');
+      const gating = decisionMatrix(brain.autonomyLevel ?? 0.7, getActivePolicy().config?.risk);
+      const { resolveTerminalSandbox } = await import('../execution/terminal-sandbox.js');
+      res.json({ success: true, domain: brain, gating, terminalSandbox: resolveTerminalSandbox(brain.id) });
     } catch (error: any) {
       res.status(500).json({ success: false, error: error.message });
     }
@@ -0,0 +1,120 @@
+import { after, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ResponseCache, cacheConfigFromEnv } from '../../src/ai/cache.js';
+import type { CompletionResponse } from '../../src/ai/types.js';
+
+const root = mkdtempSync(join(tmpdir(), 'ai-cache-'));
+after(() => rmSync(root, { recursive: true, force: true }));
+let dirs = 0;
+
+function cache(ttlSeconds?: number): ResponseCache {
+  return new ResponseCache({ enabled: true, ttlSeconds, dir: join(root, String(++dirs)) });
+}
+
+function reply(content: string, finish_reason: CompletionResponse['finish_reason'] = 'stop'): CompletionResponse {
+  return {
+    id: 'r', provider: 'mock', model: 'mock', finish_reason,
+    message: { role: 'assistant', content },
+    usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+  };
+}
+
+function setEnv(env: Record<string, string | undefined>) {
+  for (const [name, value] of Object.entries(env)) {
+    if (value === undefined) delete process.env[name];
+    else process.env[name] = value;
+  }
+}
+
+function withEnv(env: Record<string, string | undefined>, fn: () => void) {
+  const saved = Object.fromEntries(Object.keys(env).map(name => [name, process.env[name]]));
+  setEnv(env);
+  try {
+    fn();
+  } finally {
+    setEnv(saved);
+  }
+}
+
+test('entries expire after the configured TTL', async (t) => {
+  const c = cache(60);
+  await c.set('k', reply('cached'));
+  assert.equal((await c.get('k'))?.response.message.content, 'cached');
+
+  const now = Date.now();
+  t.mock.method(Date, 'now', () => now + 61_000);
+  assert.equal(await c.get('k'), null);
+  assert.deepEqual(await c.stats(), { entries: 0, expired: 0, bytes: 0 });
+});
+
+for (const ttl of [0, -5, Number.NaN, Number.POSITIVE_INFINITY]) {
+  test(`a TTL of ${ttl} falls back to the default of an hour`, async () => {
+    const c = cache(ttl);
+    await c.set('k', reply('cached'));
+    const entry = (await c.get('k'))!;
+    assert.equal(entry.expiresAt - entry.storedAt, 3600 * 1000);
+  });
+}
+
+test('AI_CACHE_TTL must be a positive number of seconds', () => {
+  const warn = mock.method(console, 'warn', () => {});
+  try {
+    withEnv({ AI_CACHE_TTL: '90' }, () => assert.equal(cacheConfigFromEnv().ttlSeconds, 90));
+    withEnv({ AI_CACHE_TTL: '1h' }, () => assert.equal(cacheConfigFromEnv().ttlSeconds, undefined));
+    withEnv({ AI_CACHE_TTL: '-1' }, () => assert.equal(cacheConfigFromEnv().ttlSeconds, undefined));
+    assert.equal(warn.mock.callCount(), 2);
+  } finally {
+    warn.mock.restore();
+  }
+});
+
+test('AI_CACHE_DOMAINS turns domains on and off', () => {
+  withEnv({ AI_CACHE: undefined, AI_CACHE_DOMAINS: 'developer, !finance' }, () => {
+    const c = new ResponseCache(cacheConfigFromEnv());
+    assert.equal(c.isEnabled(), false);
+    assert.equal(c.isEnabled('developer'), true);
+    assert.equal(c.isEnabled('finance'), false);
+  });
+});
+
+test('memory keeps the 500 most recently used entries, disk keeps the rest', async () => {
+  const dir = join(root, 'cap');
+  const c = new ResponseCache({ enabled: true, dir });
+  for (let i = 0; i <= 500; i++) await c.set(`k${i}`, reply(String(i)));
+  // Reading k1 makes it recent, so k2 is the oldest entry left in memory when k501 arrives
+  await c.get('k1');
+  await c.set('k501', reply('501'));
+
+  rmSync(dir, { recursive: true, force: true });
+  assert.equal(await c.get('k0'), null);
+  assert.equal(await c.get('k2'), null);
+  assert.equal((await c.get('k1'))?.response.message.content, '1');
+  assert.equal((await c.get('k501'))?.response.message.content, '501');
+});
+
+test('truncated and failed replies are not cached', async () => {
+  const c = cache();
+  await c.set('length', reply('cut', 'length'));
+  await c.set('error', reply('', 'error'));
+  assert.equal(await c.get('length'), null);
+  assert.equal(await c.get('error'), null);
+});
+
+test('keys ignore whitespace but not the history of side effects', () => {
+  const c = cache();
+  const a = c.keyFor({ messages: [{ role: 'user', content: 'hello   world' }] }, 'openai', 'gpt');
+  const b = c.keyFor({ messages: [{ role: 'user', content: ' hello world\n' }] }, 'openai', 'gpt');
+  assert.ok(a.key);
+  assert.equal(a.key, b.key);
+
+  const write = c.keyFor({ messages: [
+    { role: 'user', content: 'write it' },
+    { role: 'assistant', content: '', tool_calls: [{ id: 'c1', type: 'function', function: { name: 'filesystem', arguments: '{"op":"write","path":"a"}' } }] },
+    { role: 'tool', content: 'ok', tool_call_id: 'c1' },
+  ] }, 'openai', 'gpt');
+  assert.equal(write.key, null);
+  assert.match(write.reason!, /filesystem/);
+});
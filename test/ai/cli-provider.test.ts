@@ -0,0 +1,85 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CLIProvider, type CLITool } from '../../src/ai/providers/cli.js';
+import type { ToolDefinition } from '../../src/ai/types.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'cli-provider-'));
+let scripts = 0;
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+/**
+ * Provider backed by a stand-in executable that prints `output` and exits with `code`
+ */
+function fakeCLI(tool: CLITool, output: string, code = 0): CLIProvider {
+  const path = join(dir, `cli-${++scripts}`);
+  writeFileSync(`${path}.out`, output);
+  writeFileSync(path, `#!/bin/sh\ncat '${path}.out'\nexit ${code}\n`);
+  chmodSync(path, 0o755);
+  return new CLIProvider({ tool, path, apiKey: '' });
+}
+
+const ask = (provider: CLIProvider, tools?: ToolDefinition[]) =>
+  provider.complete({ messages: [{ role: 'user', content: 'hi' }], tools });
+
+const think: ToolDefinition = { name: 'think', description: 'Think', parameters: { type: 'object', properties: { thought: { type: 'string' } } } };
+
+test('claude output yields the reply, model and usage including cached input', async () => {
+  const response = await ask(fakeCLI('claude', JSON.stringify({
+    type: 'result', result: 'Hello', modelUsage: { 'claude-sonnet-4-5': {} },
+    usage: { input_tokens: 10, cache_read_input_tokens: 5, cache_creation_input_tokens: 1, output_tokens: 4 },
+  })));
+  assert.equal(response.message.content, 'Hello');
+  assert.equal(response.model, 'claude-sonnet-4-5');
+  assert.deepEqual(response.usage, { prompt_tokens: 16, completion_tokens: 4, total_tokens: 20 });
+  assert.equal(response.finish_reason, 'stop');
+});
+
+test('a claude error result is raised instead of returned as a reply', async () => {
+  await assert.rejects(ask(fakeCLI('claude', JSON.stringify({ type: 'result', is_error: true, result: 'Credit balance too low' }))), /Credit balance too low/);
+});
+
+test('gemini usage is summed over the models it used', async () => {
+  const response = await ask(fakeCLI('gemini', JSON.stringify({
+    response: 'Hi there',
+    stats: { models: {
+      'gemini-2.5-pro': { tokens: { prompt: 7, candidates: 3, total: 10 } },
+      'gemini-2.5-flash': { tokens: { prompt: 2, candidates: 1, total: 3 } },
+    } },
+  })));
+  assert.equal(response.message.content, 'Hi there');
+  assert.equal(response.model, 'gemini-2.5-pro');
+  assert.deepEqual(response.usage, { prompt_tokens: 9, completion_tokens: 4, total_tokens: 13 });
+});
+
+test('codex JSON lines yield the last agent message and the turn usage', async () => {
+  const response = await ask(fakeCLI('codex', [
+    'Reading prompt from arguments',
+    JSON.stringify({ type: 'item.completed', item: { type: 'reasoning', text: 'thinking' } }),
+    JSON.stringify({ type: 'item.completed', item: { type: 'agent_message', text: 'first' } }),
+    JSON.stringify({ type: 'item.completed', item: { type: 'agent_message', text: 'Done' } }),
+    JSON.stringify({ type: 'turn.completed', usage: { input_tokens: 12, output_tokens: 3 } }),
+  ].join('\n')));
+  assert.equal(response.message.content, 'Done');
+  assert.deepEqual(response.usage, { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 });
+});
+
+test('plain text output is passed through with zero usage', async () => {
+  const response = await ask(fakeCLI('gemini', 'Just text'));
+  assert.equal(response.message.content, 'Just text');
+  assert.equal(response.usage.total_tokens, 0);
+});
+
+test('tool calls in the reply are parsed when tools were offered', async () => {
+  const reply = 'Let me think.\n```tool_calls\n[{"name":"think","arguments":{"thought":"plan"}}]\n```';
+  const response = await ask(fakeCLI('claude', JSON.stringify({ type: 'result', result: reply })), [think]);
+  assert.equal(response.finish_reason, 'tool_calls');
+  assert.equal(response.message.tool_calls?.[0].function.name, 'think');
+  assert.deepEqual(JSON.parse(response.message.tool_calls![0].function.arguments), { thought: 'plan' });
+});
+
+test('a failing CLI rejects with its output', async () => {
+  await assert.rejects(ask(fakeCLI('codex', 'not logged in', 1)), /CLI codex failed: not logged in/);
+});
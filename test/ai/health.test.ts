@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ProviderHealth } from '../../src/ai/health.js';
+import { ProviderError } from '../../src/ai/errors.js';
+
+const serverError = () => new ProviderError('p', 'overloaded', 503);
+
+test('client errors do not open the circuit', () => {
+  const health = new ProviderHealth({ failureThreshold: 2 });
+  for (let i = 0; i < 5; i++) health.recordFailure('p', new ProviderError('p', 'bad request', 400), 10);
+  assert.equal(health.getState('p'), 'closed');
+});
+
+test('server and network errors open the circuit', () => {
+  const health = new ProviderHealth({ failureThreshold: 2 });
+  health.recordFailure('p', serverError(), 10);
+  const network = Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNREFUSED' } });
+  assert.equal(health.recordFailure('p', network, 10), true);
+  assert.equal(health.getState('p'), 'open');
+  assert.equal(health.acquire('p'), false);
+});
+
+test('half-open lets a single trial request through', () => {
+  const health = new ProviderHealth({ failureThreshold: 1, cooldownMs: 0 });
+  health.recordFailure('p', serverError(), 10);
+  assert.equal(health.getState('p'), 'half_open');
+  assert.equal(health.acquire('p'), true);
+  assert.equal(health.acquire('p'), false);
+  assert.equal(health.isAvailable('p'), false);
+  health.recordSuccess('p', 10);
+  assert.equal(health.getState('p'), 'closed');
+  assert.equal(health.acquire('p'), true);
+});
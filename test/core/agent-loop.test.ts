@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { AIRouter } from '../../src/ai/router.js';
+import { MockProvider, mockToolCall, type MockStep } from '../../src/ai/providers/mock.js';
+import { AgentLoop } from '../../src/core/agent-loop.js';
+import { filesystemTool, imageTool } from '../../src/tools/definitions.js';
+
+const complete = { name: 'complete_task', arguments: { status: 'complete', summary: 'Done' } };
+
+function agent(script: MockStep[]) {
+  const mock = new MockProvider(script);
+  const router = new AIRouter({ clients: [mock] } as any);
+  const loop = new AgentLoop(router, {
+    domain: 'developer', autoDomain: false, tools: [filesystemTool, imageTool], maxIterations: 4,
+  });
+  return { mock, router, loop };
+}
+
+function run(loop: AgentLoop, runId: string) {
+  return loop.run({ runId, objective: { text: 'test' }, createdAt: 0 }, 'test');
+}
+
+test('tool calls run even when the provider reports finish_reason stop', async () => {
+  const path = 'demo_v2/agent-loop-stop.txt';
+  mkdirSync('demo_v2', { recursive: true });
+  rmSync(path, { force: true });
+  const { loop } = agent([
+    { ...mockToolCall([{ name: 'filesystem', arguments: { op: 'write', path, content: 'x' } }, complete]), finish_reason: 'stop' },
+  ]);
+
+  const result = await run(loop, 'test-agent-loop-stop');
+
+  assert.equal(result.status, 'complete');
+  assert.equal(readFileSync(path, 'utf8'), 'x');
+});
+
+test('calls after complete_task in the same turn still run and get results', async () => {
+  const path = 'demo_v2/agent-loop-after-complete.txt';
+  mkdirSync('demo_v2', { recursive: true });
+  rmSync(path, { force: true });
+  const { loop } = agent([
+    mockToolCall([complete, { name: 'filesystem', arguments: { op: 'write', path, content: 'y' } }]),
+  ]);
+
+  const result = await run(loop, 'test-agent-loop-after-complete');
+
+  assert.equal(result.status, 'complete');
+  assert.equal(readFileSync(path, 'utf8'), 'y');
+});
+
+test('completion is not accepted when another call of the turn fails', async () => {
+  let completionReply: any;
+  const { loop } = agent([
+    mockToolCall([{ name: 'filesystem', arguments: { op: 'read', path: 'demo_v2/agent-loop-missing.txt' } }, complete]),
+    (request) => {
+      completionReply = JSON.parse(String(request.messages.at(-1)!.content));
+      return mockToolCall(complete);
+    },
+  ]);
+
+  const result = await run(loop, 'test-agent-loop-failed-call');
+
+  assert.equal(completionReply.acknowledged, false);
+  assert.equal(result.status, 'complete');
+  assert.equal(result.iterations, 2);
+});
+
+test('image_analyze goes through the router of the run', async () => {
+  const image = 'demo_v2/agent-loop-pixel.png';
+  mkdirSync('demo_v2', { recursive: true });
+  writeFileSync(image, Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR4nGNgYGD4DwABBAEAHnOcQAAAAABJRU5ErkJggg==', 'base64'));
+  const { mock, loop } = agent([
+    mockToolCall({ name: 'image_analyze', arguments: { image } }),
+    'A single pixel',
+    (request) => {
+      assert.match(String(request.messages.at(-1)!.content), /A single pixel/);
+      return mockToolCall(complete);
+    },
+  ]);
+
+  const result = await run(loop, 'test-agent-loop-image');
+
+  assert.equal(result.status, 'complete');
+  assert.equal(mock.remaining(), 0);
+  assert.equal(result.usage.calls, 3);
+});
+
+test('the router forgets the usage of a finished run', async () => {
+  const { router, loop } = agent([mockToolCall(complete)]);
+
+  const result = await run(loop, 'test-agent-loop-release');
+
+  assert.equal(result.usage.calls, 1);
+  assert.equal(router.getUsage('test-agent-loop-release').calls, 0);
+});
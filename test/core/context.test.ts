@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIRouter } from '../../src/ai/router.js';
+import { MockProvider, type MockStep } from '../../src/ai/providers/mock.js';
+import { ContextManager, loadToolOutput } from '../../src/core/context.js';
+import type { Message } from '../../src/ai/types.js';
+import type { RunContext } from '../../src/core/types.js';
+
+const ctx: RunContext = { runId: 'test-context', objective: { text: 'test' }, createdAt: 0 };
+
+// 100 tokens of budget, compacting from 75 (300 characters)
+function manager(script: MockStep[] = [], keepRecent = 2) {
+  const mock = new MockProvider(script);
+  const context = new ContextManager(new AIRouter({ clients: [mock] } as any), { budgets: { mock: 100 }, keepRecent, maxToolOutputChars: 100 });
+  return { mock, context };
+}
+
+const text = (role: 'user' | 'assistant', chars: number): Message => ({ role, content: 'x'.repeat(chars) });
+const head: Message[] = [{ role: 'system', content: 'system' }, { role: 'user', content: 'objective' }];
+
+test('compact leaves history under the threshold alone', async () => {
+  const { mock, context } = manager();
+  const messages = [...head, text('assistant', 100)];
+  assert.equal(await context.compact(ctx, messages, 'mock'), messages);
+  assert.equal(mock.requests.length, 0);
+});
+
+test('compact summarizes the middle and keeps the head and recent turns', async () => {
+  const { context } = manager(['SUMMARY']);
+  const messages = [...head, text('assistant', 200), text('user', 200), text('assistant', 10), text('user', 10)];
+
+  const compacted = await context.compact(ctx, messages, 'mock');
+
+  assert.deepEqual(compacted.slice(0, 2), head);
+  assert.match(String(compacted[2].content), /SUMMARY/);
+  assert.deepEqual(compacted.slice(3), messages.slice(-2));
+});
+
+test('the recent window never starts on a tool result', async () => {
+  const { context } = manager(['SUMMARY']);
+  const call: Message = { role: 'assistant', content: '', tool_calls: [{ id: 'c1', type: 'function', function: { name: 'think', arguments: '{}' } }] };
+  const result: Message = { role: 'tool', content: 'ok', tool_call_id: 'c1' };
+  const messages = [...head, text('user', 400), call, result, text('assistant', 10)];
+
+  const compacted = await context.compact(ctx, messages, 'mock');
+
+  // keepRecent 2 would cut between the call and its result; the pair is summarized instead
+  assert.notEqual(compacted[3].role, 'tool');
+  assert.deepEqual(compacted.slice(3), [messages.at(-1)]);
+});
+
+test('compact is skipped when the kept messages alone are over the threshold', async () => {
+  const { mock, context } = manager(['SUMMARY']);
+  const messages = [...head, text('user', 50), text('assistant', 400), text('user', 10)];
+
+  assert.equal(await context.compact(ctx, messages, 'mock'), messages);
+  assert.equal(mock.requests.length, 0);
+});
+
+test('a failed summary drops the middle behind a marker', async () => {
+  const { context } = manager([new Error('down')]);
+  const messages = [...head, text('assistant', 400), text('user', 10), text('assistant', 10)];
+
+  const compacted = await context.compact(ctx, messages, 'mock');
+
+  assert.match(String(compacted[2].content), /1 earlier messages were removed/);
+  assert.equal(compacted.length, 5);
+});
+
+test('clampRetrieve caps the slice at the truncation budget', () => {
+  const { context } = manager();
+  assert.equal(context.clampRetrieve({ handle: 'h', length: 50 }).length, 50);
+  assert.equal(context.clampRetrieve({ handle: 'h', length: 5000 }).length, 100);
+  assert.equal(context.clampRetrieve({ handle: 'h' }).length, 100);
+  assert.equal(context.clampRetrieve({ handle: 'h', length: -1 }).length, 100);
+});
+
+test('truncated output can be read back in full through clamped slices', async () => {
+  const { context } = manager();
+  const content = Array.from({ length: 60 }, (_, i) => `line ${i}`).join('\n');
+
+  const truncated = JSON.parse(await context.prepareToolResult(ctx, 'terminal', content));
+  assert.equal(truncated.truncated, true);
+  assert.equal(truncated.preview, content.slice(0, 100));
+
+  let read = '';
+  let offset = 0;
+  for (;;) {
+    const { length } = context.clampRetrieve({ handle: truncated.handle, offset, length: 10_000 });
+    const slice = await loadToolOutput(ctx.runId, truncated.handle, offset, length);
+    assert.ok(slice.content.length <= 100);
+    read += slice.content;
+    offset += slice.content.length;
+    if (!slice.hasMore) break;
+  }
+  assert.equal(read, content);
+});
+
+test('retrieve_output results are not truncated again', async () => {
+  const { context } = manager();
+  const content = 'y'.repeat(150);
+  assert.equal(await context.prepareToolResult(ctx, 'retrieve_output', content), content);
+});
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runSteps, StepValidationError } from '../../src/core/orchestrator.js';
+import { queryByRun } from '../../src/audit/query.js';
+import type { PlanStep, RunContext } from '../../src/core/types.js';
+
+function runContext(name: string): RunContext {
+  return { runId: `test-steps-${name}-${Date.now()}`, objective: { text: name }, createdAt: Date.now() };
+}
+
+const note = (id: string, deps?: string[]): PlanStep => ({ id, type: 'audit', params: { message: id }, deps });
+const missing = (id: string, deps?: string[]): PlanStep =>
+  ({ id, type: 'verify', params: { type: 'file_exists', target: `demo_v2/${id}-does-not-exist` }, deps });
+
+/**
+ * STEP_START and STEP_END events of a run, as "start a" / "end a", in the order they were recorded
+ */
+function timeline(ctx: RunContext): string[] {
+  return queryByRun(ctx.runId)
+    .filter(e => e.event === 'STEP_START' || e.event === 'STEP_END')
+    .map(e => `${e.event === 'STEP_START' ? 'start' : 'end'} ${e.data.step.id}`);
+}
+
+test('independent steps start together up to the concurrency limit', async () => {
+  const ctx = runContext('concurrent');
+  const outcome = await runSteps(ctx, [note('a'), note('b'), note('c')], { concurrency: 2 });
+
+  assert.equal(outcome.ok, true);
+  const events = timeline(ctx);
+  assert.deepEqual(events.slice(0, 2), ['start a', 'start b']);
+  assert.ok(events.indexOf('start c') > events.indexOf('end a'));
+});
+
+test('a step starts only after all of its dependencies succeeded', async () => {
+  const ctx = runContext('deps');
+  const outcome = await runSteps(ctx, [note('c', ['a', 'b']), note('a'), note('b', ['a'])]);
+
+  assert.equal(outcome.ok, true);
+  const events = timeline(ctx);
+  assert.ok(events.indexOf('start b') > events.indexOf('end a'));
+  assert.ok(events.indexOf('start c') > events.indexOf('end b'));
+  // Results are reported in plan order
+  assert.deepEqual(outcome.results.map(r => r.stepId), ['c', 'a', 'b']);
+});
+
+test('a failed step skips its dependents but not independent branches', async () => {
+  const ctx = runContext('skip');
+  const outcome = await runSteps(ctx, [missing('a'), note('b', ['a']), note('c', ['b']), note('d')]);
+
+  assert.equal(outcome.ok, false);
+  assert.deepEqual(outcome.results.map(r => [r.stepId, r.status]), [['a', 'failed'], ['b', 'skipped'], ['c', 'skipped'], ['d', 'ok']]);
+  assert.match(outcome.results[2].error!, /Dependencies did not complete: b/);
+});
+
+test('malformed step graphs are rejected before anything runs', async () => {
+  const ctx = runContext('invalid');
+  await assert.rejects(runSteps(ctx, [note('a', ['b']), note('b', ['a']), note('c'), note('c', ['x'])]), (e: any) => {
+    assert.ok(e instanceof StepValidationError);
+    assert.deepEqual(e.issues, [
+      'Duplicate step id: c',
+      'Step c depends on unknown step: x',
+      'Circular dependency: a -> b -> a',
+    ]);
+    return true;
+  });
+  assert.deepEqual(timeline(ctx), []);
+});
@@ -0,0 +1,128 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'child_process';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { promisify } from 'util';
+import { RunRegistry } from '../../src/core/runs.js';
+import { queryByRun } from '../../src/audit/query.js';
+import type { RunContext } from '../../src/core/types.js';
+
+const runsModule = new URL('../../src/core/runs.ts', import.meta.url).href;
+
+function runContext(name: string): RunContext {
+  const ctx = { runId: `test-${name}-${Date.now()}`, objective: { text: name }, createdAt: Date.now() };
+  after(() => rmSync(`.data/runs/${ctx.runId}.json`, { force: true }));
+  return ctx;
+}
+
+/**
+ * Send a control request from a separate node process, as the CLI does
+ */
+async function controlFromOtherProcess(runId: string, action: string): Promise<any> {
+  const code = `import { getRunRegistry } from ${JSON.stringify(runsModule)};
+console.log(JSON.stringify(await getRunRegistry().control(${JSON.stringify(runId)}, ${JSON.stringify(action)}, 'cli')));`;
+  const { stdout } = await promisify(execFile)(process.execPath, ['--import', 'tsx', '--input-type=module', '-e', code], {
+    timeout: 30_000, env: { ...process.env, LOG_LEVEL: 'silent' },
+  });
+  return JSON.parse(stdout.trim().split('\n').at(-1)!);
+}
+
+async function until(check: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the run to change state');
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+}
+
+test('runs move between states only along the allowed transitions', async () => {
+  const registry = new RunRegistry();
+  const ctx = runContext('transitions');
+  const signal = registry.register(ctx);
+
+  assert.equal((await registry.control(ctx.runId, 'resume')).ok, false);
+  assert.equal((await registry.control(ctx.runId, 'pause')).state, 'paused');
+  assert.equal((await registry.control(ctx.runId, 'pause')).ok, false);
+
+  let resumed = false;
+  const waiting = registry.waitIfPaused(ctx.runId).then(() => { resumed = true; });
+  await new Promise(resolve => setTimeout(resolve, 10));
+  assert.equal(resumed, false);
+  assert.equal((await registry.control(ctx.runId, 'resume')).state, 'running');
+  await waiting;
+
+  assert.equal((await registry.control(ctx.runId, 'cancel')).state, 'cancelled');
+  assert.equal(signal.aborted, true);
+  assert.equal((await registry.control(ctx.runId, 'resume')).ok, false);
+
+  await registry.finish(ctx.runId, 'cancelled');
+  assert.equal(registry.get(ctx.runId)?.state, 'cancelled');
+  assert.match((await registry.control(ctx.runId, 'pause')).error!, /Cannot pause a run that is cancelled/);
+  assert.equal((await registry.control('test-no-such-run', 'pause')).error, 'Run not found');
+});
+
+test('another process pauses, resumes and cancels a run through control files', async () => {
+  const registry = new RunRegistry();
+  const ctx = runContext('cross-process');
+  const signal = registry.register(ctx);
+  try {
+    assert.deepEqual(await controlFromOtherProcess(ctx.runId, 'pause'), { ok: true, runId: ctx.runId, state: 'running', queued: true });
+    await until(() => registry.get(ctx.runId)?.state === 'paused');
+
+    await controlFromOtherProcess(ctx.runId, 'resume');
+    await until(() => registry.get(ctx.runId)?.state === 'running');
+
+    await controlFromOtherProcess(ctx.runId, 'cancel');
+    await until(() => signal.aborted);
+    assert.equal(existsSync(`.data/run-control/${ctx.runId}.json`), false);
+    assert.ok(queryByRun(ctx.runId).some(e => e.event === 'RUN_STATE' && e.data.source === 'cli' && e.data.to === 'cancelled'));
+  } finally {
+    await registry.finish(ctx.runId, 'cancelled');
+  }
+});
+
+test('unreadable or rejected control requests are audited and removed', async () => {
+  const registry = new RunRegistry();
+  const ctx = runContext('bad-control');
+  registry.register(ctx);
+  const path = `.data/run-control/${ctx.runId}.json`;
+  try {
+    mkdirSync('.data/run-control', { recursive: true });
+    writeFileSync(path, '{"action":');
+    await until(() => !existsSync(path));
+
+    writeFileSync(path, JSON.stringify({ action: 'resume', source: 'cli' }));
+    await until(() => !existsSync(path));
+
+    const failures = queryByRun(ctx.runId).filter(e => e.event === 'RUN_CONTROL_FAILED');
+    assert.equal(failures.length, 2);
+    assert.match(failures[1].data.error, /Cannot resume a run that is running/);
+    assert.equal(registry.get(ctx.runId)?.state, 'running');
+  } finally {
+    rmSync(path, { force: true });
+    await registry.finish(ctx.runId, 'completed');
+  }
+});
+
+test('finished runs past the retention period are pruned when a run starts', async () => {
+  const day = 24 * 60 * 60 * 1000;
+  const seed = (name: string, updatedAt: number) => {
+    const runId = `test-prune-${name}-${Date.now()}`;
+    writeFileSync(`.data/runs/${runId}.json`, JSON.stringify({ runId, objective: name, state: 'completed', pid: process.pid, startedAt: updatedAt, updatedAt }));
+    return runId;
+  };
+  mkdirSync('.data/runs', { recursive: true });
+  const old = seed('old', Date.now() - 8 * day);
+  const recent = seed('recent', Date.now() - day);
+
+  const registry = new RunRegistry();
+  const ctx = runContext('prune');
+  registry.register(ctx);
+  try {
+    assert.equal(registry.get(old), undefined);
+    assert.equal(registry.get(recent)?.state, 'completed');
+  } finally {
+    await registry.finish(ctx.runId, 'completed');
+    rmSync(`.data/runs/${recent}.json`, { force: true });
+  }
+});
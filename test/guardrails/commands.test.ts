@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { homedir } from 'os';
+import { deletesRootOrHome, shellCommands } from '../../src/guardrails/commands.js';
+import { evaluateToolPolicy } from '../../src/guardrails/policy.js';
+
+const terminal = (cmd: string) => evaluateToolPolicy({ tool: 'terminal', args: { cmd }, domain: 'operations', autonomyLevel: 0.9 });
+
+test('shellCommands removes quotes and expands home', () => {
+  assert.deepEqual(shellCommands(`rm -rf "$HOME" '~' ~/x && echo \${HOME}`, '/home/u'), [
+    ['rm', '-rf', '/home/u', '~', '/home/u/x'],
+    ['echo', '/home/u'],
+  ]);
+});
+
+for (const cmd of [
+  'rm -rf /',
+  'rm -rf /*',
+  'rm -rf ~',
+  'rm -rf ~/',
+  'rm -rf ~/*',
+  'rm -rf --no-preserve-root /',
+  'rm -r -f -- /',
+  'rm -rf "$HOME"',
+  'rm -rf ${HOME}',
+  'rm -rf "${HOME}/"',
+  `rm -rf ${homedir()}`,
+  'rm -rf //',
+  'rm -rf /.',
+  'sudo rm -rf /',
+  '/bin/rm -rf /',
+  'echo ok; rm -rf ~',
+  'cd / && rm -rf *',
+  'cd && rm -rf ./*',
+  'echo $(rm -rf /)',
+]) {
+  test(`blocks ${cmd}`, () => {
+    assert.equal(deletesRootOrHome(cmd, '/tmp'), true);
+    assert.equal(terminal(cmd).rule, 'rm_root_or_home');
+  });
+}
+
+for (const cmd of [
+  'rm -rf build',
+  'rm -rf ./dist/*',
+  'rm -rf ~/project/tmp',
+  'rm -rf "$HOME/.cache/app"',
+  "echo 'rm -rf /' > notes.txt",
+  'git rm --cached file',
+]) {
+  test(`allows ${cmd}`, () => {
+    assert.equal(deletesRootOrHome(cmd, '/tmp'), false);
+  });
+}
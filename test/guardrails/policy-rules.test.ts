@@ -0,0 +1,141 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { evaluateToolPolicy, explainToolPolicy, type PolicyInput } from '../../src/guardrails/policy.js';
+import { getActivePolicy } from '../../src/guardrails/policy-config.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'policy-rules-'));
+const file = join(dir, 'policy.yaml');
+const POLICY = `
+version: 1
+rules:
+  - id: env-allowed
+    verdict: ALLOW
+    match: { paths: ['**/.env'] }
+  - id: no-prod-db
+    verdict: DENY
+    reason: Production databases are managed by the DBA team
+    match:
+      tools: terminal
+      commands: ['\\b(psql|mysql)\\b.*\\bprod']
+  - id: no-secrets
+    verdict: DENY
+    match: { paths: ['secrets/**'] }
+  - id: network-allowlist
+    verdict: DENY
+    match: { tools: [http, web_fetch] }
+    except: { hosts: [api.github.com, '*.example.com'] }
+  - id: finance-writes
+    verdict: REQUIRE_APPROVAL
+    match: { tools: filesystem, domains: finance, args: { op: [write, delete] } }
+  - id: low-autonomy-slack
+    verdict: REQUIRE_APPROVAL
+    match: { tools: slack, autonomyBelow: 0.5 }
+  - id: plan-editor
+    verdict: DENY
+    match: { tools: editor, source: plan }
+  - id: deploy-hours
+    verdict: REQUIRE_APPROVAL
+    match: { tools: terminal, commands: ['\\bkubectl apply\\b'] }
+    except: { time: { days: [mon, tue, wed, thu, fri], from: '09:00', to: '17:00', timezone: UTC } }
+  - id: email-burst
+    verdict: DENY
+    match: { tools: email }
+    rateLimit: { max: 2, windowSec: 60, per: domain }
+`;
+writeFileSync(file, POLICY);
+process.env.POLICY_CONFIG = file;
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+const agent = (tool: string, args: Record<string, any>, extra?: Partial<PolicyInput>) =>
+  evaluateToolPolicy({ tool, args, domain: 'operations', autonomyLevel: 0.9, ...extra });
+
+test('the first matching rule decides', () => {
+  const decision = agent('terminal', { cmd: 'psql -h prod-db -c "select 1"' });
+  assert.equal(decision.verdict, 'DENY');
+  assert.equal(decision.rule, 'no-prod-db');
+  assert.equal(decision.reason, 'Production databases are managed by the DBA team');
+  assert.equal(agent('terminal', { cmd: 'psql -h staging-db' }).verdict, 'ALLOW');
+});
+
+test('path globs match file arguments and the paths a terminal command names', () => {
+  assert.equal(agent('filesystem', { op: 'read', path: 'secrets/api-key' }).rule, 'no-secrets');
+  assert.equal(agent('terminal', { cmd: 'cat notes.txt secrets/api-key' }).rule, 'no-secrets');
+  assert.equal(agent('terminal', { cmd: 'cd secrets && cat api-key' }).rule, 'no-secrets');
+  assert.equal(agent('terminal', { cmd: 'cat notes.txt' }).verdict, 'ALLOW');
+});
+
+test('hard limits apply before any rule', () => {
+  const decision = agent('filesystem', { op: 'read', path: '.env' });
+  assert.equal(decision.verdict, 'DENY');
+  assert.equal(decision.rule, 'env_file');
+  assert.equal(agent('terminal', { cmd: `cat ${file}` }).rule, 'policy_file');
+});
+
+test('except conditions carve out hosts with wildcards', () => {
+  assert.equal(agent('http', { method: 'GET', url: 'https://api.github.com/repos' }).verdict, 'ALLOW');
+  assert.equal(agent('http', { method: 'GET', url: 'https://docs.example.com/' }).verdict, 'ALLOW');
+  assert.equal(agent('web_fetch', { url: 'https://example.org/' }).rule, 'network-allowlist');
+});
+
+test('domain, argument, autonomy and source conditions all have to hold', () => {
+  assert.equal(agent('filesystem', { op: 'write', path: 'a.txt' }, { domain: 'finance', autonomyLevel: 0.9 }).rule, 'finance-writes');
+  assert.equal(agent('filesystem', { op: 'read', path: 'a.txt' }, { domain: 'finance', autonomyLevel: 0.9 }).verdict, 'ALLOW');
+  assert.equal(agent('filesystem', { op: 'write', path: 'a.txt' }).verdict, 'ALLOW');
+
+  assert.equal(agent('slack', { action: 'notify' }, { domain: 'finance', autonomyLevel: 0.3 }).rule, 'low-autonomy-slack');
+  assert.equal(agent('slack', { action: 'notify' }).verdict, 'ALLOW');
+
+  assert.equal(agent('editor', { path: 'demo_v2/a.txt' }, { source: 'plan' }).rule, 'plan-editor');
+  assert.notEqual(agent('editor', { path: 'a.txt' }).rule, 'plan-editor');
+});
+
+test('time windows are evaluated in the rule time zone', () => {
+  const input: PolicyInput = { tool: 'terminal', args: { cmd: 'kubectl apply -f deploy.yaml' }, domain: 'operations', autonomyLevel: 0.9 };
+  const weekdayNoon = new Date('2026-10-21T12:00:00Z');
+  const weekdayNight = new Date('2026-10-21T22:00:00Z');
+  const saturday = new Date('2026-10-24T12:00:00Z');
+  assert.notEqual(evaluateToolPolicy(input, { now: weekdayNoon }).rule, 'deploy-hours');
+  assert.equal(evaluateToolPolicy(input, { now: weekdayNight }).rule, 'deploy-hours');
+  assert.equal(evaluateToolPolicy(input, { now: saturday }).rule, 'deploy-hours');
+});
+
+test('rate-limited rules apply once the limit is exceeded, per domain', () => {
+  const now = new Date('2026-10-21T12:00:00Z');
+  const send = (domain: string, at = now) =>
+    evaluateToolPolicy({ tool: 'email', args: { action: 'send' }, domain, autonomyLevel: 0.9 }, { now: at }).rule;
+
+  assert.notEqual(send('sales'), 'email-burst');
+  assert.notEqual(send('sales'), 'email-burst');
+  assert.equal(send('sales'), 'email-burst');
+  assert.notEqual(send('support'), 'email-burst');
+  assert.notEqual(send('sales', new Date(now.getTime() + 61_000)), 'email-burst');
+});
+
+test('dry runs do not count against a rate limit', () => {
+  const now = new Date('2026-10-22T12:00:00Z');
+  const input: PolicyInput = { tool: 'email', args: { action: 'send' }, domain: 'hr', autonomyLevel: 0.9 };
+  for (let i = 0; i < 3; i++) evaluateToolPolicy(input, { now, dryRun: true });
+  assert.notEqual(evaluateToolPolicy(input, { now }).rule, 'email-burst');
+});
+
+test('explain lists the rules checked up to the deciding one', () => {
+  const { decision, rules, config } = explainToolPolicy({ tool: 'filesystem', args: { op: 'read', path: 'secrets/x' }, domain: 'operations', autonomyLevel: 0.9 });
+  assert.equal(config, file);
+  assert.equal(decision.rule, 'no-secrets');
+  assert.deepEqual(rules.map(r => [r.rule, r.matched]), [['hard_limits', false], ['env-allowed', false], ['no-prod-db', false], ['no-secrets', true]]);
+});
+
+test('an invalid edit keeps the previous rules in force', () => {
+  writeFileSync(file, 'version: 1\nrules:\n  - id: broken\n    verdict: MAYBE\n');
+  const later = new Date(Date.now() + 5000);
+  utimesSync(file, later, later);
+  try {
+    assert.match(getActivePolicy().error!, /Invalid policy config/);
+    assert.equal(agent('filesystem', { op: 'read', path: 'secrets/api-key' }).rule, 'no-secrets');
+  } finally {
+    writeFileSync(file, POLICY);
+  }
+});
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { commandPaths } from '../../src/guardrails/commands.js';
+import { evaluatePolicy, evaluateToolPolicy } from '../../src/guardrails/policy.js';
+
+const terminal = (cmd: string) => evaluateToolPolicy({ tool: 'terminal', args: { cmd }, domain: 'operations', autonomyLevel: 0.9 });
+
+test('commandPaths resolves arguments, options and redirections', () => {
+  assert.deepEqual(commandPaths('cat a --file=b >c 2>>/tmp/d; cd sub && ../bin/x e', '/w', '/home/u'), [
+    '/w/a', '/w/b', '/w/c', '/tmp/d', '/w/sub', '/w/bin/x', '/w/sub/e',
+  ]);
+});
+
+for (const [cmd, rule] of [
+  ['echo "rules: []" > policy.yaml', 'policy_file'],
+  ['tee ./policy.yml < /dev/null', 'policy_file'],
+  ['cat .env', 'env_file'],
+  ['cd .data && sqlite3 approvals.sqlite "update approvals set status=\'approved\'"', 'approval_state'],
+  ['cp x .data/runs/run-1.json', 'run_control'],
+  ['sqlite3 .data/audit.sqlite "delete from events"', 'audit_log'],
+]) {
+  test(`terminal is denied for ${cmd}`, () => {
+    const decision = terminal(cmd);
+    assert.equal(decision.verdict, 'DENY');
+    assert.equal(decision.rule, rule);
+  });
+}
+
+test('terminal commands on ordinary files pass the protected path check', () => {
+  assert.equal(terminal('cat README.md && ls -la src > demo_v2/listing.txt').verdict, 'ALLOW');
+});
+
+const sendEmail = { id: 's1', type: 'custom', params: { action: 'email', params: { action: 'send', to: 'a@example.com', subject: 'Hi', body: 'Hello' } } };
+
+test('plan steps calling email.send are gated by the autonomy level of their run', () => {
+  assert.equal(evaluatePolicy(sendEmail, undefined, { domain: 'developer', autonomyLevel: 0.8 }).verdict, 'ALLOW');
+  const finance = evaluatePolicy(sendEmail, undefined, { domain: 'finance', autonomyLevel: 0.3 });
+  assert.equal(finance.verdict, 'REQUIRE_APPROVAL');
+  assert.equal(finance.rule, 'autonomy_gate');
+});
+
+test('plan steps without an autonomy level only run risk-free actions unasked', () => {
+  assert.equal(evaluatePolicy(sendEmail).verdict, 'DENY');
+  assert.equal(evaluatePolicy({ id: 's2', type: 'audit', params: { message: 'done' } }).verdict, 'ALLOW');
+});
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { promisify } from 'util';
+import { ApprovalStore, approvalKey } from '../../src/integrations/notifications/approvals.js';
+
+const storeModule = new URL('../../src/integrations/notifications/approvals.ts', import.meta.url).href;
+
+/**
+ * Run a snippet against the store in a separate node process, as the CLI or web server would
+ */
+async function inOtherProcess(dbPath: string, body: string): Promise<any> {
+  const code = `import { ApprovalStore } from ${JSON.stringify(storeModule)};
+const store = new ApprovalStore(${JSON.stringify(dbPath)});
+console.log(JSON.stringify(await (async () => { ${body} })() ?? null));`;
+  const { stdout } = await promisify(execFile)(process.execPath, ['--import', 'tsx', '--input-type=module', '-e', code], { timeout: 30_000 });
+  return JSON.parse(stdout.trim().split('\n').at(-1)!);
+}
+
+test('approvalKey always covers the tool and its arguments', () => {
+  const key = approvalKey('run-1', 'email', { action: 'send', to: 'a@example.com' }, 'call-1');
+  assert.equal(key, approvalKey('run-1', 'email', { action: 'send', to: 'a@example.com' }, 'call-1'));
+  assert.notEqual(key, approvalKey('run-1', 'email', { action: 'send', to: 'b@example.com' }, 'call-1'));
+  assert.notEqual(key, approvalKey('run-1', 'slack', { action: 'send', to: 'a@example.com' }, 'call-1'));
+  assert.notEqual(key, approvalKey('run-2', 'email', { action: 'send', to: 'a@example.com' }, 'call-1'));
+});
+
+test('an answer given by another process reaches the waiting store and is consumed once', async () => {
+  const dir = mkdtempSync(join(tmpdir(), 'approvals-'));
+  const dbPath = join(dir, 'approvals.sqlite');
+  const store = new ApprovalStore(dbPath);
+  try {
+    const key = approvalKey('run-1', 'email', { action: 'send' }, 'call-1');
+    const approval = store.create({ key, runId: 'run-1', action: 'email send', reason: 'test', impact: 'high', expiresAt: Date.now() + 60_000 });
+
+    const decided = await inOtherProcess(dbPath, `return store.decide(${JSON.stringify(approval.id)}, true, 'cli');`);
+    assert.equal(decided.ok, true);
+    assert.equal(store.peek(approval.id)?.status, 'approved');
+
+    // A second answer from anywhere is refused
+    assert.equal(store.decide(approval.id, false, 'api').ok, false);
+
+    assert.equal((await inOtherProcess(dbPath, `return store.findByKey(${JSON.stringify(key)})?.id;`)), approval.id);
+    store.consume(approval.id);
+    assert.equal(await inOtherProcess(dbPath, `return store.findByKey(${JSON.stringify(key)})?.id;`), null);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('peek leaves stale approvals for the writers to expire', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'approvals-'));
+  const store = new ApprovalStore(join(dir, 'approvals.sqlite'));
+  try {
+    const approval = store.create({ action: 'a', reason: 'r', impact: 'high', expiresAt: Date.now() - 1 });
+    assert.equal(store.peek(approval.id)?.status, 'pending');
+    assert.equal(store.get(approval.id)?.status, 'expired');
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,75 @@
+/**
+ * Replays recorded runs through the agent loop and planner. Fixtures are served strictly,
+ * so a change to prompts, tools or domain brains fails here until the fixture is
+ * re-recorded with RECORD_FIXTURES=1 npm test.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, readFileSync, rmSync } from 'fs';
+import { AIRouter } from '../../src/ai/router.js';
+import { MockProvider, mockToolCall, type MockStep } from '../../src/ai/providers/mock.js';
+import { getReplayProvider } from '../../src/ai/providers/replay.js';
+import { AgentLoop } from '../../src/core/agent-loop.js';
+import { Planner } from '../../src/planner/index.js';
+import { filesystemTool } from '../../src/tools/definitions.js';
+import type { RunContext } from '../../src/core/types.js';
+
+const RECORD = !!process.env.RECORD_FIXTURES;
+
+/**
+ * Records the scripted responses when RECORD_FIXTURES is set, otherwise replays the fixture
+ */
+function fixtureRouter(fixture: string, script: MockStep[]): AIRouter {
+  if (RECORD) {
+    rmSync(fixture, { force: true });
+    return new AIRouter({ clients: [new MockProvider(script)], replay: { mode: 'record', fixture } });
+  }
+  return new AIRouter({ replay: { mode: 'replay', fixture } });
+}
+
+function runContext(runId: string, text: string): RunContext {
+  return { runId, objective: { text }, createdAt: 0 };
+}
+
+test('developer agent writes and checks a file', async () => {
+  const fixture = 'test/fixtures/agent-developer-write-file.json';
+  const path = 'demo_v2/regression-hello.txt';
+  mkdirSync('demo_v2', { recursive: true });
+  rmSync(path, { force: true });
+  const objective = `Write "hello" to ${path} and confirm it`;
+
+  const router = fixtureRouter(fixture, [
+    mockToolCall({ name: 'filesystem', arguments: { op: 'write', path, content: 'hello' } }),
+    mockToolCall({ name: 'filesystem', arguments: { op: 'read', path } }),
+    mockToolCall({ name: 'complete_task', arguments: {
+      status: 'complete', summary: `Wrote ${path}`, deliverables: [{ type: 'file', ref: path, description: 'The greeting file' }],
+    } }),
+  ]);
+  const loop = new AgentLoop(router, { domain: 'developer', autoDomain: false, tools: [filesystemTool], maxIterations: 5 });
+  const result = await loop.run(runContext('regression-developer-write-file', objective), objective);
+
+  assert.equal(result.status, 'complete');
+  assert.deepEqual(result.completion?.deliverables, [{ type: 'file', ref: path, description: 'The greeting file' }]);
+  assert.equal(readFileSync(path, 'utf8'), 'hello');
+  if (!RECORD) assert.equal(getReplayProvider(fixture).remaining(), 0);
+});
+
+test('planner turns an objective into a valid plan', async () => {
+  const fixture = 'test/fixtures/planner-make-directory.json';
+  const objective = 'Create the demo_v2/out directory and check it exists';
+
+  const router = fixtureRouter(fixture, [JSON.stringify({
+    objective,
+    steps: [
+      { id: 's1', type: 'filesystem', description: 'Create the directory', params: { op: 'mkdir', path: 'demo_v2/out' } },
+      { id: 's2', type: 'verify', description: 'Check it exists', params: { type: 'file_exists', target: 'demo_v2/out' }, deps: ['s1'] },
+    ],
+  })]);
+  const planner = new Planner(router);
+  const plan = await planner.plan(runContext('regression-planner-mkdir', objective), objective);
+
+  assert.deepEqual(plan.steps.map(s => [s.id, s.type]), [['s1', 'filesystem'], ['s2', 'verify']]);
+  assert.equal(planner.validatePlan(plan).valid, true);
+  if (!RECORD) assert.ok(existsSync(fixture) && getReplayProvider(fixture).remaining() === 0);
+});
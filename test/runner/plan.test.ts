@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIRouter } from '../../src/ai/router.js';
+import { MockProvider } from '../../src/ai/providers/mock.js';
+import { runPlanObjective } from '../../src/runner/plan.js';
+import type { PlanStep } from '../../src/core/types.js';
+
+const note = (id: string, message: string, deps?: string[]): PlanStep =>
+  ({ id, type: 'audit', description: message, params: { message }, deps });
+const missing = (id: string, deps?: string[]): PlanStep =>
+  ({ id, type: 'verify', description: 'Check a file', params: { type: 'file_exists', target: `demo_v2/${id}-does-not-exist` }, deps });
+
+const planJson = (steps: PlanStep[]) => JSON.stringify({ objective: 'test', steps });
+
+function planRun(name: string, plans: PlanStep[][], maxReplans?: number) {
+  const mock = new MockProvider(plans.map(planJson));
+  const run = runPlanObjective('test', {
+    runId: `test-plan-${name}-${Date.now()}`,
+    router: new AIRouter({ clients: [mock] } as any),
+    maxReplans,
+  });
+  return { mock, run };
+}
+
+test('a replan that repeats completed steps does not run them again', async () => {
+  const { run } = planRun('repeat', [
+    [note('a', 'first'), missing('b', ['a'])],
+    [note('a', 'first'), note('c', 'instead of b', ['a'])],
+  ]);
+
+  const result = await run;
+
+  assert.equal(result.status, 'complete');
+  assert.equal(result.attempts, 2);
+  assert.deepEqual(result.steps.map(s => [s.stepId, s.status]), [['a', 'ok'], ['b', 'failed'], ['c', 'ok']]);
+  // The dependency on the completed step was dropped with it
+  assert.deepEqual(result.plan.steps.map(s => [s.id, s.deps ?? []]), [['c', []]]);
+});
+
+test('a replan that reuses a completed step id for other work is sent back', async () => {
+  const { mock, run } = planRun('conflict', [
+    [note('a', 'first'), missing('b', ['a'])],
+    [note('a', 'something else')],
+    [note('c', 'something else')],
+  ]);
+
+  const result = await run;
+
+  assert.equal(result.status, 'complete');
+  assert.equal(mock.requests.length, 3);
+  assert.match(String(mock.requests[2].messages.at(-1)!.content), /Step a reuses the id of completed step a \(first\)/);
+  assert.deepEqual(result.steps.map(s => [s.stepId, s.status]), [['a', 'ok'], ['b', 'failed'], ['c', 'ok']]);
+});
+
+test('the run fails once the replans are used up', async () => {
+  const { run } = planRun('exhausted', [[missing('a')], [missing('b')]], 1);
+
+  const result = await run;
+
+  assert.equal(result.status, 'failed');
+  assert.equal(result.attempts, 2);
+  assert.deepEqual(result.errors.map(e => e.split(':')[0]), ['a', 'b']);
+});